@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { 
   Upload, 
   Download, 
@@ -11,53 +11,108 @@ import {
   FileText,
   Zap,
   AlertCircle,
-  ShieldAlert
+  ShieldAlert,
+  FolderOpen,
+  Archive,
+  Square
 } from 'lucide-react';
-import Layout from './components/Layout';
-import { OptimizationResult } from './types';
-import { optimizeZipBasedDoc, optimizePDF } from './services/optimizerService';
-
-type TabType = 'HWPX' | 'PDF' | 'PPTX_SHOW';
+import Layout, { clampTargetSizeMB } from './components/Layout';
+import FileQueue from './components/FileQueue';
+import AssetReportTable from './components/AssetReportTable';
+import AssetReview from './components/AssetReview';
+import {
+  AssetOverride,
+  EmbeddedMediaPolicy,
+  FileType,
+  MediaCleanupMode,
+  MetafilePolicy,
+  OptimizationOptions,
+  PdfCleanupOptions,
+  QueueItem,
+  TransparencyPolicy
+} from './types';
+import {
+  acceptsFolderFile,
+  bundleResults,
+  collectDroppedFiles,
+  createQueueItem,
+  DEFAULT_OPTIONS,
+  downloadBlob,
+  extractedMediaName,
+  SUPPORTED_EXTENSIONS
+} from './services/batchService';
+import { DOCUMENT_FORMATS, formatByType } from './services/formatRegistry';
+import { createWorkerPool, WorkerPool } from './services/workerPool';
+import { isAbortError } from './services/abort';
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<TabType>('HWPX');
-  const [quality, setQuality] = useState(70);
-  const [skipPng, setSkipPng] = useState(true); // Default to true to be safe
-  const [file, setFile] = useState<File | null>(null);
+  const [activeTab, setActiveTab] = useState<FileType>(FileType.HWPX);
+  const [quality, setQuality] = useState(DEFAULT_OPTIONS.quality);
+  const [transparency, setTransparency] = useState<TransparencyPolicy>(DEFAULT_OPTIONS.transparency);
+  const [paletteQuality, setPaletteQuality] = useState(DEFAULT_OPTIONS.paletteQuality);
+  const [maxDpi, setMaxDpi] = useState(DEFAULT_OPTIONS.maxDpi);
+  const [targetMode, setTargetMode] = useState(false);
+  const [targetSizeMB, setTargetSizeMB] = useState('10');
+  const [ssimThreshold, setSsimThreshold] = useState(DEFAULT_OPTIONS.ssimThreshold);
+  const [mediaCleanup, setMediaCleanup] = useState<MediaCleanupMode>(DEFAULT_OPTIONS.mediaCleanup);
+  const [metafiles, setMetafiles] = useState<MetafilePolicy>(DEFAULT_OPTIONS.metafiles);
+  const [removeEmbeddedFonts, setRemoveEmbeddedFonts] = useState(DEFAULT_OPTIONS.removeEmbeddedFonts);
+  const [subsetFonts, setSubsetFonts] = useState(DEFAULT_OPTIONS.subsetFonts);
+  const [embeddedMedia, setEmbeddedMedia] = useState<EmbeddedMediaPolicy>(DEFAULT_OPTIONS.embeddedMedia);
+  const [pdfCleanup, setPdfCleanup] = useState<PdfCleanupOptions>(DEFAULT_OPTIONS.pdfCleanup);
+  const [privacyScrub, setPrivacyScrub] = useState(DEFAULT_OPTIONS.privacyScrub);
+  const [trimCrops, setTrimCrops] = useState(DEFAULT_OPTIONS.trimCrops);
+  const [items, setItems] = useState<QueueItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const poolRef = useRef<WorkerPool | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    poolRef.current?.terminate();
+  }, []);
+
+  const getPool = () => poolRef.current ?? (poolRef.current = createWorkerPool());
+
+  const updateItem = (id: string, patch: Partial<QueueItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const addFiles = (files: { file: File; relativePath: string }[]) => {
+    if (files.length === 0) return;
+    setItems((prev) => [...prev, ...files.map(({ file, relativePath }) => createQueueItem(file, relativePath))]);
+    setError(null);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selected = e.target.files?.[0];
-    if (selected) {
-      const fileName = selected.name.toLowerCase();
-      
-      // Legacy format validation
-      if (fileName.endsWith('.hwp')) {
-        setError("HWP 파일은 지원하지 않습니다. 한글 프로그램에서 '다른 이름으로 저장'을 통해 .hwpx 형식으로 변환 후 다시 시도해주세요.");
-        setFile(null);
-        return;
-      }
-      if (fileName.endsWith('.ppt')) {
-        setError("PPT 파일은 지원하지 않습니다. 파워포인트에서 '다른 이름으로 저장'을 통해 .pptx 형식으로 변환 후 다시 시도해주세요.");
-        setFile(null);
-        return;
-      }
+    const selected: File[] = e.target.files ? Array.from(e.target.files) : [];
+    addFiles(selected
+      .filter((file) => !file.webkitRelativePath || acceptsFolderFile(file.name))
+      .map((file) => ({ file, relativePath: file.webkitRelativePath || file.name })));
+    e.target.value = '';
+  };
 
-      setFile(selected);
-      setResult(null);
-      setError(null);
-      setProgress(0);
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isProcessing) return;
+    try {
+      addFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (err: any) {
+      setError(`파일을 읽을 수 없습니다: ${err.message || err}`);
     }
   };
 
+  const pendingItems = items.filter((item) => item.status === 'pending');
+  const doneItems = items.filter((item) => item.status === 'done' && item.result);
+
   const runOptimization = async () => {
-    if (!file) return;
+    if (pendingItems.length === 0) return;
 
     // Large file confirmation
-    if (file.size > 100 * 1024 * 1024) {
+    if (pendingItems.some((item) => item.file.size > 100 * 1024 * 1024)) {
       const proceed = window.confirm(
         "100MB 이상의 대용량 파일은 변환 과정에서 시간이 오래 걸리거나 브라우저가 일시적으로 멈추는 등의 문제가 발생할 수 있습니다.\n\n계속 진행하시겠습니까?"
       );
@@ -65,31 +120,137 @@ const App: React.FC = () => {
     }
 
     setIsProcessing(true);
-    setProgress(0);
     setError(null);
-    try {
-      let res: OptimizationResult;
-      if (activeTab === 'HWPX' || activeTab === 'PPTX_SHOW') {
-        res = await optimizeZipBasedDoc(file, quality, skipPng, (p) => setProgress(p));
-      } else {
-        res = await optimizePDF(file, quality, skipPng, (p) => setProgress(p));
+    const options: OptimizationOptions = {
+      quality,
+      transparency,
+      paletteQuality,
+      maxDpi,
+      maxMegapixels: 0,
+      targetBytes: targetMode ? Math.round(clampTargetSizeMB(targetSizeMB) * 1024 * 1024) : 0,
+      ssimThreshold,
+      mediaCleanup,
+      metafiles,
+      removeEmbeddedFonts,
+      subsetFonts,
+      embeddedMedia,
+      pdfCleanup,
+      privacyScrub,
+      trimCrops,
+    };
+    const pool = getPool();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    await Promise.all(pendingItems.map(async (item) => {
+      updateItem(item.id, { status: 'processing', progress: 0 });
+      try {
+        const result = await pool.run(item.file, options, (p) => updateItem(item.id, { progress: p }), controller.signal);
+        updateItem(item.id, { status: 'done', progress: 100, result });
+      } catch (err: any) {
+        if (isAbortError(err)) {
+          // Cancelled files go back to the queue untouched so they can be started again
+          updateItem(item.id, { status: 'pending', progress: 0 });
+          return;
+        }
+        console.error(err);
+        updateItem(item.id, {
+          status: 'error',
+          error: `오류 발생: ${err.message || '알 수 없는 오류가 발생했습니다.'}\n파일이 손상되었거나 브라우저 메모리가 부족할 수 있습니다.\n특히 DRM(문서보안)이 적용된 파일은 최적화가 불가능합니다.`
+        });
       }
-      setResult(res);
+    }));
+    abortRef.current = null;
+    setIsProcessing(false);
+  };
+
+  const cancelOptimization = () => {
+    abortRef.current?.abort();
+  };
+
+  /**
+   * Optimizes a finished file again with new per-image overrides. Images whose
+   * settings did not change keep their earlier encoding.
+   */
+  const rerunItem = async (item: QueueItem, overrides: Record<string, AssetOverride>) => {
+    const previous = item.result;
+    if (!previous?.sessionId) return;
+
+    setIsProcessing(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    updateItem(item.id, { status: 'processing', progress: 0, error: null });
+    try {
+      const result = await getPool().rerun(
+        previous.sessionId,
+        { ...previous.options, overrides },
+        (p) => updateItem(item.id, { progress: p }),
+        controller.signal
+      );
+      updateItem(item.id, { status: 'done', progress: 100, result });
     } catch (err: any) {
-      console.error(err);
-      setError(`오류 발생: ${err.message || '알 수 없는 오류가 발생했습니다.'}\n파일이 손상되었거나 브라우저 메모리가 부족할 수 있습니다.\n특히 DRM(문서보안)이 적용된 파일은 최적화가 불가능합니다.`);
-    } finally {
-      setIsProcessing(false);
+      // The earlier result stays valid whatever went wrong
+      updateItem(item.id, {
+        status: 'done',
+        progress: 100,
+        error: isAbortError(err) ? null : `다시 최적화하지 못했습니다: ${err.message || err}`
+      });
     }
+    abortRef.current = null;
+    setIsProcessing(false);
+  };
+
+  const loadPreview = useCallback(
+    (sessionId: string, assetId: string) => getPool().preview(sessionId, assetId),
+    []
+  );
+
+  const releaseItems = (released: QueueItem[]) => {
+    released.forEach((item) => item.result?.sessionId && poolRef.current?.release(item.result.sessionId));
   };
 
   const reset = () => {
-    setFile(null);
-    setResult(null);
+    releaseItems(items);
+    setItems([]);
     setError(null);
-    setProgress(0);
   };
 
+  const removeItem = (id: string) => {
+    releaseItems(items.filter((item) => item.id === id));
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const downloadItem = (item: QueueItem) => {
+    if (item.result) downloadBlob(item.result.blob, `optimized_${item.result.fileName}`);
+  };
+
+  const downloadMedia = (item: QueueItem) => {
+    if (item.result?.extractedMedia) downloadBlob(item.result.extractedMedia, extractedMediaName(item.result.fileName));
+  };
+
+  const downloadAll = async () => {
+    // Extracted media travel in the bundle, next to their document
+    if (doneItems.length === 1 && !doneItems[0].result!.extractedMedia) {
+      downloadItem(doneItems[0]);
+      return;
+    }
+    downloadBlob(await bundleResults(doneItems), 'optimized_files.zip');
+  };
+
+  const totals = doneItems.reduce(
+    (acc, item) => ({
+      originalSize: acc.originalSize + item.result!.originalSize,
+      compressedSize: acc.compressedSize + item.result!.compressedSize,
+      found: acc.found + item.result!.imageStats.found,
+      optimized: acc.optimized + item.result!.imageStats.optimized,
+    }),
+    { originalSize: 0, compressedSize: 0, found: 0, optimized: 0 }
+  );
+  const totalReduction = totals.originalSize > 0
+    ? Math.max(0, ((totals.originalSize - totals.compressedSize) / totals.originalSize) * 100)
+    : 0;
+  const isFinished = !isProcessing && doneItems.length > 0 && pendingItems.length === 0;
+  const activeFormat = formatByType(activeTab);
+
   const formatSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -98,126 +259,150 @@ const App: React.FC = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const getAcceptExtensions = () => {
-    switch(activeTab) {
-      case 'HWPX': return '.hwpx';
-      case 'PDF': return '.pdf';
-      case 'PPTX_SHOW': return '.pptx,.show';
-      default: return '';
-    }
-  };
-
   return (
     <Layout 
       quality={quality} 
       setQuality={setQuality} 
-      skipPng={skipPng} 
-      setSkipPng={setSkipPng} 
-      activeTab={activeTab}
+      transparency={transparency}
+      setTransparency={setTransparency}
+      paletteQuality={paletteQuality}
+      setPaletteQuality={setPaletteQuality}
+      maxDpi={maxDpi}
+      setMaxDpi={setMaxDpi}
+      targetMode={targetMode}
+      setTargetMode={setTargetMode}
+      targetSizeMB={targetSizeMB}
+      setTargetSizeMB={setTargetSizeMB}
+      ssimThreshold={ssimThreshold}
+      setSsimThreshold={setSsimThreshold}
+      mediaCleanup={mediaCleanup}
+      setMediaCleanup={setMediaCleanup}
+      metafiles={metafiles}
+      setMetafiles={setMetafiles}
+      removeEmbeddedFonts={removeEmbeddedFonts}
+      setRemoveEmbeddedFonts={setRemoveEmbeddedFonts}
+      subsetFonts={subsetFonts}
+      setSubsetFonts={setSubsetFonts}
+      embeddedMedia={embeddedMedia}
+      setEmbeddedMedia={setEmbeddedMedia}
+      pdfCleanup={pdfCleanup}
+      setPdfCleanup={setPdfCleanup}
+      privacyScrub={privacyScrub}
+      setPrivacyScrub={setPrivacyScrub}
+      trimCrops={trimCrops}
+      setTrimCrops={setTrimCrops}
+      format={activeFormat}
     >
       <div className="flex flex-col gap-8">
         {/* Tab Selection */}
         <div className="flex p-1 bg-slate-200 rounded-xl w-fit flex-wrap gap-1">
-          <button
-            onClick={() => { setActiveTab('HWPX'); reset(); }}
-            className={`px-6 py-2.5 rounded-lg text-sm font-semibold transition-all ${
-              activeTab === 'HWPX' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-900'
-            }`}
-          >
-            HWPX 압축
-          </button>
-          <button
-            onClick={() => { setActiveTab('PDF'); reset(); }}
-            className={`px-6 py-2.5 rounded-lg text-sm font-semibold transition-all ${
-              activeTab === 'PDF' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-900'
-            }`}
-          >
-            PDF 압축
-          </button>
-          <button
-            onClick={() => { setActiveTab('PPTX_SHOW'); reset(); }}
-            className={`px-6 py-2.5 rounded-lg text-sm font-semibold transition-all ${
-              activeTab === 'PPTX_SHOW' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-900'
-            }`}
-          >
-            PPTX / SHOW 압축
-          </button>
+          {DOCUMENT_FORMATS.map((format) => (
+            <button
+              key={format.type}
+              onClick={() => setActiveTab(format.type)}
+              className={`px-6 py-2.5 rounded-lg text-sm font-semibold transition-all ${
+                activeTab === format.type ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              {format.label} 압축
+            </button>
+          ))}
         </div>
 
-        {!result ? (
-          <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-12 flex flex-col items-center text-center">
+        {!isFinished ? (
+          <div
+            onDragOver={(e) => { e.preventDefault(); if (!isProcessing) setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`bg-white border-2 border-dashed rounded-3xl p-12 flex flex-col items-center text-center transition-colors ${
+              isDragging ? 'border-blue-400 bg-blue-50/50' : 'border-slate-200'
+            }`}
+          >
             <div className="w-20 h-20 bg-blue-50 rounded-full flex items-center justify-center mb-6">
               <Upload className="text-blue-600 w-10 h-10" />
             </div>
             <h2 className="text-2xl font-bold text-slate-900 mb-2">파일을 업로드하세요</h2>
             <div className="mb-8 flex flex-col items-center gap-2">
               <p className="text-slate-500 max-w-sm">
-                최적화할 {activeTab === 'PPTX_SHOW' ? 'PPTX 또는 SHOW' : activeTab} 파일을 선택하거나 이 영역으로 드래그 앤 드롭 하세요.
+                최적화할 {activeFormat.extensions.map((extension) => extension.slice(1).toUpperCase()).join(' 또는 ')} 파일을 선택하거나 이 영역으로 드래그 앤 드롭 하세요.
+              </p>
+              <p className="text-slate-400 text-xs">
+                여러 파일과 폴더를 한 번에 올릴 수 있으며, {SUPPORTED_EXTENSIONS.map((extension) => extension.slice(1).toUpperCase()).join(' · ')} 파일은 형식에 맞게 자동으로 처리됩니다.
               </p>
               <div className="bg-amber-50 border border-amber-100 px-4 py-2 rounded-lg flex items-center gap-2 text-amber-700 text-xs mt-2">
                 <ShieldAlert size={14} />
                 <span>DRM(문서보안) 적용 파일은 지원하지 않습니다.</span>
               </div>
-              {activeTab === 'HWPX' && (
-                <p className="text-blue-600 text-sm font-medium mt-1">
-                  * hwp 파일은 hwpx 파일로 변환 후 업로드 해주세요.
+              <div className="flex flex-col gap-1 items-center">
+                {activeFormat.hint && (
+                  <p className="text-blue-600 text-sm font-medium mt-1">{activeFormat.hint}</p>
+                )}
+                <p className="text-slate-400 text-xs flex items-center gap-1 mt-1">
+                  <AlertCircle size={12} /> 100MB 이상의 대용량 파일은 처리 중 브라우저가 일시적으로 느려질 수 있습니다.
                 </p>
-              )}
-              {activeTab === 'PPTX_SHOW' && (
-                <div className="flex flex-col gap-1 items-center">
-                  <p className="text-blue-600 text-sm font-medium mt-1">
-                    * ppt 파일은 pptx 파일로 변환 후 업로드 해주세요.
-                  </p>
-                  <p className="text-slate-400 text-xs flex items-center gap-1 mt-1">
-                    <AlertCircle size={12} /> 100MB 이상의 대용량 파일은 처리 중 브라우저가 일시적으로 느려질 수 있습니다.
-                  </p>
-                </div>
-              )}
+              </div>
             </div>
             
             <input
               type="file"
               id="fileInput"
-              accept={getAcceptExtensions()}
+              accept={SUPPORTED_EXTENSIONS.join(',')}
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <input
+              type="file"
+              id="folderInput"
               className="hidden"
               onChange={handleFileChange}
+              {...{ webkitdirectory: '' }}
             />
             
             <div className="flex flex-col gap-4 w-full max-w-sm">
-              <label
-                htmlFor="fileInput"
-                className="cursor-pointer bg-white border border-slate-300 hover:border-blue-400 text-slate-700 font-semibold py-3 px-6 rounded-xl shadow-sm transition-all flex items-center justify-center gap-2"
-              >
-                <FileText size={18} /> {file ? file.name : '파일 선택하기'}
-              </label>
-
-              {file && !isProcessing && (
+              <div className="flex gap-2">
+                <label
+                  htmlFor="fileInput"
+                  className={`flex-1 bg-white border border-slate-300 hover:border-blue-400 text-slate-700 font-semibold py-3 px-6 rounded-xl shadow-sm transition-all flex items-center justify-center gap-2 ${
+                    isProcessing ? 'pointer-events-none opacity-50' : 'cursor-pointer'
+                  }`}
+                >
+                  <FileText size={18} /> 파일 선택하기
+                </label>
+                <label
+                  htmlFor="folderInput"
+                  className={`bg-white border border-slate-300 hover:border-blue-400 text-slate-700 font-semibold py-3 px-4 rounded-xl shadow-sm transition-all flex items-center justify-center gap-2 ${
+                    isProcessing ? 'pointer-events-none opacity-50' : 'cursor-pointer'
+                  }`}
+                  title="폴더 선택하기"
+                >
+                  <FolderOpen size={18} />
+                </label>
+              </div>
+
+              {pendingItems.length > 0 && !isProcessing && (
                 <button
                   onClick={runOptimization}
                   className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded-xl shadow-lg shadow-blue-200 transition-all flex items-center justify-center gap-2"
                 >
-                  <Zap size={18} /> 다이어트 시작하기
+                  <Zap size={18} /> 다이어트 시작하기 ({pendingItems.length}개)
                 </button>
               )}
 
               {isProcessing && (
-                <div className="w-full mt-4">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-bold text-blue-600">진행률</span>
-                    <span className="text-sm font-bold text-blue-600">{progress}%</span>
-                  </div>
-                  <div className="w-full bg-slate-100 rounded-full h-4 overflow-hidden">
-                    <div 
-                      className="bg-blue-600 h-full transition-all duration-300 ease-out"
-                      style={{ width: `${progress}%` }}
-                    ></div>
-                  </div>
-                  <p className="text-xs text-slate-400 mt-2 text-center">
-                    {file && file.size > 100 * 1024 * 1024 
+                <>
+                  <p className="text-xs text-slate-400 text-center">
+                    {items.some((item) => item.status !== 'done' && item.file.size > 100 * 1024 * 1024)
                       ? "대용량 파일을 처리 중입니다. 브라우저 창을 닫지 마세요." 
                       : "문서 용량을 줄이는 중입니다. 잠시만 기다려주세요."}
                   </p>
-                </div>
+                  <button
+                    onClick={cancelOptimization}
+                    className="bg-white border border-red-200 hover:bg-red-50 text-red-600 font-semibold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2"
+                  >
+                    <Square size={16} /> 작업 취소
+                  </button>
+                </>
               )}
             </div>
 
@@ -241,7 +426,12 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     <h3 className="text-xl font-bold text-slate-900">최적화 완료!</h3>
-                    <p className="text-sm text-slate-500">파일 용량이 획기적으로 줄어들었습니다.</p>
+                    <p className="text-sm text-slate-500">
+                      {doneItems.length > 1 ? `${doneItems.length}개 파일의 용량이 줄어들었습니다.` : '파일 용량이 획기적으로 줄어들었습니다.'}
+                    </p>
+                    <p className="text-xs text-slate-400 mt-1">
+                      이미지 {totals.found}개 중 {totals.optimized}개 최적화
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
@@ -251,13 +441,14 @@ const App: React.FC = () => {
                   >
                     <RotateCcw size={16} /> 다시하기
                   </button>
-                  <a
-                    href={URL.createObjectURL(result.blob)}
-                    download={`optimized_${result.fileName}`}
+                  <button
+                    onClick={downloadAll}
                     className="flex items-center gap-2 px-6 py-2 rounded-lg bg-blue-600 text-white font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-100"
                   >
-                    <Download size={18} /> 다운로드
-                  </a>
+                    {doneItems.length > 1
+                      ? <><Archive size={18} /> 전체 다운로드 (ZIP)</>
+                      : <><Download size={18} /> 다운로드</>}
+                  </button>
                 </div>
               </div>
 
@@ -265,16 +456,16 @@ const App: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
                   <div className="p-6 rounded-2xl bg-slate-50 border border-slate-100">
                     <span className="text-xs font-semibold text-slate-400 uppercase">원본 용량</span>
-                    <p className="text-2xl font-bold text-slate-900 mt-1">{formatSize(result.originalSize)}</p>
+                    <p className="text-2xl font-bold text-slate-900 mt-1">{formatSize(totals.originalSize)}</p>
                   </div>
                   <div className="p-6 rounded-2xl bg-blue-50 border border-blue-100">
                     <span className="text-xs font-semibold text-blue-400 uppercase">압축 후 용량</span>
-                    <p className="text-2xl font-bold text-blue-600 mt-1">{formatSize(result.compressedSize)}</p>
+                    <p className="text-2xl font-bold text-blue-600 mt-1">{formatSize(totals.compressedSize)}</p>
                   </div>
                   <div className="p-6 rounded-2xl bg-green-50 border border-green-100">
                     <span className="text-xs font-semibold text-green-500 uppercase">절감률</span>
                     <div className="flex items-center gap-2 mt-1">
-                      <p className="text-2xl font-bold text-green-600">{result.reductionPercentage.toFixed(1)}%</p>
+                      <p className="text-2xl font-bold text-green-600">{totalReduction.toFixed(1)}%</p>
                       <BarChart3 className="text-green-500" size={20} />
                     </div>
                   </div>
@@ -294,17 +485,43 @@ const App: React.FC = () => {
                     <div className="h-4 flex-1 mx-4 bg-slate-100 rounded-full overflow-hidden">
                       <div 
                         className="h-full bg-blue-600 transition-all duration-1000 ease-out" 
-                        style={{ width: `${Math.max(5, 100 - result.reductionPercentage)}%` }}
+                        style={{ width: `${Math.max(5, 100 - totalReduction)}%` }}
                       ></div>
                     </div>
-                    <span className="text-xs font-bold text-blue-600">{Math.round(100 - result.reductionPercentage)}%</span>
+                    <span className="text-xs font-bold text-blue-600">{Math.round(100 - totalReduction)}%</span>
                   </div>
                 </div>
               </div>
             </div>
+
+            <div className="mt-6 flex flex-col gap-4">
+              <AssetReportTable
+                items={items.filter((item) => item.status === 'done' || item.status === 'error')}
+                formatSize={formatSize}
+              />
+              {doneItems.filter((item) => item.result!.assets.length > 0).map((item) => (
+                <AssetReview
+                  key={item.id}
+                  item={item}
+                  isProcessing={isProcessing}
+                  formatSize={formatSize}
+                  loadPreview={loadPreview}
+                  onRerun={rerunItem}
+                />
+              ))}
+            </div>
           </div>
         )}
 
+        <FileQueue
+          items={items}
+          isProcessing={isProcessing}
+          formatSize={formatSize}
+          onRemove={removeItem}
+          onDownload={downloadItem}
+          onDownloadMedia={downloadMedia}
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-12">
           <div className="bg-white p-6 rounded-2xl border border-slate-200">
             <h4 className="font-bold text-slate-900 mb-2 flex items-center gap-2">
@@ -312,7 +529,7 @@ const App: React.FC = () => {
               어떻게 압축되나요?
             </h4>
             <p className="text-sm text-slate-600 leading-relaxed">
-              HWPX, PPTX, SHOW 파일은 내부의 이미지 자산을 찾아 설정하신 품질로 재인코딩합니다. PDF는 문서 내부의 고해상도 이미지를 추출하여 최적화하고 용량을 줄입니다. 텍스트 레이아웃은 보존됩니다.
+              HWPX, PPTX, SHOW, DOCX, XLSX, ODT, ODP 파일은 내부의 이미지 자산을 찾아 설정하신 품질로 재인코딩합니다. PDF는 문서 내부의 고해상도 이미지를 추출하여 최적화하고 용량을 줄입니다. 텍스트 레이아웃은 보존됩니다.
             </p>
           </div>
           <div className="bg-white p-6 rounded-2xl border border-slate-200">
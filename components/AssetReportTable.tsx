@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUpDown, ChevronDown, ChevronUp, FileSpreadsheet, FileText, ScrollText } from 'lucide-react';
+import { AssetStatus, QueueItem } from '../types';
+import { collectReportRows, ReportRow, reportToCsv, reportToJson } from '../services/reportService';
+import { downloadBlob, resultPaths } from '../services/batchService';
+
+interface AssetReportTableProps {
+  items: QueueItem[];
+  formatSize: (bytes: number) => string;
+}
+
+type SortKey = 'file' | 'id' | 'status' | 'bytesBefore' | 'bytesAfter' | 'saved';
+
+const STATUS_LABELS: Record<AssetStatus, { label: string; className: string }> = {
+  optimized: { label: '최적화', className: 'bg-green-50 text-green-700' },
+  kept: { label: '원본 유지', className: 'bg-slate-100 text-slate-600' },
+  skipped: { label: '건너뜀', className: 'bg-amber-50 text-amber-700' },
+  error: { label: '오류', className: 'bg-red-50 text-red-700' },
+};
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'file', label: '문서' },
+  { key: 'id', label: '이미지' },
+  { key: 'status', label: '상태' },
+  { key: 'bytesBefore', label: '원본', numeric: true },
+  { key: 'bytesAfter', label: '결과', numeric: true },
+  { key: 'saved', label: '절감', numeric: true },
+];
+
+const dimensions = (width?: number, height?: number) => (width && height ? `${width}×${height}` : '');
+
+const AssetReportTable: React.FC<AssetReportTableProps> = ({ items, formatSize }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('saved');
+  const [descending, setDescending] = useState(true);
+  // Reports name each document as the results ZIP does
+  const reportItems = useMemo(() => {
+    const paths = resultPaths(items);
+    return items.map((item) => ({ ...item, relativePath: paths.get(item.id)?.document ?? item.relativePath }));
+  }, [items]);
+  const rows = useMemo(() => collectReportRows(reportItems), [reportItems]);
+
+  const sorted = useMemo(() => {
+    const compare = (a: ReportRow, b: ReportRow) => {
+      const x = a[sortKey];
+      const y = b[sortKey];
+      return typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    };
+    return [...rows].sort((a, b) => (descending ? -compare(a, b) : compare(a, b)));
+  }, [rows, sortKey, descending]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(COLUMNS.find((column) => column.key === key)?.numeric ?? false);
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between gap-4">
+        <h4 className="font-bold text-slate-900 text-sm">이미지별 상세 결과 ({rows.length}개)</h4>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => downloadBlob(reportToCsv(rows), 'optimization_report.csv')}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors"
+          >
+            <FileSpreadsheet size={14} /> CSV
+          </button>
+          <button
+            onClick={() => downloadBlob(reportToJson(reportItems), 'optimization_report.json')}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors"
+          >
+            <FileText size={14} /> JSON
+          </button>
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 sticky top-0">
+              <tr>
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    onClick={() => toggleSort(column.key)}
+                    className={`px-3 py-2 font-semibold cursor-pointer select-none whitespace-nowrap ${column.numeric ? 'text-right' : 'text-left'}`}
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {column.label}
+                      {sortKey !== column.key
+                        ? <ArrowUpDown size={12} className="text-slate-300" />
+                        : descending ? <ChevronDown size={12} /> : <ChevronUp size={12} />}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sorted.map((row) => (
+                <tr key={`${row.itemId}:${row.id}`} className="align-top">
+                  <td className="px-3 py-2 text-slate-500 max-w-[10rem] truncate" title={row.file}>{row.file}</td>
+                  <td className="px-3 py-2 text-slate-800">
+                    <div className="max-w-[14rem] truncate" title={row.id}>{row.id}</div>
+                    <div className="text-[10px] text-slate-400">
+                      {row.codecBefore}{row.codecAfter && ` → ${row.codecAfter}`}
+                      {' '}{dimensions(row.originalWidth, row.originalHeight)}
+                      {row.width !== undefined && (row.width !== row.originalWidth || row.height !== row.originalHeight) &&
+                        ` → ${dimensions(row.width, row.height)}`}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_LABELS[row.status].className}`}>
+                      {STATUS_LABELS[row.status].label}
+                    </span>
+                    {row.reason && <div className="text-[10px] text-slate-400 mt-1 max-w-[14rem]">{row.reason}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-right text-slate-500 whitespace-nowrap">{formatSize(row.bytesBefore)}</td>
+                  <td className="px-3 py-2 text-right text-slate-500 whitespace-nowrap">{formatSize(row.bytesAfter)}</td>
+                  <td className="px-3 py-2 text-right font-semibold text-green-600 whitespace-nowrap">
+                    {row.saved > 0 ? formatSize(row.saved) : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-100 border-t border-slate-100">
+        {items.filter((item) => item.result).map((item) => (
+          <details key={item.id} className="px-4 py-2">
+            <summary className="text-xs text-slate-500 cursor-pointer flex items-center gap-1 select-none">
+              <ScrollText size={12} /> 처리 로그: {item.relativePath}
+            </summary>
+            <pre className="mt-2 text-[10px] leading-relaxed text-slate-500 bg-slate-50 rounded-lg p-3 max-h-60 overflow-auto whitespace-pre-wrap">
+              {item.result!.optimizationLogs.join('\n')}
+            </pre>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AssetReportTable;
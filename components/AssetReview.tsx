@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Images, RefreshCw } from 'lucide-react';
+import { AssetOverride, AssetPreview, AssetReport, QueueItem } from '../types';
+import ImageCompare from './ImageCompare';
+
+interface AssetReviewProps {
+  item: QueueItem;
+  isProcessing: boolean;
+  formatSize: (bytes: number) => string;
+  loadPreview: (sessionId: string, assetId: string) => Promise<AssetPreview>;
+  onRerun: (item: QueueItem, overrides: Record<string, AssetOverride>) => void;
+}
+
+interface PreviewUrls {
+  before?: string;
+  after?: string;
+}
+
+const sameOverrides = (a: Record<string, AssetOverride>, b: Record<string, AssetOverride>) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/** Drops overrides that no longer change anything so the comparison with the applied set stays exact */
+const normalize = (overrides: Record<string, AssetOverride>) => {
+  const result: Record<string, AssetOverride> = {};
+  Object.keys(overrides).sort().forEach((id) => {
+    const { exclude, quality } = overrides[id];
+    if (exclude || quality !== undefined) result[id] = { ...(exclude && { exclude }), ...(quality !== undefined && { quality }) };
+  });
+  return result;
+};
+
+const clampQuality = (quality: number) => Math.min(100, Math.max(10, quality));
+
+/** Brings qualities typed out of range back to 10–100 once editing is over */
+const clampOverrides = (overrides: Record<string, AssetOverride>) => {
+  const result: Record<string, AssetOverride> = {};
+  Object.entries(overrides).forEach(([id, override]) => {
+    result[id] = override.quality === undefined ? override : { ...override, quality: clampQuality(override.quality) };
+  });
+  return result;
+};
+
+/**
+ * Thumbnails of every image of one document before and after optimization,
+ * with per-image exclusion and quality that are applied by re-running only
+ * the changed images
+ */
+const AssetReview: React.FC<AssetReviewProps> = ({ item, isProcessing, formatSize, loadPreview, onRerun }) => {
+  const result = item.result!;
+  const applied = normalize(result.options.overrides ?? {});
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Record<string, AssetOverride>>(applied);
+  const [previews, setPreviews] = useState<Record<string, PreviewUrls>>({});
+  const [comparing, setComparing] = useState<AssetReport | null>(null);
+
+  useEffect(() => setDraft(normalize(result.options.overrides ?? {})), [result]);
+
+  // Previews are fetched one at a time, and again after every re-run
+  useEffect(() => {
+    if (!open || !result.sessionId) return;
+    const sessionId = result.sessionId;
+    const urls: string[] = [];
+    let cancelled = false;
+    setPreviews({});
+
+    (async () => {
+      for (const asset of result.assets) {
+        if (cancelled) return;
+        try {
+          const preview = await loadPreview(sessionId, asset.id);
+          if (cancelled) return;
+          const entry: PreviewUrls = {
+            before: preview.before && URL.createObjectURL(preview.before),
+            after: preview.after && URL.createObjectURL(preview.after),
+          };
+          urls.push(...[entry.before, entry.after].filter((url): url is string => !!url));
+          setPreviews((prev) => ({ ...prev, [asset.id]: entry }));
+        } catch (err) {
+          console.error(err);
+          return;
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [open, result, loadPreview]);
+
+  const setOverride = (id: string, patch: AssetOverride) => {
+    setDraft((prev) => normalize({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const changed = !sameOverrides(draft, applied);
+  const comparingUrls = comparing ? previews[comparing.id] : undefined;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full p-4 flex items-center justify-between gap-4 text-left hover:bg-slate-50 transition-colors"
+      >
+        <span className="text-sm font-semibold text-slate-800 flex items-center gap-2 min-w-0">
+          <Images size={16} className="text-slate-400 shrink-0" />
+          <span className="truncate">이미지 비교 · 개별 설정: {item.relativePath}</span>
+        </span>
+        <span className="text-xs text-slate-400 shrink-0">{result.assets.length}개 이미지</span>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-100 p-4 flex flex-col gap-4">
+          {!result.sessionId && (
+            <p className="text-xs text-amber-700">이 결과는 다시 최적화할 수 없습니다. 파일을 다시 올려주세요.</p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {result.assets.map((asset) => {
+              const urls = previews[asset.id];
+              const override = draft[asset.id] ?? {};
+              return (
+                <div key={asset.id} className="border border-slate-200 rounded-xl p-3 flex flex-col gap-2">
+                  <button
+                    onClick={() => urls?.before && urls.after && setComparing(asset)}
+                    disabled={!urls?.before || !urls.after}
+                    className="grid grid-cols-2 gap-1 h-28 disabled:cursor-default"
+                    title={urls?.after ? '크게 비교하기' : undefined}
+                  >
+                    {[urls?.before, urls?.after].map((url, i) => (
+                      <div key={i} className="bg-slate-100 rounded-lg overflow-hidden flex items-center justify-center">
+                        {url
+                          ? <img src={url} alt={i === 0 ? '원본' : '압축 후'} className="max-w-full max-h-full object-contain" />
+                          : <span className="text-[10px] text-slate-400">{!urls ? '불러오는 중' : i === 0 ? '미리보기 없음' : '변경 없음'}</span>}
+                      </div>
+                    ))}
+                  </button>
+
+                  <div className="text-xs text-slate-700 truncate" title={asset.id}>{asset.id}</div>
+                  <div className="text-[10px] text-slate-400">
+                    {formatSize(asset.bytesBefore)} → {formatSize(asset.bytesAfter)}
+                    {asset.quality !== undefined && ` · 품질 ${asset.quality}`}
+                    {asset.ssim !== undefined && ` · SSIM ${asset.ssim.toFixed(3)}`}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-1 text-xs text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={override.exclude ?? false}
+                        onChange={(e) => setOverride(asset.id, { exclude: e.target.checked || undefined })}
+                        disabled={isProcessing}
+                      />
+                      원본 유지
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                      품질
+                      <input
+                        type="number"
+                        min="10"
+                        max="100"
+                        placeholder={String(result.options.quality)}
+                        value={override.quality ?? ''}
+                        onChange={(e) => {
+                          const quality = parseInt(e.target.value);
+                          setOverride(asset.id, { quality: Number.isNaN(quality) ? undefined : quality });
+                        }}
+                        onBlur={() => override.quality !== undefined && setOverride(asset.id, { quality: clampQuality(override.quality) })}
+                        disabled={isProcessing || override.exclude}
+                        className="w-14 bg-white border border-slate-200 rounded-md px-1.5 py-0.5 text-slate-700 disabled:opacity-50"
+                      />
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {result.sessionId && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => onRerun(item, clampOverrides(draft))}
+                disabled={!changed || isProcessing}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-bold hover:bg-blue-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <RefreshCw size={16} /> 변경한 이미지만 다시 최적화
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {comparing && comparingUrls?.before && comparingUrls.after && (
+        <ImageCompare
+          title={comparing.id}
+          beforeUrl={comparingUrls.before}
+          afterUrl={comparingUrls.after}
+          onClose={() => setComparing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AssetReview;
@@ -0,0 +1,223 @@
+
+import React from 'react';
+import { CheckCircle2, Download, FileText, Film, Loader2, X, XCircle } from 'lucide-react';
+import { MediaStatus, PdfCleanupPass, QueueItem, VerificationStatus } from '../types';
+
+interface FileQueueProps {
+  items: QueueItem[];
+  isProcessing: boolean;
+  formatSize: (bytes: number) => string;
+  onRemove: (id: string) => void;
+  onDownload: (item: QueueItem) => void;
+  onDownloadMedia: (item: QueueItem) => void;
+}
+
+const MEDIA_STATUS_LABELS: Record<MediaStatus, string> = {
+  kept: '그대로 둠',
+  compressed: '압축함',
+  removed: '삭제함',
+  extracted: '따로 저장함',
+  error: '오류로 그대로 둠',
+};
+
+const CLEANUP_PASS_LABELS: Record<PdfCleanupPass, string> = {
+  unusedObjects: '쓰이지 않는 개체',
+  thumbnails: '페이지 미리보기 그림',
+  privateData: '편집 프로그램 전용 데이터',
+  metadata: '메타데이터(XMP)',
+  dedupe: '중복 데이터',
+  recompress: '압축 안 된 데이터',
+};
+
+const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  passed: '결과 파일 검증 통과',
+  assetsRestored: '검증에 실패한 이미지는 원본으로 되돌림',
+  originalKept: '결과 파일 검증에 실패해 원본 파일을 그대로 둠',
+  scrubbedOriginal: '결과 파일 검증에 실패해 개인정보만 지운 원본을 사용함',
+};
+
+/** `m:ss` for a duration in seconds */
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+const FileQueue: React.FC<FileQueueProps> = ({ items, isProcessing, formatSize, onRemove, onDownload, onDownloadMedia }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100 overflow-hidden">
+      {items.map((item) => (
+        <div key={item.id} className="p-4 flex items-center gap-4">
+          <div className="shrink-0">
+            {item.status === 'done' && <CheckCircle2 className="text-green-500" size={20} />}
+            {item.status === 'error' && <XCircle className="text-red-500" size={20} />}
+            {item.status === 'processing' && <Loader2 className="text-blue-600 animate-spin" size={20} />}
+            {item.status === 'pending' && <FileText className="text-slate-400" size={20} />}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-sm font-medium text-slate-800 truncate" title={item.relativePath}>
+                {item.relativePath}
+              </span>
+              <span className="text-xs text-slate-400 shrink-0">
+                {item.result
+                  ? `${formatSize(item.result.originalSize)} → ${formatSize(item.result.compressedSize)} (-${item.result.reductionPercentage.toFixed(1)}%)`
+                  : formatSize(item.file.size)}
+              </span>
+            </div>
+
+            {item.status === 'processing' && (
+              <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden mt-2">
+                <div
+                  className="bg-blue-600 h-full transition-all duration-300 ease-out"
+                  style={{ width: `${item.progress}%` }}
+                ></div>
+              </div>
+            )}
+            {item.result?.targetSearch && (
+              <p className={`text-xs mt-1 ${item.result.targetSearch.reached ? 'text-green-600' : 'text-red-600'}`}>
+                {item.result.targetSearch.message}
+              </p>
+            )}
+            {item.result?.verification && (item.result.verification.issues.length === 0 ? (
+              <p className="text-xs text-green-600 mt-1">{VERIFICATION_LABELS[item.result.verification.status]}</p>
+            ) : (
+              <details className="text-xs text-amber-600 mt-1">
+                <summary className="cursor-pointer">{VERIFICATION_LABELS[item.result.verification.status]}</summary>
+                <ul className="mt-1 pl-4 list-disc">
+                  {item.result.verification.issues.map((issue, index) => (
+                    <li key={index} className="truncate" title={issue}>{issue}</li>
+                  ))}
+                </ul>
+              </details>
+            ))}
+            {item.result?.privacy && (item.result.privacy.length === 0 ? (
+              <p className="text-xs text-slate-500 mt-1">지울 개인정보가 없습니다</p>
+            ) : (
+              <details className="text-xs text-slate-500 mt-1">
+                <summary className="cursor-pointer">개인정보 {item.result.privacy.length}건 지움</summary>
+                <ul className="mt-1 pl-4 list-disc">
+                  {item.result.privacy.map((entry, index) => (
+                    <li key={index} className="truncate" title={entry.location}>
+                      {entry.location.split('/').pop()} · {entry.field}{entry.value && `: ${entry.value}`}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ))}
+            {item.result?.options.privacyScrub && !item.result.privacy && (
+              <p className="text-xs text-red-600 mt-1">원본 파일을 그대로 두어 개인정보가 지워지지 않았습니다</p>
+            )}
+            {item.result?.mediaCleanup && item.result.mediaCleanup.entries.length > 0 && (
+              <details className="text-xs text-slate-500 mt-1">
+                <summary className="cursor-pointer">
+                  미사용·중복 미디어 {item.result.mediaCleanup.entries.length}개
+                  ({formatSize(item.result.mediaCleanup.entries.reduce((sum, entry) => sum + entry.bytes, 0))})
+                  {item.result.mediaCleanup.applied ? ' 삭제함' : ' 삭제 예정'}
+                </summary>
+                <ul className="mt-1 pl-4 list-disc">
+                  {item.result.mediaCleanup.entries.map((entry) => (
+                    <li key={entry.path} className="truncate" title={entry.path}>
+                      {entry.path} · {formatSize(entry.bytes)} · {entry.reason === 'unused' ? '사용 안 함' : `${entry.duplicateOf}와 같음`}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {item.result?.fonts && (
+              <details className="text-xs text-slate-500 mt-1">
+                <summary className="cursor-pointer">
+                  포함된 글꼴 {item.result.fonts.length}개
+                  ({formatSize(item.result.fonts.reduce((sum, font) => sum + font.bytesBefore, 0))}
+                  {' → '}
+                  {formatSize(item.result.fonts.reduce((sum, font) => sum + font.bytesAfter, 0))})
+                </summary>
+                <ul className="mt-1 pl-4 list-disc">
+                  {item.result.fonts.map((font) => (
+                    <li key={font.id} className="truncate" title={font.reason ?? font.id}>
+                      {font.name} · {formatSize(font.bytesBefore)}
+                      {font.status === 'subset' && ` → ${formatSize(font.bytesAfter)} (글자 ${font.glyphsAfter}/${font.glyphsBefore}개 남김)`}
+                      {font.status === 'removed' && ' · 삭제함'}
+                      {font.status === 'kept' && ' · 그대로 둠'}
+                      {font.status === 'error' && ' · 오류로 그대로 둠'}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {item.result?.media && (
+              <details className="text-xs text-slate-500 mt-1">
+                <summary className="cursor-pointer">
+                  동영상·소리 {item.result.media.length}개
+                  ({formatSize(item.result.media.reduce((sum, entry) => sum + entry.bytesBefore, 0))}
+                  {' → '}
+                  {formatSize(item.result.media.reduce((sum, entry) => sum + entry.bytesAfter, 0))})
+                </summary>
+                <ul className="mt-1 pl-4 list-disc">
+                  {item.result.media.map((entry) => (
+                    <li key={entry.id} className="truncate" title={entry.reason ?? entry.usedBy.join(', ')}>
+                      {entry.kind === 'video' ? '동영상' : '소리'} {entry.id.split('/').pop()}
+                      {entry.duration !== undefined && ` · ${formatDuration(entry.duration)}`}
+                      {' · '}{formatSize(entry.bytesBefore)}
+                      {entry.status === 'compressed' && ` → ${formatSize(entry.bytesAfter)}`}
+                      {' · '}{MEDIA_STATUS_LABELS[entry.status]}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {item.result?.pdfCleanup && item.result.pdfCleanup.some((entry) => entry.objects > 0) && (
+              <details className="text-xs text-slate-500 mt-1">
+                <summary className="cursor-pointer">
+                  PDF 구조 정리 약 {formatSize(item.result.pdfCleanup.reduce((sum, entry) => sum + entry.bytesSaved, 0))} 절약
+                </summary>
+                <ul className="mt-1 pl-4 list-disc">
+                  {item.result.pdfCleanup.filter((entry) => entry.objects > 0).map((entry) => (
+                    <li key={entry.pass}>
+                      {CLEANUP_PASS_LABELS[entry.pass]} · 개체 {entry.objects}개 · 약 {formatSize(entry.bytesSaved)}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {item.error && (
+              <p className="text-xs text-red-600 mt-1 whitespace-pre-line">{item.error}</p>
+            )}
+          </div>
+
+          <div className="shrink-0 flex items-center gap-1">
+            {item.status === 'done' && (
+              <button
+                onClick={() => onDownload(item)}
+                className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
+                title="다운로드"
+              >
+                <Download size={16} />
+              </button>
+            )}
+            {item.status === 'done' && item.result?.extractedMedia && (
+              <button
+                onClick={() => onDownloadMedia(item)}
+                className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
+                title="빼낸 동영상·소리 다운로드"
+              >
+                <Film size={16} />
+              </button>
+            )}
+            {!isProcessing && (
+              <button
+                onClick={() => onRemove(item.id)}
+                className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors"
+                title="목록에서 제거"
+              >
+                <X size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FileQueue;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+
+interface ImageCompareProps {
+  title: string;
+  beforeUrl: string;
+  afterUrl: string;
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = [1, 2, 4];
+
+/**
+ * Full-screen before/after view: the new encoding is laid over the original
+ * and revealed up to the slider position
+ */
+const ImageCompare: React.FC<ImageCompareProps> = ({ title, beforeUrl, afterUrl, onClose }) => {
+  const [position, setPosition] = useState(50);
+  const [zoom, setZoom] = useState(1);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between gap-4">
+          <span className="text-sm font-semibold text-slate-800 truncate" title={title}>{title}</span>
+          <div className="flex items-center gap-2 shrink-0">
+            {ZOOM_LEVELS.map((level) => (
+              <button
+                key={level}
+                onClick={() => setZoom(level)}
+                className={`px-2 py-1 rounded-md text-xs font-semibold transition-colors ${
+                  zoom === level ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {level}x
+              </button>
+            ))}
+            <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600" title="닫기">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto bg-slate-100">
+          <div className="relative mx-auto" style={{ width: `${zoom * 100}%` }}>
+            <img src={beforeUrl} alt="원본" className="block w-full h-auto select-none" draggable={false} />
+            <img
+              src={afterUrl}
+              alt="압축 후"
+              className="absolute inset-0 block w-full h-full select-none"
+              style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+              draggable={false}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}></div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center gap-4">
+          <span className="text-xs font-semibold text-slate-500 shrink-0">원본</span>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={position}
+            onChange={(e) => setPosition(parseInt(e.target.value))}
+            className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+          <span className="text-xs font-semibold text-blue-600 shrink-0">압축 후</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCompare;
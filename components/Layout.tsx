@@ -1,32 +1,100 @@
 
 import React from 'react';
-import { Settings, FileText, ShieldCheck, Zap, Ghost } from 'lucide-react';
+import {
+  EmbeddedMediaPolicy,
+  FormatOption,
+  MediaCleanupMode,
+  MetafilePolicy,
+  PdfCleanupOptions,
+  TransparencyPolicy
+} from '../types';
+import { DocumentFormat } from '../services/formatRegistry';
+import { Settings, FileText, ShieldCheck, Zap, Ghost, Maximize2, Target, Eye, Eraser, Shapes, Type, Film, Layers, UserX, Crop } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
   quality: number;
   setQuality: (val: number) => void;
-  skipPng: boolean;
-  setSkipPng: (val: boolean) => void;
-  activeTab: 'HWPX' | 'PDF' | 'PPTX_SHOW';
+  transparency: TransparencyPolicy;
+  setTransparency: (val: TransparencyPolicy) => void;
+  paletteQuality: number;
+  setPaletteQuality: (val: number) => void;
+  maxDpi: number;
+  setMaxDpi: (val: number) => void;
+  targetMode: boolean;
+  setTargetMode: (val: boolean) => void;
+  /** Kept as typed; the minimum is applied on blur and when a run starts */
+  targetSizeMB: string;
+  setTargetSizeMB: (val: string) => void;
+  ssimThreshold: number;
+  setSsimThreshold: (val: number) => void;
+  mediaCleanup: MediaCleanupMode;
+  setMediaCleanup: (val: MediaCleanupMode) => void;
+  metafiles: MetafilePolicy;
+  setMetafiles: (val: MetafilePolicy) => void;
+  removeEmbeddedFonts: boolean;
+  setRemoveEmbeddedFonts: (val: boolean) => void;
+  subsetFonts: boolean;
+  setSubsetFonts: (val: boolean) => void;
+  embeddedMedia: EmbeddedMediaPolicy;
+  setEmbeddedMedia: (val: EmbeddedMediaPolicy) => void;
+  pdfCleanup: PdfCleanupOptions;
+  setPdfCleanup: (val: PdfCleanupOptions) => void;
+  privacyScrub: boolean;
+  setPrivacyScrub: (val: boolean) => void;
+  trimCrops: boolean;
+  setTrimCrops: (val: boolean) => void;
+  /** Format of the selected tab; decides which settings are shown */
+  format: DocumentFormat;
 }
 
+/** Reads the typed target size, falling back to the smallest allowed one */
+export const clampTargetSizeMB = (value: string) => Math.max(0.1, parseFloat(value) || 0.1);
+
 const Layout: React.FC<LayoutProps> = ({ 
   children, 
   quality, 
   setQuality, 
-  skipPng, 
-  setSkipPng, 
-  activeTab 
+  transparency,
+  setTransparency,
+  paletteQuality,
+  setPaletteQuality,
+  maxDpi,
+  setMaxDpi,
+  targetMode,
+  setTargetMode,
+  targetSizeMB,
+  setTargetSizeMB,
+  ssimThreshold,
+  setSsimThreshold,
+  mediaCleanup,
+  setMediaCleanup,
+  metafiles,
+  setMetafiles,
+  removeEmbeddedFonts,
+  setRemoveEmbeddedFonts,
+  subsetFonts,
+  setSubsetFonts,
+  embeddedMedia,
+  setEmbeddedMedia,
+  pdfCleanup,
+  setPdfCleanup,
+  privacyScrub,
+  setPrivacyScrub,
+  trimCrops,
+  setTrimCrops,
+  format
 }) => {
-  const getHeaderText = () => {
-    switch(activeTab) {
-      case 'HWPX': return 'HWPX 용량 줄이기';
-      case 'PDF': return 'PDF 용량 줄이기';
-      case 'PPTX_SHOW': return 'PPTX / SHOW 용량 줄이기';
-      default: return '문서 용량 줄이기';
-    }
-  };
+  const cleanupPasses: { key: Exclude<keyof PdfCleanupOptions, 'metadata'>; label: string }[] = [
+    { key: 'unusedObjects', label: '쓰이지 않는 개체 삭제' },
+    { key: 'thumbnails', label: '페이지 미리보기 그림 삭제' },
+    { key: 'privateData', label: '편집 프로그램 전용 데이터 삭제' },
+    { key: 'dedupe', label: '똑같은 데이터 하나로 합치기' },
+    { key: 'recompress', label: '압축 안 된 데이터 압축' },
+  ];
+
+  const shows = (option: FormatOption) => format.options.includes(option);
+  const fontOption = shows('subsetFonts') ? 'subsetFonts' : shows('removeEmbeddedFonts') ? 'removeEmbeddedFonts' : undefined;
 
   return (
     <div className="flex flex-col md:flex-row min-h-screen bg-slate-50">
@@ -43,7 +111,7 @@ const Layout: React.FC<LayoutProps> = ({
           <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 mt-2">
             <div className="flex items-center justify-between mb-2">
               <label className="text-sm font-medium text-slate-700 flex items-center gap-2">
-                <Settings size={16} /> 압축률
+                <Settings size={16} /> 압축률{(targetMode || ssimThreshold > 0) && ' (최대)'}
               </label>
               <span className="text-sm font-bold text-blue-600">{quality}%</span>
             </div>
@@ -62,26 +130,287 @@ const Layout: React.FC<LayoutProps> = ({
             </div>
 
             <div className="pt-4 border-t border-slate-200">
+              <label className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+                <Ghost size={14} className="text-slate-400" />
+                투명 배경 이미지 (PNG/GIF)
+              </label>
+              <select
+                value={transparency}
+                onChange={(e) => setTransparency(e.target.value as TransparencyPolicy)}
+                className="w-full text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+              >
+                <option value="auto">자동 (권장)</option>
+                <option value="quantize">자동 + 색상 수 줄이기</option>
+                <option value="lossless">PNG 그대로, 무손실만</option>
+                <option value="skip">건드리지 않음</option>
+              </select>
+              {transparency === 'quantize' && (
+                <div className="mt-2">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-[10px] text-slate-500">색상 줄이기 품질</span>
+                    <span className="text-[10px] font-bold text-blue-600">{paletteQuality}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="10"
+                    max="100"
+                    value={paletteQuality}
+                    onChange={(e) => setPaletteQuality(parseInt(e.target.value))}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                  />
+                </div>
+              )}
+              <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                이미지마다 투명한 부분이 있는지 확인합니다. 투명한 부분이 없으면 JPEG로 바꾸고, 있으면 PNG로 유지해 검은 배경 현상을 막습니다.
+              </p>
+            </div>
+
+            <div className="pt-4 mt-4 border-t border-slate-200">
+              <label className="flex items-center gap-3 cursor-pointer group">
+                <div className="relative flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={targetMode}
+                    onChange={(e) => setTargetMode(e.target.checked)}
+                    className="peer sr-only"
+                  />
+                  <div className="w-10 h-5 bg-slate-300 rounded-full peer peer-checked:bg-blue-600 transition-colors"></div>
+                  <div className="absolute left-1 top-1 w-3 h-3 bg-white rounded-full peer-checked:left-6 transition-all"></div>
+                </div>
+                <span className="text-xs font-semibold text-slate-600 group-hover:text-slate-900 transition-colors flex items-center gap-1">
+                  <Target size={14} className="text-slate-400" />
+                  목표 용량 맞추기
+                </span>
+              </label>
+              {targetMode && (
+                <div className="flex items-center gap-2 mt-2">
+                  <input
+                    type="number"
+                    min="0.1"
+                    step="0.1"
+                    value={targetSizeMB}
+                    onChange={(e) => setTargetSizeMB(e.target.value)}
+                    onBlur={() => setTargetSizeMB(String(clampTargetSizeMB(targetSizeMB)))}
+                    className="w-full text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+                  />
+                  <span className="text-xs text-slate-500">MB</span>
+                </div>
+              )}
+              <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                파일이 목표 용량 이하가 될 때까지 품질과 큰 사진의 해상도를 자동으로 낮춥니다. 압축률 설정은 최대 품질로 사용됩니다.
+              </p>
+            </div>
+
+            <div className="pt-4 mt-4 border-t border-slate-200">
+              <label className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+                <Eye size={14} className="text-slate-400" />
+                화질 보장 (SSIM)
+              </label>
+              <select
+                value={ssimThreshold}
+                onChange={(e) => setSsimThreshold(parseFloat(e.target.value))}
+                className="w-full text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+              >
+                <option value={0}>사용 안 함</option>
+                <option value={0.98}>0.98 (엄격)</option>
+                <option value={0.95}>0.95 (권장)</option>
+                <option value={0.9}>0.90 (고압축)</option>
+              </select>
+              <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                사진마다 원본과 눈으로 구분되지 않는 가장 낮은 품질을 찾아 저장합니다. 압축률 설정은 최대 품질로 사용됩니다.
+              </p>
+            </div>
+
+            <div className="pt-4 mt-4 border-t border-slate-200">
               <label className="flex items-center gap-3 cursor-pointer group">
                 <div className="relative flex items-center">
                   <input
                     type="checkbox"
-                    checked={skipPng}
-                    onChange={(e) => setSkipPng(e.target.checked)}
+                    checked={privacyScrub}
+                    onChange={(e) => setPrivacyScrub(e.target.checked)}
                     className="peer sr-only"
                   />
                   <div className="w-10 h-5 bg-slate-300 rounded-full peer peer-checked:bg-blue-600 transition-colors"></div>
                   <div className="absolute left-1 top-1 w-3 h-3 bg-white rounded-full peer-checked:left-6 transition-all"></div>
                 </div>
                 <span className="text-xs font-semibold text-slate-600 group-hover:text-slate-900 transition-colors flex items-center gap-1">
-                  <Ghost size={14} className="text-slate-400" />
-                  PNG(배경제거) 변환 금지
+                  <UserX size={14} className="text-slate-400" />
+                  개인정보 지우기
                 </span>
               </label>
               <p className="text-[10px] text-slate-400 mt-2 leading-tight">
-                투명 배경 이미지를 원본 그대로 유지하여 검은 배경 현상을 방지합니다.
+                작성자, 마지막으로 수정한 사람, 회사 이름과 편집 기록, 사진의 촬영 정보(EXIF)와 GPS 위치를 지웁니다. 지운 항목은 결과 목록에서 확인할 수 있습니다.
               </p>
             </div>
+
+            {shows('maxDpi') && (
+              <div className="pt-4 mt-4 border-t border-slate-200">
+                <label className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+                  <Maximize2 size={14} className="text-slate-400" />
+                  해상도 줄이기 (표시 크기 기준)
+                </label>
+                <select
+                  value={maxDpi}
+                  onChange={(e) => setMaxDpi(parseInt(e.target.value))}
+                  className="w-full text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+                >
+                  <option value={0}>원본 해상도 유지</option>
+                  <option value={300}>300 DPI (인쇄용)</option>
+                  <option value={220}>220 DPI (권장)</option>
+                  <option value={150}>150 DPI (화면용)</option>
+                </select>
+                <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                  문서에 실제로 배치된 크기보다 큰 사진을 해당 해상도에 맞게 축소합니다.
+                </p>
+              </div>
+            )}
+
+            {shows('trimCrops') && (
+              <div className="pt-4 mt-4 border-t border-slate-200">
+                <label className="flex items-center gap-3 cursor-pointer group">
+                  <div className="relative flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={trimCrops}
+                      onChange={(e) => setTrimCrops(e.target.checked)}
+                      className="peer sr-only"
+                    />
+                    <div className="w-10 h-5 bg-slate-300 rounded-full peer peer-checked:bg-blue-600 transition-colors"></div>
+                    <div className="absolute left-1 top-1 w-3 h-3 bg-white rounded-full peer-checked:left-6 transition-all"></div>
+                  </div>
+                  <span className="text-xs font-semibold text-slate-600 group-hover:text-slate-900 transition-colors flex items-center gap-1">
+                    <Crop size={14} className="text-slate-400" />
+                    잘라낸 그림 부분 지우기
+                  </span>
+                </label>
+                <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                  문서에서 자르기로 가려진 그림 부분을 실제로 잘라내 저장합니다. 보이는 모습은 같지만, 나중에 자르기를 되돌려도 지운 부분은 돌아오지 않습니다.
+                </p>
+              </div>
+            )}
+
+            {shows('mediaCleanup') && (
+              <div className="pt-4 mt-4 border-t border-slate-200">
+                <label className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+                  <Eraser size={14} className="text-slate-400" />
+                  사용하지 않는 미디어 정리
+                </label>
+                <select
+                  value={mediaCleanup}
+                  onChange={(e) => setMediaCleanup(e.target.value as MediaCleanupMode)}
+                  className="w-full text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+                >
+                  <option value="off">사용 안 함</option>
+                  <option value="dryRun">목록만 보기 (삭제하지 않음)</option>
+                  <option value="remove">삭제 및 중복 합치기</option>
+                </select>
+                <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                  편집 중 지워진 그림처럼 어디에서도 쓰이지 않는 파일을 지우고, 똑같은 그림 파일은 하나로 합칩니다.
+                </p>
+              </div>
+            )}
+
+            {shows('metafiles') && (
+              <div className="pt-4 mt-4 border-t border-slate-200">
+                <label className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+                  <Shapes size={14} className="text-slate-400" />
+                  EMF/WMF 그림
+                </label>
+                <select
+                  value={metafiles}
+                  onChange={(e) => setMetafiles(e.target.value as MetafilePolicy)}
+                  className="w-full text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+                >
+                  <option value="keep">그대로 두기 (크기만 보고)</option>
+                  <option value="rasterize">비트맵만 담긴 그림은 PNG/JPEG로 변환</option>
+                </select>
+                <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                  한글 변환 문서에 많은 EMF/WMF 중 사진 한 장만 담긴 파일을 일반 그림으로 바꿉니다. 선이나 글자가 그려진 그림은 그대로 둡니다.
+                </p>
+              </div>
+            )}
+
+            {fontOption && (
+              <div className="pt-4 mt-4 border-t border-slate-200">
+                <label className="flex items-center gap-3 cursor-pointer group">
+                  <div className="relative flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={fontOption === 'subsetFonts' ? subsetFonts : removeEmbeddedFonts}
+                      onChange={(e) => (fontOption === 'subsetFonts' ? setSubsetFonts : setRemoveEmbeddedFonts)(e.target.checked)}
+                      className="peer sr-only"
+                    />
+                    <div className="w-10 h-5 bg-slate-300 rounded-full peer peer-checked:bg-blue-600 transition-colors"></div>
+                    <div className="absolute left-1 top-1 w-3 h-3 bg-white rounded-full peer-checked:left-6 transition-all"></div>
+                  </div>
+                  <span className="text-xs font-semibold text-slate-600 group-hover:text-slate-900 transition-colors flex items-center gap-1">
+                    <Type size={14} className="text-slate-400" />
+                    {fontOption === 'subsetFonts' ? '포함된 글꼴 줄이기' : '포함된 글꼴 삭제'}
+                  </span>
+                </label>
+                <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                  {fontOption === 'subsetFonts'
+                    ? '통째로 포함된 TrueType/OpenType 글꼴에서 문서에 쓰인 글자만 남깁니다. 한글 글꼴은 이것만으로 수 MB가 줄어듭니다.'
+                    : '발표 파일에 저장된 글꼴을 지웁니다. 해당 글꼴이 설치되지 않은 PC에서는 다른 글꼴로 보입니다.'}
+                </p>
+              </div>
+            )}
+
+            {shows('embeddedMedia') && (
+              <div className="pt-4 mt-4 border-t border-slate-200">
+                <label className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+                  <Film size={14} className="text-slate-400" />
+                  동영상·소리
+                </label>
+                <select
+                  value={embeddedMedia}
+                  onChange={(e) => setEmbeddedMedia(e.target.value as EmbeddedMediaPolicy)}
+                  className="w-full text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+                >
+                  <option value="keep">그대로 두기 (목록만 보기)</option>
+                  <option value="compressAudio">WAV 소리만 AAC로 압축</option>
+                  <option value="strip">삭제 (동영상은 첫 화면 그림으로)</option>
+                  <option value="extract">따로 내려받고 발표 파일에서 삭제</option>
+                </select>
+                <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                  동영상 자리에는 미리보기 그림이 남습니다. 소리 압축은 브라우저가 AAC 인코딩을 지원할 때만 동작합니다.
+                </p>
+              </div>
+            )}
+
+            {shows('pdfCleanup') && (
+              <div className="pt-4 mt-4 border-t border-slate-200">
+                <label className="text-xs font-semibold text-slate-600 flex items-center gap-1 mb-2">
+                  <Layers size={14} className="text-slate-400" />
+                  PDF 구조 정리
+                </label>
+                <div className="flex flex-col gap-1.5">
+                  {cleanupPasses.map(({ key, label }) => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={pdfCleanup[key]}
+                        onChange={(e) => setPdfCleanup({ ...pdfCleanup, [key]: e.target.checked })}
+                        className="accent-blue-600"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <select
+                  value={pdfCleanup.metadata}
+                  onChange={(e) => setPdfCleanup({ ...pdfCleanup, metadata: e.target.value as PdfCleanupOptions['metadata'] })}
+                  className="w-full mt-2 text-xs bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+                >
+                  <option value="keep">메타데이터(XMP) 그대로 두기</option>
+                  <option value="minimize">메타데이터(XMP) 최소화</option>
+                  <option value="strip">메타데이터(XMP) 모두 삭제</option>
+                </select>
+                <p className="text-[10px] text-slate-400 mt-2 leading-tight">
+                  여러 번 고쳐 저장한 PDF에 쌓인 옛 데이터와 보이지 않는 부가 정보를 지웁니다. 화면에 보이는 내용은 바뀌지 않습니다.
+                </p>
+              </div>
+            )}
           </div>
         </nav>
 
@@ -102,7 +431,7 @@ const Layout: React.FC<LayoutProps> = ({
           <div className="flex items-center gap-2 text-slate-600">
             <FileText size={18} />
             <span className="text-sm font-medium">
-              {getHeaderText()}
+              {format.label} 용량 줄이기
             </span>
           </div>
           <div className="flex items-center gap-4 text-xs text-slate-400">
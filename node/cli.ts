@@ -0,0 +1,230 @@
+/**
+ * hwpxdiet: optimizes documents, or whole folders of them, from the command line.
+ * Output mirrors the input folder structure; the originals are never touched.
+ */
+import { mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { availableParallelism } from 'node:os';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { mapWithConcurrency } from '../services/concurrency';
+import {
+  collectReportRows,
+  createQueueItem,
+  DEFAULT_OPTIONS,
+  extractedMediaName,
+  formatForName,
+  isAbortError,
+  MediaCleanupMode,
+  OptimizationOptions,
+  optimizeDocument,
+  readDocument,
+  ReportItem,
+  reportToCsv,
+  reportToJson,
+  TransparencyPolicy
+} from './index';
+
+/**
+ * Every document already encodes its images in parallel and is held fully in
+ * memory, so only a few run at once, as in the app's worker pool
+ */
+const MAX_PARALLEL_DOCUMENTS = 4;
+
+const USAGE = `사용법: hwpxdiet <파일 또는 폴더>... -o <출력 폴더> [옵션]
+
+  -o, --output <폴더>          결과를 저장할 폴더 (입력 폴더 구조를 그대로 유지)
+  -q, --quality <10-100>       이미지 품질 (기본 ${DEFAULT_OPTIONS.quality})
+      --max-dpi <dpi>          표시 크기 기준 최대 해상도, 0은 원본 유지 (기본 ${DEFAULT_OPTIONS.maxDpi})
+      --target-size <크기>     문서별 목표 용량, 예: 10MB, 500KB
+      --ssim <0-1>             화질 보호 기준 SSIM, 0은 사용 안 함 (기본 ${DEFAULT_OPTIONS.ssimThreshold})
+      --transparency <정책>    auto | quantize | lossless | skip (기본 ${DEFAULT_OPTIONS.transparency})
+      --media-cleanup <모드>   off | dryRun | remove (기본 ${DEFAULT_OPTIONS.mediaCleanup})
+      --scrub                  작성자·편집 기록과 사진의 EXIF/XMP/GPS 정보 지우기
+      --keep-crops             자르기로 가려진 그림 부분을 지우지 않고 그대로 두기
+      --report <파일>          보고서 저장, 확장자에 따라 .json 또는 .csv
+  -j, --jobs <개수>            동시에 처리할 문서 수 (기본: CPU 코어 수, 최대 ${MAX_PARALLEL_DOCUMENTS})
+  -h, --help                   이 도움말`;
+
+const TRANSPARENCY_POLICIES: TransparencyPolicy[] = ['auto', 'quantize', 'lossless', 'skip'];
+const MEDIA_CLEANUP_MODES: MediaCleanupMode[] = ['off', 'dryRun', 'remove'];
+const SIZE_UNITS: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+
+const fail = (message: string): never => {
+  console.error(`hwpxdiet: ${message}`);
+  process.exit(2);
+};
+
+const parseNumber = (name: string, text: string, min: number, max: number): number => {
+  const value = Number(text);
+  if (text.trim() === '' || !Number.isFinite(value) || value < min || value > max) {
+    fail(`--${name} 값은 ${min}~${max} 사이의 숫자여야 합니다: ${text}`);
+  }
+  return value;
+};
+
+const parseChoice = <T extends string>(name: string, text: string, choices: T[]): T =>
+  choices.includes(text as T) ? (text as T) : fail(`--${name} 값은 ${choices.join(', ')} 중 하나여야 합니다: ${text}`);
+
+/** `10MB`, `500kb`, `1.5G` or plain bytes */
+const parseSize = (text: string): number => {
+  const match = /^(\d+(?:\.\d+)?)\s*([KMG]?B?)$/i.exec(text.trim());
+  const unit = match && SIZE_UNITS[(match[2].toUpperCase().replace(/^([KMG])$/, '$1B')) || 'B'];
+  if (!match || !unit || Number(match[1]) <= 0) return fail(`--target-size 값을 읽을 수 없습니다: ${text}`);
+  return Math.round(Number(match[1]) * unit);
+};
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+interface Job {
+  path: string;
+  /** Where the result goes below the output folder */
+  relativePath: string;
+}
+
+/**
+ * Expands the arguments into documents. Folders are searched recursively for
+ * supported extensions, skipping the output folder when it lies inside one;
+ * files named explicitly are always taken, so unsupported ones get reported.
+ */
+const collectJobs = async (inputs: string[], output: string): Promise<Job[]> => {
+  const jobs: Job[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => fail(`파일이나 폴더를 찾을 수 없습니다: ${input}`));
+    if (!info.isDirectory()) {
+      jobs.push({ path: input, relativePath: basename(input) });
+      continue;
+    }
+    if (resolve(input) === output) fail(`출력 폴더는 입력 폴더와 달라야 합니다: ${input}`);
+    for (const entry of await readdir(input, { recursive: true, withFileTypes: true })) {
+      const path = join(entry.parentPath, entry.name);
+      if (!entry.isFile() || !formatForName(entry.name) || resolve(path).startsWith(output + sep)) continue;
+      jobs.push({ path, relativePath: relative(input, path) });
+    }
+  }
+  for (const job of jobs) {
+    if (resolve(job.path) === join(output, job.relativePath)) fail(`원본을 덮어쓰게 됩니다: ${job.path}`);
+  }
+  return jobs.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+};
+
+const save = async (path: string, blob: Blob) => {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, new Uint8Array(await blob.arrayBuffer()));
+};
+
+/**
+ * Optimizes one document and writes its result. Only what the report needs is
+ * kept, so a large archive does not pile up output bytes in memory.
+ */
+const processJob = async (
+  job: Job,
+  output: string,
+  options: OptimizationOptions,
+  signal: AbortSignal
+): Promise<ReportItem> => {
+  const item = createQueueItem(await readDocument(job.path), job.relativePath);
+  if (item.error) return { relativePath: job.relativePath, result: null, error: item.error };
+  try {
+    const { blob, extractedMedia, ...result } = await optimizeDocument(item.file, options, undefined, signal);
+    await save(join(output, job.relativePath), blob);
+    if (extractedMedia) await save(join(output, extractedMediaName(job.relativePath)), extractedMedia);
+    return { relativePath: job.relativePath, result, error: null };
+  } catch (err: any) {
+    if (isAbortError(err)) throw err;
+    return { relativePath: job.relativePath, result: null, error: err?.message || String(err) };
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      quality: { type: 'string', short: 'q' },
+      'max-dpi': { type: 'string' },
+      'target-size': { type: 'string' },
+      ssim: { type: 'string' },
+      transparency: { type: 'string' },
+      'media-cleanup': { type: 'string' },
+      scrub: { type: 'boolean' },
+      'keep-crops': { type: 'boolean' },
+      report: { type: 'string' },
+      jobs: { type: 'string', short: 'j' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+  if (!values.output) fail('결과를 저장할 폴더를 -o 로 지정해주세요.');
+
+  const options: OptimizationOptions = {
+    ...DEFAULT_OPTIONS,
+    quality: values.quality ? Math.round(parseNumber('quality', values.quality, 10, 100)) : DEFAULT_OPTIONS.quality,
+    maxDpi: values['max-dpi'] ? parseNumber('max-dpi', values['max-dpi'], 0, 2400) : DEFAULT_OPTIONS.maxDpi,
+    targetBytes: values['target-size'] ? parseSize(values['target-size']) : 0,
+    ssimThreshold: values.ssim ? parseNumber('ssim', values.ssim, 0, 1) : DEFAULT_OPTIONS.ssimThreshold,
+    transparency: values.transparency
+      ? parseChoice('transparency', values.transparency, TRANSPARENCY_POLICIES)
+      : DEFAULT_OPTIONS.transparency,
+    mediaCleanup: values['media-cleanup']
+      ? parseChoice('media-cleanup', values['media-cleanup'], MEDIA_CLEANUP_MODES)
+      : DEFAULT_OPTIONS.mediaCleanup,
+    privacyScrub: values.scrub ?? DEFAULT_OPTIONS.privacyScrub,
+    trimCrops: values['keep-crops'] ? false : DEFAULT_OPTIONS.trimCrops,
+  };
+  const jobsLimit = values.jobs
+    ? Math.round(parseNumber('jobs', values.jobs, 1, 64))
+    : Math.min(availableParallelism(), MAX_PARALLEL_DOCUMENTS);
+
+  const output = resolve(values.output!);
+  const jobs = await collectJobs(positionals, output);
+  if (jobs.length === 0) fail('처리할 문서가 없습니다.');
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let finished = 0;
+  const items = await mapWithConcurrency(jobs, jobsLimit, async (job) => {
+    const item = await processJob(job, output, options, controller.signal);
+    finished++;
+    const prefix = `[${finished}/${jobs.length}] ${item.relativePath}`;
+    if (item.result) {
+      const { originalSize, compressedSize, reductionPercentage, targetSearch, verification, privacy } = item.result;
+      const notes = [
+        targetSearch && !targetSearch.reached ? targetSearch.message : '',
+        privacy ? `개인정보 ${privacy.length}건 지움` : '',
+        verification?.status === 'assetsRestored' ? '검증에 실패한 이미지는 원본으로 되돌림' : '',
+        verification?.status === 'originalKept' ? '결과 파일 검증에 실패해 원본 파일을 그대로 둠' : '',
+        verification?.status === 'scrubbedOriginal' ? '결과 파일 검증에 실패해 개인정보만 지운 원본을 저장함' : '',
+        options.privacyScrub && !privacy ? '경고: 원본 파일을 그대로 두어 개인정보가 지워지지 않음' : '',
+      ];
+      const note = notes.filter(Boolean).map((text) => ` - ${text}`).join('');
+      console.log(`${prefix}: ${formatMB(originalSize)} → ${formatMB(compressedSize)} (-${reductionPercentage.toFixed(1)}%)${note}`);
+    } else {
+      console.error(`${prefix}: 오류 - ${item.error}`);
+    }
+    return item;
+  }, controller.signal);
+
+  if (values.report) {
+    const report = /\.csv$/i.test(values.report) ? reportToCsv(collectReportRows(items)) : reportToJson(items);
+    await save(values.report, report);
+  }
+
+  const done = items.filter((item) => item.result);
+  const before = done.reduce((sum, item) => sum + item.result!.originalSize, 0);
+  const after = done.reduce((sum, item) => sum + item.result!.compressedSize, 0);
+  console.log(`완료 ${done.length}개, 오류 ${items.length - done.length}개: ${formatMB(before)} → ${formatMB(after)}`);
+  if (done.length < items.length) process.exitCode = 1;
+};
+
+main().catch((err) => {
+  if (isAbortError(err)) {
+    console.error('hwpxdiet: 중단되었습니다.');
+    process.exit(130);
+  }
+  console.error(`hwpxdiet: ${err?.message || err}`);
+  process.exit(1);
+});
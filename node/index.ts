@@ -0,0 +1,33 @@
+/**
+ * Headless entry point: the same optimizer the app runs, for Node scripts.
+ * Importing it installs the sharp image codec in place of the canvas one.
+ */
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { setImageCodec } from '../services/imageCodec';
+import { sharpCodec } from './sharpCodec';
+
+setImageCodec(sharpCodec);
+
+export * from '../types';
+export type { CompressedImage, CompressOptions, ImageCodec, RgbaImage } from '../services/imageCodec';
+export { setImageCodec } from '../services/imageCodec';
+export { sharpCodec } from './sharpCodec';
+export type { DocumentFormat } from '../services/formatRegistry';
+export { DOCUMENT_FORMATS, formatForName, identifyFile } from '../services/formatRegistry';
+export {
+  createQueueItem,
+  DEFAULT_OPTIONS,
+  extractedMediaName,
+  optimizeDocument,
+  SUPPORTED_EXTENSIONS,
+  validateFile
+} from '../services/batchService';
+export type { ReportItem, ReportRow } from '../services/reportService';
+export { collectReportRows, reportToCsv, reportToJson } from '../services/reportService';
+export { isAbortError } from '../services/abort';
+
+/**
+ * Reads a document from disk as the `File` the optimizer takes
+ */
+export const readDocument = async (path: string): Promise<File> => new File([await readFile(path)], basename(path));
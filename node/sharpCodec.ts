@@ -0,0 +1,79 @@
+/**
+ * `ImageCodec` backed by libvips through sharp, for running the optimizer in Node
+ */
+import sharp, { Sharp } from 'sharp';
+import { CompressedImage, CompressOptions, ImageCodec, RgbaImage, scaledSize } from '../services/imageCodec';
+
+/** Browsers draw damaged JPEGs as far as they decode and honor EXIF orientation; match both */
+const INPUT_OPTIONS = { failOn: 'none', autoOrient: true } as const;
+
+/** Output settings per MIME type; anything else becomes PNG, as a canvas does */
+const ENCODERS: Record<string, (image: Sharp, quality: number) => Sharp> = {
+  'image/jpeg': (image, quality) => image.flatten({ background: '#ffffff' }).jpeg({ quality }),
+  'image/webp': (image, quality) => image.webp({ quality }),
+  'image/png': (image) => image.png({ compressionLevel: 9 }),
+};
+
+const fromBlob = async (blob: Blob) => sharp(new Uint8Array(await blob.arrayBuffer()), INPUT_OPTIONS);
+
+const fromPixels = ({ width, height, data }: RgbaImage) =>
+  sharp(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+
+/** Stretches to exactly `width` × `height`, as `drawImage` into a canvas of that size does */
+const resizeTo = (image: Sharp, width: number, height: number) =>
+  image.resize(width, height, { fit: 'fill', kernel: 'lanczos3' });
+
+const encode = async (
+  image: Sharp,
+  width: number,
+  height: number,
+  quality: number,
+  targetMime: string,
+  limits: CompressOptions
+): Promise<CompressedImage> => {
+  const size = scaledSize(width, height, limits);
+  const mime = ENCODERS[targetMime] ? targetMime : 'image/png';
+  const scaled = size.width === width && size.height === height ? image : resizeTo(image, size.width, size.height);
+  const data = await ENCODERS[mime](scaled, Math.round(quality)).toBuffer();
+  return {
+    blob: new Blob([new Uint8Array(data)], { type: mime }),
+    mime,
+    width: size.width,
+    height: size.height,
+    originalWidth: width,
+    originalHeight: height,
+  };
+};
+
+/** 8-bit sRGB with alpha, whatever the source's channels, bit depth or color space */
+const toPixels = async (image: Sharp): Promise<RgbaImage> => {
+  const { data, info } = await image.toColourspace('srgb').ensureAlpha().raw({ depth: 'uchar' })
+    .toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+};
+
+export const sharpCodec: ImageCodec = {
+  compressImage: async (blob, quality, { targetMime, ...limits } = {}) => {
+    const isTransparentFormat = blob.type.includes('png') || blob.type.includes('gif');
+    let image: Sharp;
+    let size: { width: number; height: number };
+    try {
+      image = await fromBlob(blob);
+      size = (await image.metadata()).autoOrient;
+    } catch {
+      throw new Error('Failed to load image for compression');
+    }
+    return encode(image, size.width, size.height, quality, targetMime ?? (isTransparentFormat ? 'image/webp' : 'image/jpeg'), limits);
+  },
+
+  encodePixels: (image, quality, { targetMime = 'image/jpeg', ...limits } = {}) =>
+    encode(fromPixels(image), image.width, image.height, quality, targetMime, limits),
+
+  decodeToPixels: async (blob, size) => {
+    const image = await fromBlob(blob);
+    return toPixels(size ? resizeTo(image, size.width, size.height) : image);
+  },
+
+  resizePixels: async (image, width, height) =>
+    image.width === width && image.height === height ? image : toPixels(resizeTo(fromPixels(image), width, height)),
+};
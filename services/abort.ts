@@ -0,0 +1,29 @@
+/**
+ * True for the rejection produced by an aborted `AbortSignal`
+ */
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+/** Work `abortable` stopped waiting for that is still running */
+const abandoned = new Set<Promise<unknown>>();
+
+/** Settles once all work abandoned by `abortable` so far has ended */
+export const abandonedWork = (): Promise<unknown> => Promise.allSettled([...abandoned]);
+
+/**
+ * Settles with `promise`, or rejects as soon as `signal` aborts. For work that
+ * cannot be interrupted itself; the caller stops waiting and drops the result.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      abandoned.add(promise);
+      promise.catch(() => {}).finally(() => abandoned.delete(promise));
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
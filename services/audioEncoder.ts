@@ -0,0 +1,152 @@
+import { WavAudio } from './mediaProbe';
+
+/**
+ * AAC-LC encoding through WebCodecs, written as an M4A file PowerPoint
+ * 2010 and later plays. Browsers without an AAC encoder (Firefox, some
+ * Linux builds) report that instead of producing anything.
+ */
+
+const AAC_CODEC = 'mp4a.40.2';
+const AAC_FRAME = 1024;
+/** Frames handed to the encoder per AudioData */
+const BLOCK = 8192;
+
+/** Bits per second for speech and background music in a deck; stereo gets twice the mono rate */
+export const audioBitrate = (channels: number) => Math.min(channels, 2) * 64_000;
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/** AudioSpecificConfig for AAC-LC, so the file does not depend on what the encoder reports */
+const audioSpecificConfig = (sampleRate: number, channels: number) => {
+  const index = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  if (index < 0) throw new Error(`AAC does not support ${sampleRate} Hz audio`);
+  return Uint8Array.of((2 << 3) | (index >> 1), ((index & 1) << 7) | (channels << 3));
+};
+
+/** Whether this browser can encode the given audio as AAC */
+export const canEncodeAac = async (sampleRate: number, channels: number): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined' || !AAC_SAMPLE_RATES.includes(sampleRate) || channels > 2) return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: AAC_CODEC,
+      sampleRate,
+      numberOfChannels: channels,
+      bitrate: audioBitrate(channels),
+    });
+    return supported === true;
+  } catch {
+    return false;
+  }
+};
+
+const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const u16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+const fourcc = (type: string) => Array.from(type, (c) => c.charCodeAt(0));
+
+const box = (type: string, ...children: (number[] | Uint8Array)[]): number[] => {
+  const body = children.flatMap((child) => Array.from(child));
+  return [...u32(8 + body.length), ...fourcc(type), ...body];
+};
+const fullBox = (type: string, version: number, flags: number, ...children: (number[] | Uint8Array)[]) =>
+  box(type, [version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff], ...children);
+
+/** MPEG-4 descriptor with a single-byte length, enough for an AAC configuration */
+const descriptor = (tag: number, ...children: (number[] | Uint8Array)[]) => {
+  const body = children.flatMap((child) => Array.from(child));
+  return [tag, body.length, ...body];
+};
+
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].flatMap(u32);
+
+/** One-track M4A with every AAC frame in a single chunk right after the `moov` box */
+const muxM4a = (frames: Uint8Array[], sampleRate: number, channels: number, bitrate: number) => {
+  const duration = frames.length * AAC_FRAME;
+  const maxFrame = frames.reduce((max, frame) => Math.max(max, frame.length), 0);
+  const esds = fullBox('esds', 0, 0, descriptor(0x03, u16(1), [0],
+    descriptor(0x04, [0x40, 0x15, 0, (maxFrame >> 8) & 0xff, maxFrame & 0xff], u32(bitrate), u32(bitrate),
+      descriptor(0x05, audioSpecificConfig(sampleRate, channels))),
+    descriptor(0x06, [0x02])));
+  const mp4a = box('mp4a', [0, 0, 0, 0, 0, 0], u16(1), [0, 0, 0, 0, 0, 0, 0, 0], u16(channels), u16(16), u16(0), u16(0),
+    u32(sampleRate * 65536), esds);
+
+  const moov = (chunkOffset: number) => box('moov',
+    fullBox('mvhd', 0, 0, u32(0), u32(0), u32(sampleRate), u32(duration), u32(0x00010000), u16(0x0100),
+      new Array(10).fill(0), IDENTITY_MATRIX, new Array(24).fill(0), u32(2)),
+    box('trak',
+      fullBox('tkhd', 0, 3, u32(0), u32(0), u32(1), u32(0), u32(duration), new Array(8).fill(0), u16(0), u16(0),
+        u16(0x0100), u16(0), IDENTITY_MATRIX, u32(0), u32(0)),
+      box('mdia',
+        fullBox('mdhd', 0, 0, u32(0), u32(0), u32(sampleRate), u32(duration), u16(0x55c4), u16(0)),
+        fullBox('hdlr', 0, 0, u32(0), fourcc('soun'), new Array(12).fill(0), fourcc('SoundHandler'), [0]),
+        box('minf',
+          fullBox('smhd', 0, 0, u16(0), u16(0)),
+          box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+          box('stbl',
+            fullBox('stsd', 0, 0, u32(1), mp4a),
+            fullBox('stts', 0, 0, u32(1), u32(frames.length), u32(AAC_FRAME)),
+            fullBox('stsc', 0, 0, u32(1), u32(1), u32(frames.length), u32(1)),
+            fullBox('stsz', 0, 0, u32(0), u32(frames.length), frames.flatMap((frame) => u32(frame.length))),
+            fullBox('stco', 0, 0, u32(1), u32(chunkOffset)))))));
+
+  const ftyp = box('ftyp', fourcc('M4A '), u32(0), fourcc('M4A '), fourcc('mp42'), fourcc('isom'));
+  const moovSize = moov(0).length;
+  const dataSize = frames.reduce((sum, frame) => sum + frame.length, 0);
+  const out = new Uint8Array(ftyp.length + moovSize + 8 + dataSize);
+  out.set(ftyp);
+  out.set(moov(ftyp.length + moovSize + 8), ftyp.length);
+  let offset = ftyp.length + moovSize;
+  out.set([...u32(8 + dataSize), ...fourcc('mdat')], offset);
+  offset += 8;
+  for (const frame of frames) {
+    out.set(frame, offset);
+    offset += frame.length;
+  }
+  return out;
+};
+
+/**
+ * Encodes uncompressed audio as AAC-LC in an M4A container.
+ * Rejects when WebCodecs cannot encode it; call `canEncodeAac` first to tell the two apart.
+ */
+export const encodeAacM4a = async (audio: WavAudio, signal?: AbortSignal): Promise<Uint8Array> => {
+  const { sampleRate, channels } = audio;
+  const bitrate = audioBitrate(channels);
+  const frames: Uint8Array[] = [];
+  let failure: Error | undefined;
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const frame = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(frame);
+      frames.push(frame);
+    },
+    error: (e) => {
+      failure = e;
+    },
+  });
+  try {
+    encoder.configure({ codec: AAC_CODEC, sampleRate, numberOfChannels: channels, bitrate });
+    for (let start = 0; start < audio.frames && !failure; start += BLOCK) {
+      signal?.throwIfAborted();
+      const planes = audio.read(start, BLOCK);
+      const planar = new Float32Array(planes.length * planes[0].length);
+      planes.forEach((plane, channel) => planar.set(plane, channel * plane.length));
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfChannels: channels,
+        numberOfFrames: planes[0].length,
+        timestamp: Math.round((start / sampleRate) * 1e6),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+      // Keep the encoder queue short so long recordings do not pile up in memory
+      if (encoder.encodeQueueSize > 8) await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+  return muxM4a(frames, sampleRate, channels, bitrate);
+};
@@ -0,0 +1,264 @@
+import JSZip from 'jszip';
+import { AssetPreview, OptimizationOptions, OptimizationResult, QueueItem } from '../types';
+import { DocumentSession } from './optimizerService';
+import { DOCUMENT_FORMATS, formatForName, identifyFile, isCompoundFile } from './formatRegistry';
+import { getSession, registerSession } from './sessionStore';
+import { optimizeToTargetSize } from './targetSizeService';
+
+export const SUPPORTED_EXTENSIONS = DOCUMENT_FORMATS.flatMap((format) => format.extensions);
+
+/** Settings the app starts with and headless callers get unless they override them */
+export const DEFAULT_OPTIONS: OptimizationOptions = {
+  quality: 70,
+  transparency: 'auto',
+  paletteQuality: 80,
+  maxDpi: 220,
+  maxMegapixels: 0,
+  targetBytes: 0,
+  ssimThreshold: 0,
+  mediaCleanup: 'off',
+  metafiles: 'keep',
+  trimCrops: true,
+  removeEmbeddedFonts: false,
+  subsetFonts: true,
+  embeddedMedia: 'keep',
+  pdfCleanup: {
+    unusedObjects: true,
+    thumbnails: true,
+    privateData: true,
+    metadata: 'minimize',
+    dedupe: true,
+    recompress: true,
+  },
+  privacyScrub: false,
+};
+
+/**
+ * Messages for legacy binary formats we cannot open, keyed by extension
+ */
+const LEGACY_FORMAT_ERRORS: Record<string, string> = {
+  '.hwp': "HWP 파일은 지원하지 않습니다. 한글 프로그램에서 '다른 이름으로 저장'을 통해 .hwpx 형식으로 변환 후 다시 시도해주세요.",
+  '.ppt': "PPT 파일은 지원하지 않습니다. 파워포인트에서 '다른 이름으로 저장'을 통해 .pptx 형식으로 변환 후 다시 시도해주세요.",
+  '.doc': "DOC 파일은 지원하지 않습니다. 워드에서 '다른 이름으로 저장'을 통해 .docx 형식으로 변환 후 다시 시도해주세요.",
+  '.xls': "XLS 파일은 지원하지 않습니다. 엑셀에서 '다른 이름으로 저장'을 통해 .xlsx 형식으로 변환 후 다시 시도해주세요.",
+};
+
+/** An OLE container behind a modern extension is how Office stores password-protected and DRM-wrapped files */
+const PROTECTED_FILE_ERROR = '암호가 걸려 있거나 DRM(문서보안)이 적용된 파일은 최적화할 수 없습니다.';
+
+const extensionOf = (fileName: string) => {
+  const index = fileName.lastIndexOf('.');
+  return index === -1 ? '' : fileName.slice(index).toLowerCase();
+};
+
+/**
+ * Returns why a file cannot be queued, or null when it is supported
+ */
+export const validateFile = (fileName: string): string | null => {
+  const extension = extensionOf(fileName);
+  if (LEGACY_FORMAT_ERRORS[extension]) return LEGACY_FORMAT_ERRORS[extension];
+  if (!formatForName(fileName)) return `지원하지 않는 형식입니다: ${fileName}`;
+  return null;
+};
+
+/**
+ * Whether a file found inside a chosen folder is queued: only supported
+ * formats are, as in the CLI. Files chosen one by one are always queued, so
+ * unsupported ones get reported.
+ */
+export const acceptsFolderFile = (fileName: string): boolean => !!formatForName(fileName);
+
+let nextId = 0;
+
+export const createQueueItem = (file: File, relativePath: string): QueueItem => {
+  const error = validateFile(file.name);
+  return {
+    id: `${Date.now()}-${nextId++}`,
+    file,
+    relativePath,
+    status: error ? 'error' : 'pending',
+    progress: 0,
+    result: null,
+    error,
+  };
+};
+
+/**
+ * Opens a file with the optimizer for what it contains, whatever its
+ * extension says; a `.pptx` that is really a Word document is handled as one
+ */
+const openDocument = async (file: File, signal?: AbortSignal): Promise<DocumentSession> => {
+  const { format, probe } = await identifyFile(file, signal);
+  if (format) return format.open(file, probe, signal);
+  if (isCompoundFile(probe)) {
+    throw new Error(LEGACY_FORMAT_ERRORS[extensionOf(file.name)] ?? PROTECTED_FILE_ERROR);
+  }
+  throw new Error(`파일 내용이 지원하는 문서 형식이 아닙니다. 파일이 손상되었거나 확장자가 잘못되었을 수 있습니다: ${file.name}`);
+};
+
+const runSession = (
+  session: DocumentSession,
+  options: OptimizationOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizationResult> => {
+  if (options.targetBytes > 0) {
+    return optimizeToTargetSize(options, session.optimize, onProgress, signal);
+  }
+  return session.optimize(options, onProgress, signal);
+};
+
+/**
+ * Routes a file to the optimizer of its detected format,
+ * through the target size search when a size limit is set. The parsed
+ * document stays registered under the result's `sessionId`.
+ */
+export const optimizeFile = async (
+  file: File,
+  options: OptimizationOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizationResult> => {
+  const session = await openDocument(file, signal);
+  const result = await runSession(session, options, onProgress, signal);
+  return { ...result, sessionId: registerSession(session) };
+};
+
+/**
+ * Like `optimizeFile`, but the parsed document is dropped afterwards; for
+ * headless runs that never re-run or preview single assets
+ */
+export const optimizeDocument = async (
+  file: File,
+  options: OptimizationOptions,
+  onProgress: (progress: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<OptimizationResult> => runSession(await openDocument(file, signal), options, onProgress, signal);
+
+/**
+ * Optimizes an already parsed document again, typically with changed
+ * per-asset overrides; unchanged assets reuse their earlier encoding
+ */
+export const reoptimizeSession = async (
+  sessionId: string,
+  options: OptimizationOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizationResult> => {
+  const result = await runSession(getSession(sessionId), options, onProgress, signal);
+  return { ...result, sessionId };
+};
+
+export const previewAsset = (sessionId: string, assetId: string): Promise<AssetPreview> =>
+  getSession(sessionId).preview(assetId);
+
+const readAllEntries = async (dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = dir.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries hands out directory contents in batches until it returns an empty list
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry, out: { file: File; relativePath: string }[], inFolder = false) => {
+  if (entry.isFile) {
+    if (inFolder && !acceptsFolderFile(entry.name)) return;
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ file, relativePath: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, out, true);
+    }
+  }
+};
+
+/**
+ * Expands a drop into files, descending into dropped folders and keeping
+ * each file's path relative to the drop
+ */
+export const collectDroppedFiles = async (
+  dataTransfer: DataTransfer
+): Promise<{ file: File; relativePath: string }[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, relativePath: file.name }));
+  }
+
+  const files: { file: File; relativePath: string }[] = [];
+  for (const entry of entries) await walkEntry(entry, files);
+  return files;
+};
+
+/** Download name for the media extracted from a document: `deck.pptx` gives `deck_media.zip` */
+export const extractedMediaName = (path: string): string => `${path.replace(/\.[^./]+$/, '')}_media.zip`;
+
+/** `path`, or `name (2).ext` and so on when an earlier entry already took it; case is ignored as on Windows */
+const uniquePath = (path: string, taken: Set<string>): string => {
+  const dot = path.lastIndexOf('.') > path.lastIndexOf('/') ? path.lastIndexOf('.') : path.length;
+  let candidate = path;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${path.slice(0, dot)} (${n})${path.slice(dot)}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+export interface ResultPaths {
+  document: string;
+  media?: string;
+}
+
+/**
+ * Paths of the finished results inside the bundle, by queue item id. Results
+ * with the same path, such as the same file dropped twice, get numbered names
+ * instead of overwriting each other.
+ */
+export const resultPaths = (items: QueueItem[]): Map<string, ResultPaths> => {
+  const paths = new Map<string, ResultPaths>();
+  const taken = new Set<string>();
+  for (const item of items) {
+    if (item.status === 'done' && item.result) {
+      const document = uniquePath(item.relativePath, taken);
+      const media = item.result.extractedMedia ? uniquePath(extractedMediaName(document), taken) : undefined;
+      paths.set(item.id, { document, media });
+    }
+  }
+  return paths;
+};
+
+/**
+ * Bundles all finished results into one ZIP, keeping the original folder
+ * structure under the names {@link resultPaths} gives them
+ */
+export const bundleResults = async (items: QueueItem[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const paths = resultPaths(items);
+  for (const item of items) {
+    const path = paths.get(item.id);
+    if (!path || !item.result) continue;
+    // Documents are ZIP or PDF containers already; storing them avoids a pointless second deflate
+    zip.file(path.document, item.result.blob, { compression: 'STORE' });
+    if (path.media && item.result.extractedMedia) {
+      zip.file(path.media, item.result.extractedMedia, { compression: 'STORE' });
+    }
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Saves a blob through a temporary object URL that is released right after the click
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,172 @@
+/**
+ * Canvas-backed `ImageCodec`, the default in browsers.
+ * Uses `OffscreenCanvas` and `createImageBitmap` so it runs inside Web Workers,
+ * falling back to DOM canvases on browsers without OffscreenCanvas.
+ */
+import { CompressedImage, CompressOptions, ImageCodec, RgbaImage, scaledSize } from './imageCodec';
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context2d = (canvas: AnyCanvas) => {
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas context failed');
+  return ctx;
+};
+
+/**
+ * Drops a canvas's backing store right away instead of waiting for GC, which
+ * matters when many large images are in flight or a job was cancelled
+ */
+const releaseCanvas = (canvas: AnyCanvas) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
+const canvasToBlob = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  // HTMLCanvasElement does not exist inside workers, so test for the offscreen variant
+  if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => (canvas as HTMLCanvasElement).toBlob(
+    (blob) => (blob ? resolve(blob) : reject(new Error('Compression failed'))),
+    type,
+    quality
+  ));
+};
+
+/**
+ * Draws `source` onto a canvas at its `scaledSize` and encodes it as `targetMime`
+ */
+const encodeSource = async (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  quality: number,
+  targetMime: string,
+  limits: CompressOptions
+): Promise<CompressedImage> => {
+  const size = scaledSize(width, height, limits);
+  const canvas = createCanvas(size.width, size.height);
+  const { width: outWidth, height: outHeight } = canvas;
+  try {
+    const ctx = context2d(canvas);
+
+    if (targetMime === 'image/jpeg') {
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, outWidth, outHeight);
+    }
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, outWidth, outHeight);
+
+    const compressed = await canvasToBlob(canvas, targetMime, quality / 100);
+    return {
+      blob: compressed,
+      mime: compressed.type || targetMime,
+      width: outWidth,
+      height: outHeight,
+      originalWidth: width,
+      originalHeight: height,
+    };
+  } finally {
+    releaseCanvas(canvas);
+  }
+};
+
+/**
+ * Compresses an image blob using Canvas API while preserving transparency for PNG/GIF.
+ * When `maxSize` is given the image is scaled down (never up) so that it still
+ * covers that pixel box, keeping the aspect ratio; `maxPixels` caps its area.
+ */
+async function compressImage(
+  blob: Blob,
+  quality: number,
+  { targetMime: requestedMime, ...limits }: CompressOptions = {}
+): Promise<CompressedImage> {
+  const originalType = blob.type;
+  const isTransparentFormat = originalType.includes('png') || originalType.includes('gif');
+
+  const targetMime = requestedMime ?? (isTransparentFormat ? 'image/webp' : 'image/jpeg');
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new Error('Failed to load image for compression');
+  }
+  try {
+    return await encodeSource(bitmap, bitmap.width, bitmap.height, quality, targetMime, limits);
+  } finally {
+    bitmap.close();
+  }
+}
+
+const pixelsToCanvas = (image: RgbaImage): AnyCanvas => {
+  const canvas = createCanvas(image.width, image.height);
+  context2d(canvas).putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Encodes already-decoded pixels, with the same scaling rules as `compressImage`
+ */
+async function encodePixels(
+  image: RgbaImage,
+  quality: number,
+  { targetMime = 'image/jpeg', ...limits }: CompressOptions = {}
+): Promise<CompressedImage> {
+  const canvas = pixelsToCanvas(image);
+  try {
+    return await encodeSource(canvas, image.width, image.height, quality, targetMime, limits);
+  } finally {
+    releaseCanvas(canvas);
+  }
+}
+
+const drawToPixels = (source: CanvasImageSource, width: number, height: number): RgbaImage => {
+  const canvas = createCanvas(width, height);
+  try {
+    const ctx = context2d(canvas);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+    return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+  } finally {
+    releaseCanvas(canvas);
+  }
+};
+
+/**
+ * Lets the browser decode a compressed bitmap (JPEG, and JPEG 2000 where supported) into RGBA,
+ * optionally scaled to `size`
+ */
+async function decodeToPixels(blob: Blob, size?: { width: number; height: number }): Promise<RgbaImage> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return drawToPixels(bitmap, size?.width ?? bitmap.width, size?.height ?? bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Resamples decoded pixels to another size
+ */
+async function resizePixels(image: RgbaImage, width: number, height: number): Promise<RgbaImage> {
+  if (image.width === width && image.height === height) return image;
+  const canvas = pixelsToCanvas(image);
+  try {
+    return drawToPixels(canvas, width, height);
+  } finally {
+    releaseCanvas(canvas);
+  }
+}
+
+export const canvasCodec: ImageCodec = { compressImage, encodePixels, decodeToPixels, resizePixels };
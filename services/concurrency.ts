@@ -0,0 +1,79 @@
+/**
+ * Number of parallel jobs the machine can sustain
+ */
+export const defaultConcurrency = (): number =>
+  Math.max(1, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4);
+
+/**
+ * Like `Promise.all(items.map(fn))`, but with at most `limit` calls in flight.
+ * Results keep the order of `items`. Once `signal` aborts no further items are
+ * started and the call rejects with the abort reason.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  signal?.throwIfAborted();
+  return results;
+};
+
+/**
+ * Wraps `fn` so that at most `limit` calls run at once; further calls wait
+ * their turn in order. A call whose `signal` aborts while it waits rejects
+ * with the abort reason without starting.
+ */
+export const limitConcurrency = <A extends unknown[], R>(
+  limit: number,
+  fn: (...args: A) => Promise<R>,
+  signalOf: (...args: A) => AbortSignal | undefined
+): ((...args: A) => Promise<R>) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    if (active < limit) {
+      active++;
+      resolve();
+      return;
+    }
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      active++;
+      resolve();
+    };
+    const onAbort = () => {
+      waiting.splice(waiting.indexOf(start), 1);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting.push(start);
+  });
+
+  return async (...args) => {
+    await acquire(signalOf(...args));
+    try {
+      return await fn(...args);
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+};
@@ -0,0 +1,279 @@
+/**
+ * Trimming of cropped pictures. The pixels a crop hides are cut out of the
+ * image itself and the crop in the markup shrinks to the sub-pixel remainder,
+ * so the picture renders exactly as before. An image only qualifies when every
+ * reference to it is a picture cropped the same way.
+ */
+import JSZip from 'jszip';
+import {
+  CropFractions,
+  hwpxCrop,
+  IMAGE_PATH,
+  NO_CROP,
+  OOXML_PERCENT,
+  ooxmlCrop,
+  readHwpxManifest,
+  visibleShare
+} from './displaySize';
+import { RgbaImage } from './imageCodec';
+import { PackageFlavor, packageFlavor, patchTags, rewriteXml } from './packageRewriter';
+import {
+  dirName,
+  enclosing,
+  findElements,
+  getAttr,
+  relsSource,
+  resolvePartPath,
+  setAttr,
+  within,
+  XmlElement
+} from './xmlUtils';
+
+/** Region cut out of an image, in its pixels, and the crop left over inside it */
+export interface CropTrim {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  /** Crop still to apply to the trimmed image, from edges that fall inside a pixel */
+  residual: CropFractions;
+}
+
+const EDGES: (keyof CropFractions)[] = ['left', 'top', 'right', 'bottom'];
+const RELS_PART = /(^|\/)_rels\/[^/]*\.rels$/;
+const BINARY_ITEM_REF = /\s(?:[\w.-]+:)?binaryItemIDRef\s*=\s*"([^"]*)"/g;
+
+/** Namespaced attributes holding relationship id `id`, e.g. `r:embed="rId2"` */
+const relReferences = (xml: string, id: string) =>
+  [...xml.matchAll(new RegExp(`\\s[\\w]+:([\\w]+)\\s*=\\s*"${id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"`, 'g'))];
+
+const sameCrop = (a: CropFractions, b: CropFractions) => EDGES.every((edge) => Math.abs(a[edge] - b[edge]) < 1e-6);
+
+/** `null` once an image has a reference that cannot be trimmed or crops differently */
+type CropMap = Map<string, CropFractions | null>;
+
+const recordCrop = (map: CropMap, path: string, crop: CropFractions | null | undefined) => {
+  const current = map.get(path);
+  const visible = crop && visibleShare(crop);
+  const usable = crop && EDGES.every((edge) => crop[edge] >= 0) && visible!.x > 0 && visible!.y > 0;
+  if (!usable || current === null || (current && !sameCrop(current, crop))) map.set(path, null);
+  else map.set(path, crop);
+};
+
+/**
+ * A relationship's references in DrawingML: each must embed the image in a
+ * `blipFill` that stretches it over the frame. Tiled fills, bullets, linked
+ * pictures, VML and relationships nothing references rule the image out.
+ */
+const planOoxml = async (zip: JSZip, crops: CropMap) => {
+  const parts = new Map<string, { xml: string; fills: XmlElement[]; srcRects: XmlElement[]; stretches: XmlElement[] }>();
+  for (const relsPath of Object.keys(zip.files).filter((p) => RELS_PART.test(p))) {
+    const source = relsSource(relsPath);
+    const rels = findElements(await zip.files[relsPath].async('string'), 'Relationship');
+    for (const rel of rels) {
+      if (rel.attrs.TargetMode === 'External' || !rel.attrs.Id || !IMAGE_PATH.test(rel.attrs.Target ?? '')) continue;
+      const target = resolvePartPath(dirName(source), rel.attrs.Target);
+      if (!/\.xml$/i.test(source) || !zip.files[source]) {
+        recordCrop(crops, target, null);
+        continue;
+      }
+      if (!parts.has(source)) {
+        const xml = await zip.files[source].async('string');
+        parts.set(source, {
+          xml,
+          fills: findElements(xml, 'blipFill'),
+          srcRects: findElements(xml, 'srcRect'),
+          stretches: findElements(xml, 'stretch'),
+        });
+      }
+      const { xml, fills, srcRects, stretches } = parts.get(source)!;
+      const references = relReferences(xml, rel.attrs.Id);
+      if (references.length === 0) recordCrop(crops, target, null);
+      for (const reference of references) {
+        const fill = reference[1] === 'embed' ? enclosing(fills, reference.index ?? 0) : undefined;
+        const stretched = fill && within(stretches, fill).length > 0;
+        recordCrop(crops, target, stretched ? ooxmlCrop(within(srcRects, fill)[0]) : null);
+      }
+    }
+  }
+};
+
+/** Every `binaryItemIDRef` must be the picture of an `hp:pic`, not an image brush filling a shape */
+const planHwpx = async (zip: JSZip, crops: CropMap) => {
+  const manifest = await readHwpxManifest(zip);
+  for (const part of Object.keys(zip.files).filter((p) => /^Contents\/.+\.xml$/i.test(p))) {
+    const xml = await zip.files[part].async('string');
+    const pictures = findElements(xml, 'pic');
+    const brushes = findElements(xml, 'imgBrush');
+    const clips = findElements(xml, 'imgClip');
+    const dims = findElements(xml, 'imgDim');
+    for (const match of xml.matchAll(BINARY_ITEM_REF)) {
+      const path = manifest.get(match[1]);
+      if (!path) continue;
+      const pic = enclosing(pictures, match.index ?? 0);
+      const picture = pic && !enclosing(brushes, match.index ?? 0);
+      recordCrop(crops, path, picture ? hwpxCrop(within(clips, pic)[0], within(dims, pic)[0]) : null);
+    }
+  }
+};
+
+const PLANNERS: Record<PackageFlavor, (zip: JSZip, crops: CropMap) => Promise<void>> = {
+  ooxml: planOoxml,
+  // ODF clips pictures through styles that frames share; not trimmed
+  odf: async () => {},
+  hwpx: planHwpx,
+};
+
+/**
+ * The crop shared by all references to each image, for the images that are
+ * cropped and can be trimmed
+ */
+export const planCropTrims = async (zip: JSZip): Promise<Map<string, CropFractions>> => {
+  const crops: CropMap = new Map();
+  await PLANNERS[packageFlavor(zip)](zip, crops);
+  return new Map([...crops].filter((entry): entry is [string, CropFractions] =>
+    entry[1] !== null && !sameCrop(entry[1], NO_CROP)));
+};
+
+/**
+ * Pixel region to keep of a `width` × `height` image. Edges that fall inside a
+ * pixel keep that pixel, and the remainder stays in the markup as `residual`.
+ * Undefined when the crop does not remove a whole pixel.
+ */
+export const cropTrimFor = (crop: CropFractions, width: number, height: number): CropTrim | undefined => {
+  // Percentages of a pixel count rarely land exactly on an integer in floating point
+  const snap = (value: number) => Math.round(value * 1e6) / 1e6;
+  const left = snap(crop.left * width);
+  const right = snap(width * (1 - crop.right));
+  const top = snap(crop.top * height);
+  const bottom = snap(height * (1 - crop.bottom));
+  const x = Math.floor(left);
+  const y = Math.floor(top);
+  const trimmedWidth = Math.ceil(right) - x;
+  const trimmedHeight = Math.ceil(bottom) - y;
+  if (trimmedWidth <= 0 || trimmedHeight <= 0 || (trimmedWidth === width && trimmedHeight === height)) return undefined;
+  return {
+    x,
+    y,
+    width: trimmedWidth,
+    height: trimmedHeight,
+    sourceWidth: width,
+    sourceHeight: height,
+    residual: {
+      left: (left - x) / trimmedWidth,
+      top: (top - y) / trimmedHeight,
+      right: (Math.ceil(right) - right) / trimmedWidth,
+      bottom: (Math.ceil(bottom) - bottom) / trimmedHeight,
+    },
+  };
+};
+
+export const cropPixels = (image: RgbaImage, trim: CropTrim): RgbaImage => {
+  const data = new Uint8ClampedArray(trim.width * trim.height * 4);
+  for (let row = 0; row < trim.height; row++) {
+    const start = ((trim.y + row) * image.width + trim.x) * 4;
+    data.set(image.data.subarray(start, start + trim.width * 4), row * trim.width * 4);
+  }
+  return { width: trim.width, height: trim.height, data };
+};
+
+const OOXML_EDGES: Record<keyof CropFractions, string> = { left: 'l', top: 't', right: 'r', bottom: 'b' };
+
+/** `a:srcRect` holding only the residual crop; edges without one are left out */
+const srcRectTag = (srcRect: XmlElement, residual: CropFractions) => {
+  const attrs = EDGES
+    .map((edge) => [OOXML_EDGES[edge], Math.round(residual[edge] * OOXML_PERCENT)] as const)
+    .filter(([, value]) => value !== 0)
+    .map(([name, value]) => ` ${name}="${value}"`)
+    .join('');
+  return `<${srcRect.name}${attrs}${srcRect.openTag.endsWith('/>') ? '/>' : '>'}`;
+};
+
+const trimOoxml = async (zip: JSZip, trims: Map<string, CropTrim>) => {
+  for (const relsPath of Object.keys(zip.files).filter((p) => RELS_PART.test(p))) {
+    const source = relsSource(relsPath);
+    const ids = findElements(await zip.files[relsPath].async('string'), 'Relationship')
+      .filter((rel) => rel.attrs.Id && rel.attrs.Target && rel.attrs.TargetMode !== 'External')
+      .map((rel) => [rel.attrs.Id, trims.get(resolvePartPath(dirName(source), rel.attrs.Target))] as const)
+      .filter((entry): entry is readonly [string, CropTrim] => entry[1] !== undefined);
+    if (ids.length === 0 || !zip.files[source]) continue;
+
+    await rewriteXml(zip, source, (xml) => {
+      const fills = findElements(xml, 'blipFill');
+      const srcRects = findElements(xml, 'srcRect');
+      const patches = ids.flatMap(([id, trim]) => relReferences(xml, id).flatMap((reference) => {
+        const fill = enclosing(fills, reference.index ?? 0);
+        const srcRect = fill && within(srcRects, fill)[0];
+        return srcRect ? [{ start: srcRect.start, openTag: srcRect.openTag, newTag: srcRectTag(srcRect, trim.residual) }] : [];
+      }));
+      return patchTags(xml, patches);
+    });
+  }
+};
+
+/**
+ * Shrinks the image extent (`hp:imgDim`) and natural size (`hp:orgSz`) to the
+ * trimmed region and sets the clip (`hp:imgClip`) to the residual crop
+ */
+const trimHwpx = async (zip: JSZip, trims: Map<string, CropTrim>) => {
+  const manifest = await readHwpxManifest(zip);
+  const byId = new Map([...manifest].flatMap(([id, path]) => (trims.has(path) ? [[id, trims.get(path)!] as const] : [])));
+  if (byId.size === 0) return;
+
+  for (const part of Object.keys(zip.files).filter((p) => /^Contents\/.+\.xml$/i.test(p))) {
+    await rewriteXml(zip, part, (xml) => {
+      const pictures = findElements(xml, 'pic');
+      const [clips, dims, orgSizes] = ['imgClip', 'imgDim', 'orgSz'].map((name) => findElements(xml, name));
+      const patches: { start: number; openTag: string; newTag: string }[] = [];
+      const patched = new Set<XmlElement>();
+      for (const match of xml.matchAll(BINARY_ITEM_REF)) {
+        const trim = byId.get(match[1]);
+        const pic = trim && enclosing(pictures, match.index ?? 0);
+        const clip = pic && within(clips, pic)[0];
+        const dim = pic && within(dims, pic)[0];
+        if (!trim || !pic || !clip || !dim || patched.has(pic)) continue;
+        patched.add(pic);
+
+        const scaleX = trim.width / trim.sourceWidth;
+        const scaleY = trim.height / trim.sourceHeight;
+        const width = Math.round(Number(getAttr(dim.attrs, 'dimwidth')) * scaleX);
+        const height = Math.round(Number(getAttr(dim.attrs, 'dimheight')) * scaleY);
+        const edges = {
+          left: Math.round(trim.residual.left * width),
+          top: Math.round(trim.residual.top * height),
+          right: width - Math.round(trim.residual.right * width),
+          bottom: height - Math.round(trim.residual.bottom * height),
+        };
+        const newClip = Object.entries(edges).reduce((tag, [name, value]) => setAttr(tag, name, String(value)), clip.openTag);
+        const newDim = setAttr(setAttr(dim.openTag, 'dimwidth', String(width)), 'dimheight', String(height));
+        patches.push({ start: clip.start, openTag: clip.openTag, newTag: newClip });
+        patches.push({ start: dim.start, openTag: dim.openTag, newTag: newDim });
+
+        const orgSz = within(orgSizes, pic)[0];
+        if (orgSz) {
+          const orgWidth = Math.round(Number(getAttr(orgSz.attrs, 'width')) * scaleX);
+          const orgHeight = Math.round(Number(getAttr(orgSz.attrs, 'height')) * scaleY);
+          patches.push({ start: orgSz.start, openTag: orgSz.openTag, newTag: setAttr(setAttr(orgSz.openTag, 'width', String(orgWidth)), 'height', String(orgHeight)) });
+        }
+      }
+      return patchTags(xml, patches);
+    });
+  }
+};
+
+const TRIMMERS: Record<PackageFlavor, (zip: JSZip, trims: Map<string, CropTrim>) => Promise<void>> = {
+  ooxml: trimOoxml,
+  odf: async () => {},
+  hwpx: trimHwpx,
+};
+
+/**
+ * Rewrites the crop of every reference to the trimmed images, keyed by their
+ * path before replacement. Runs before the images are replaced, while
+ * relationships and the manifest still name the original paths.
+ */
+export const applyCropTrims = async (zip: JSZip, trims: Map<string, CropTrim>): Promise<void> => {
+  if (trims.size > 0) await TRIMMERS[packageFlavor(zip)](zip, trims);
+};
@@ -0,0 +1,284 @@
+import JSZip from 'jszip';
+import { odfReferences, packageFlavor } from './packageRewriter';
+import { dirName, enclosing, findElements, getAttr, resolvePartPath, within, XmlElement } from './xmlUtils';
+
+/** HWPUNIT: 1/7200 inch */
+const HWPUNIT_PER_INCH = 7200;
+/** English Metric Unit used by OOXML: 1/914400 inch */
+const EMU_PER_INCH = 914400;
+/** OOXML percentages are expressed in 1/1000 of a percent */
+export const OOXML_PERCENT = 100000;
+/** ODF lengths carry their unit, e.g. `12.5cm` */
+const ODF_UNITS_PER_INCH: Record<string, number> = { in: 1, cm: 2.54, mm: 25.4, pt: 72, pc: 6, px: 96 };
+
+export interface DisplayBox {
+  widthInches: number;
+  heightInches: number;
+}
+
+/**
+ * Largest rendered size of each media entry, keyed by zip path.
+ * `null` means at least one reference has no measurable size (page backgrounds,
+ * fills, legacy VML...), so the asset must keep its full resolution.
+ */
+export type DisplaySizeMap = Map<string, DisplayBox | null>;
+
+export const IMAGE_PATH = /\.(jpe?g|png|gif|bmp|tiff?|emf|wmf)$/i;
+
+/** Share of an image cut away at each edge, 0 to 1 */
+export interface CropFractions {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const NO_CROP: CropFractions = { left: 0, top: 0, right: 0, bottom: 0 };
+
+/** Crop of a DrawingML `a:srcRect`; negative values pad the picture with blank space instead */
+export const ooxmlCrop = (srcRect: XmlElement | undefined): CropFractions => ({
+  left: Number(srcRect?.attrs.l ?? 0) / OOXML_PERCENT,
+  top: Number(srcRect?.attrs.t ?? 0) / OOXML_PERCENT,
+  right: Number(srcRect?.attrs.r ?? 0) / OOXML_PERCENT,
+  bottom: Number(srcRect?.attrs.b ?? 0) / OOXML_PERCENT,
+});
+
+/**
+ * Crop of an HWPX picture: `hp:imgClip` is the visible rectangle in the
+ * coordinates of `hp:imgDim`, the extent of the whole image. Undefined when
+ * the clip cannot be related to the image.
+ */
+export const hwpxCrop = (clip: XmlElement | undefined, dim: XmlElement | undefined): CropFractions | undefined => {
+  const edge = (el: XmlElement | undefined, name: string) => Number(el && getAttr(el.attrs, name));
+  const [left, top, right, bottom] = ['left', 'top', 'right', 'bottom'].map((name) => edge(clip, name));
+  // No clip, or one with an empty rectangle, shows the whole image
+  if (!clip || !(right > left && bottom > top)) return NO_CROP;
+  const width = edge(dim, 'dimwidth');
+  const height = edge(dim, 'dimheight');
+  if (!(width > 0 && height > 0) || left < 0 || top < 0) return undefined;
+  return { left: left / width, top: top / height, right: 1 - right / width, bottom: 1 - bottom / height };
+};
+
+/** Share of the image width and height a crop leaves visible */
+export const visibleShare = (crop: CropFractions) => ({
+  x: 1 - crop.left - crop.right,
+  y: 1 - crop.top - crop.bottom,
+});
+
+const record = (map: DisplaySizeMap, path: string, box: DisplayBox | null) => {
+  if (!map.has(path)) {
+    map.set(path, box);
+    return;
+  }
+  const current = map.get(path);
+  if (current === null || box === null) {
+    map.set(path, null);
+    return;
+  }
+  map.set(path, {
+    widthInches: Math.max(current!.widthInches, box.widthInches),
+    heightInches: Math.max(current!.heightInches, box.heightInches),
+  });
+};
+
+/**
+ * Reads `Contents/content.hpf` and maps manifest item ids to zip paths
+ */
+export const readHwpxManifest = async (zip: JSZip): Promise<Map<string, string>> => {
+  const items = new Map<string, string>();
+  const manifestPath = Object.keys(zip.files).find((p) => /(^|\/)content\.hpf$/i.test(p));
+  if (!manifestPath) return items;
+
+  const xml = await zip.files[manifestPath].async('string');
+  for (const item of findElements(xml, 'item')) {
+    const id = getAttr(item.attrs, 'id');
+    const href = getAttr(item.attrs, 'href');
+    if (!id || !href) continue;
+    // Hancom writes root-relative hrefs; fall back to resolving against the manifest folder
+    const path = zip.files[href] ? href : resolvePartPath(dirName(manifestPath), href);
+    items.set(id, path);
+  }
+  return items;
+};
+
+const collectHwpx = async (zip: JSZip, map: DisplaySizeMap) => {
+  const manifest = await readHwpxManifest(zip);
+  const parts = Object.keys(zip.files).filter((p) => /^Contents\/.+\.xml$/i.test(p));
+
+  for (const part of parts) {
+    const xml = await zip.files[part].async('string');
+    const pictures = findElements(xml, 'pic');
+    const curSizes = findElements(xml, 'curSz');
+    const sizes = findElements(xml, 'sz');
+    const clips = findElements(xml, 'imgClip');
+    const dims = findElements(xml, 'imgDim');
+
+    for (const match of xml.matchAll(/\sbinaryItemIDRef\s*=\s*"([^"]+)"/g)) {
+      const path = manifest.get(match[1]);
+      if (!path || !IMAGE_PATH.test(path)) continue;
+
+      const pic = enclosing(pictures, match.index ?? 0);
+      if (!pic) {
+        record(map, path, null);
+        continue;
+      }
+
+      const size = [...within(curSizes, pic), ...within(sizes, pic)].find(
+        (el) => Number(el.attrs.width) > 0 && Number(el.attrs.height) > 0
+      );
+      // As in OOXML, a clipped picture spreads the whole image over more than its frame
+      const crop = hwpxCrop(within(clips, pic)[0], within(dims, pic)[0]);
+      const visible = visibleShare(crop ?? NO_CROP);
+      record(map, path, size && crop ? {
+        widthInches: Number(size.attrs.width) / HWPUNIT_PER_INCH / Math.max(visible.x, 0.01),
+        heightInches: Number(size.attrs.height) / HWPUNIT_PER_INCH / Math.max(visible.y, 0.01),
+      } : null);
+    }
+  }
+};
+
+const readRelationships = async (zip: JSZip, part: string): Promise<Map<string, string>> => {
+  const rels = new Map<string, string>();
+  const relsPath = `${dirName(part) ? dirName(part) + '/' : ''}_rels/${part.split('/').pop()}.rels`;
+  const relsFile = zip.files[relsPath];
+  if (!relsFile) return rels;
+
+  const xml = await relsFile.async('string');
+  for (const rel of findElements(xml, 'Relationship')) {
+    if (rel.attrs.TargetMode === 'External') continue;
+    if (rel.attrs.Id && rel.attrs.Target) {
+      rels.set(rel.attrs.Id, resolvePartPath(dirName(part), rel.attrs.Target));
+    }
+  }
+  return rels;
+};
+
+/**
+ * Horizontal/vertical scale applied by the group shapes around `offset`
+ * (`a:ext` of the group over its child extent `a:chExt`)
+ */
+const groupScale = (groups: XmlElement[], exts: XmlElement[], chExts: XmlElement[], offset: number) => {
+  let x = 1;
+  let y = 1;
+  for (const group of groups) {
+    if (!(group.start <= offset && offset < group.end)) continue;
+    const ext = within(exts, group)[0];
+    const chExt = within(chExts, group)[0];
+    if (!ext || !chExt) continue;
+    const chCx = Number(chExt.attrs.cx);
+    const chCy = Number(chExt.attrs.cy);
+    if (chCx > 0) x *= Number(ext.attrs.cx) / chCx;
+    if (chCy > 0) y *= Number(ext.attrs.cy) / chCy;
+  }
+  return { x, y };
+};
+
+const collectOoxml = async (zip: JSZip, map: DisplaySizeMap) => {
+  const parts = Object.keys(zip.files).filter((p) => /\.xml$/i.test(p) && !p.includes('_rels/'));
+
+  for (const part of parts) {
+    const rels = await readRelationships(zip, part);
+    const imageRels = [...rels].filter(([, target]) => IMAGE_PATH.test(target));
+    if (imageRels.length === 0) continue;
+
+    const xml = await zip.files[part].async('string');
+    const containers = [...findElements(xml, 'pic'), ...findElements(xml, 'sp')];
+    const groups = findElements(xml, 'grpSp');
+    const exts = findElements(xml, 'ext').filter((el) => el.attrs.cx !== undefined);
+    const extents = findElements(xml, 'extent').filter((el) => el.attrs.cx !== undefined);
+    const chExts = findElements(xml, 'chExt');
+    const srcRects = findElements(xml, 'srcRect');
+
+    for (const [id, target] of imageRels) {
+      const references = [...xml.matchAll(new RegExp(`\\s[\\w]+:(?:embed|link|id)\\s*=\\s*"${id}"`, 'g'))];
+      if (references.length === 0) {
+        record(map, target, null);
+        continue;
+      }
+
+      for (const ref of references) {
+        const offset = ref.index ?? 0;
+        const container = enclosing(containers, offset);
+        const ext = container && (within(exts, container)[0] ?? within(extents, container)[0]);
+        if (!container || !ext) {
+          record(map, target, null);
+          continue;
+        }
+
+        // A cropped picture shows only part of the bitmap at the frame size,
+        // so the full image needs proportionally more pixels.
+        const visible = visibleShare(ooxmlCrop(within(srcRects, container)[0]));
+        const scale = groupScale(groups, exts, chExts, offset);
+
+        record(map, target, {
+          widthInches: (Number(ext.attrs.cx) * scale.x) / Math.max(visible.x, 0.01) / EMU_PER_INCH,
+          heightInches: (Number(ext.attrs.cy) * scale.y) / Math.max(visible.y, 0.01) / EMU_PER_INCH,
+        });
+      }
+    }
+  }
+};
+
+const odfInches = (length: string | undefined) => {
+  const match = /^([\d.]+)(in|cm|mm|pt|pc|px)$/.exec(length?.trim() ?? '');
+  return match ? Number(match[1]) / ODF_UNITS_PER_INCH[match[2]] : 0;
+};
+
+/** Names of graphic styles that crop their picture with a non-zero `fo:clip` */
+const clippedOdfStyles = (xml: string) =>
+  findElements(xml, 'style')
+    .filter((style) => /[1-9]/.test(/\sfo:clip\s*=\s*"rect\(([^)]*)\)"/.exec(xml.slice(style.start, style.end))?.[1] ?? ''))
+    .map((style) => getAttr(style.attrs, 'name'));
+
+const collectOdf = async (zip: JSZip, map: DisplaySizeMap) => {
+  const parts = Object.keys(zip.files).filter((p) => /(^|\/)(content|styles)\.xml$/.test(p));
+  const documents = new Map<string, string>();
+  for (const part of parts) documents.set(part, await zip.files[part].async('string'));
+  const clipped = new Set([...documents.values()].flatMap(clippedOdfStyles));
+
+  for (const [part, xml] of documents) {
+    const frames = findElements(xml, 'frame');
+    for (const { path, index } of odfReferences(xml, part)) {
+      if (!IMAGE_PATH.test(path)) continue;
+      // Fill images and backgrounds sit outside any frame and keep their full resolution
+      const frame = enclosing(frames, index);
+      const widthInches = odfInches(frame && getAttr(frame.attrs, 'width'));
+      const heightInches = odfInches(frame && getAttr(frame.attrs, 'height'));
+      const cropped = !!frame && clipped.has(getAttr(frame.attrs, 'style-name'));
+      record(map, path, widthInches > 0 && heightInches > 0 && !cropped ? { widthInches, heightInches } : null);
+    }
+  }
+};
+
+const COLLECTORS = { ooxml: collectOoxml, odf: collectOdf, hwpx: collectHwpx };
+
+/**
+ * Walks the document XML of an HWPX, OOXML (PPTX/SHOW, DOCX, XLSX) or ODF
+ * package and returns the largest size at which each image is rendered.
+ */
+export const collectDisplaySizes = async (zip: JSZip): Promise<DisplaySizeMap> => {
+  const map: DisplaySizeMap = new Map();
+  await COLLECTORS[packageFlavor(zip)](zip, map);
+  return map;
+};
+
+/**
+ * Copy of `map` in which each merged duplicate's sizes also count for the
+ * entry it was merged into (`duplicates` maps removed path to kept path)
+ */
+export const mergeDuplicateSizes = (map: DisplaySizeMap, duplicates: Map<string, string>): DisplaySizeMap => {
+  const merged: DisplaySizeMap = new Map(map);
+  duplicates.forEach((kept, path) => {
+    // A kept entry without a measured size already stays at full resolution
+    if (merged.has(kept)) record(merged, kept, map.get(path) ?? null);
+  });
+  return merged;
+};
+
+/**
+ * Pixel box needed to render `box` at `dpi`
+ */
+export const pixelsForDpi = (box: DisplayBox, dpi: number) => ({
+  width: Math.ceil(box.widthInches * dpi),
+  height: Math.ceil(box.heightInches * dpi),
+});
@@ -0,0 +1,622 @@
+/**
+ * Subsetting of embedded TrueType, OpenType and bare CFF font programs.
+ * Glyph ids never change: glyphs that are not kept become empty, so content
+ * streams, CIDToGIDMaps and width arrays stay valid as they are.
+ */
+
+/** Tables a PDF renderer never reads from an embedded font program */
+const DROPPED_TABLES = new Set([
+  'BASE', 'DSIG', 'GDEF', 'GPOS', 'GSUB', 'JSTF', 'LTSH', 'MATH', 'PCLT', 'VDMX', 'hdmx', 'kern', 'meta', 'morx', 'feat',
+]);
+
+export type FontProgramFormat = 'sfnt' | 'cff';
+
+const u16 = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1];
+const i16 = (b: Uint8Array, o: number) => (u16(b, o) << 16) >> 16;
+const u32 = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+
+const putU16 = (b: Uint8Array, o: number, v: number) => {
+  b[o] = (v >> 8) & 0xff;
+  b[o + 1] = v & 0xff;
+};
+
+const putU32 = (b: Uint8Array, o: number, v: number) => {
+  putU16(b, o, v >>> 16);
+  putU16(b, o + 2, v & 0xffff);
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export interface Sfnt {
+  version: number;
+  tables: Map<string, Uint8Array>;
+}
+
+/**
+ * Table directory of a TrueType or OpenType font. Collections are rejected:
+ * a PDF never embeds more than one face.
+ */
+export const readSfnt = (bytes: Uint8Array): Sfnt => {
+  const version = u32(bytes, 0);
+  if (version !== 0x00010000 && version !== 0x4f54544f && version !== 0x74727565) {
+    throw new Error(version === 0x74746366 ? 'Font collections are not supported' : 'Not a TrueType/OpenType font');
+  }
+  const tables = new Map<string, Uint8Array>();
+  const count = u16(bytes, 4);
+  for (let i = 0; i < count; i++) {
+    const entry = 12 + i * 16;
+    const tag = String.fromCharCode(...bytes.subarray(entry, entry + 4));
+    const offset = u32(bytes, entry + 8);
+    const length = u32(bytes, entry + 12);
+    if (offset + length > bytes.length) throw new Error(`Font table ${tag} is truncated`);
+    tables.set(tag, bytes.subarray(offset, offset + length));
+  }
+  return { version, tables };
+};
+
+const tableChecksum = (data: Uint8Array) => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sum = (sum + (((data[i] << 24) | ((data[i + 1] ?? 0) << 16) | ((data[i + 2] ?? 0) << 8) | (data[i + 3] ?? 0)) >>> 0)) >>> 0;
+  }
+  return sum;
+};
+
+/** Serializes tables sorted by tag, with checksums and head.checkSumAdjustment recomputed */
+const writeSfnt = ({ version, tables }: Sfnt): Uint8Array => {
+  const tags = [...tables.keys()].sort();
+  const head = tables.get('head');
+  if (head) {
+    const copy = head.slice();
+    putU32(copy, 8, 0);
+    tables.set('head', copy);
+  }
+
+  const directory = new Uint8Array(12 + tags.length * 16);
+  const log2 = Math.floor(Math.log2(tags.length));
+  putU32(directory, 0, version);
+  putU16(directory, 4, tags.length);
+  putU16(directory, 6, 16 * 2 ** log2);
+  putU16(directory, 8, log2);
+  putU16(directory, 10, tags.length * 16 - 16 * 2 ** log2);
+
+  const parts: Uint8Array[] = [directory];
+  let offset = directory.length;
+  tags.forEach((tag, i) => {
+    const data = tables.get(tag)!;
+    const entry = 12 + i * 16;
+    for (let c = 0; c < 4; c++) directory[entry + c] = tag.charCodeAt(c);
+    putU32(directory, entry + 4, tableChecksum(data));
+    putU32(directory, entry + 8, offset);
+    putU32(directory, entry + 12, data.length);
+    const padded = (data.length + 3) & ~3;
+    parts.push(data, new Uint8Array(padded - data.length));
+    offset += padded;
+  });
+
+  const out = concat(parts);
+  const headIndex = tags.indexOf('head');
+  if (headIndex !== -1) {
+    const headOffset = u32(directory, 12 + headIndex * 16 + 8);
+    putU32(out, headOffset + 8, (0xb1b0afba - tableChecksum(out)) >>> 0);
+  }
+  return out;
+};
+
+/** Number of glyphs a font program declares */
+export const glyphCount = (bytes: Uint8Array, format: FontProgramFormat): number => {
+  if (format === 'cff') return readCff(bytes).charStrings.length;
+  const { tables } = readSfnt(bytes);
+  const maxp = tables.get('maxp');
+  if (maxp) return u16(maxp, 4);
+  const cff = tables.get('CFF ');
+  if (cff) return readCff(cff).charStrings.length;
+  throw new Error('Font has neither maxp nor CFF table');
+};
+
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+const locaOffsets = (loca: Uint8Array, numGlyphs: number, long: boolean) =>
+  Array.from({ length: numGlyphs + 1 }, (_, g) => (long ? u32(loca, g * 4) : u16(loca, g * 2) * 2));
+
+/** Component glyph ids of a composite glyph; empty for simple glyphs */
+const components = (glyph: Uint8Array): number[] => {
+  if (glyph.length < 10 || i16(glyph, 0) >= 0) return [];
+  const ids: number[] = [];
+  let o = 10;
+  for (;;) {
+    const flags = u16(glyph, o);
+    ids.push(u16(glyph, o + 2));
+    o += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+    if (flags & WE_HAVE_A_SCALE) o += 2;
+    else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) o += 4;
+    else if (flags & WE_HAVE_A_TWO_BY_TWO) o += 8;
+    if (!(flags & MORE_COMPONENTS) || o + 4 > glyph.length) return ids;
+  }
+};
+
+const subsetGlyf = (tables: Map<string, Uint8Array>, keep: Set<number>): number => {
+  const head = tables.get('head')!;
+  const glyf = tables.get('glyf')!;
+  const numGlyphs = u16(tables.get('maxp')!, 4);
+  const long = i16(head, 50) === 1;
+  const offsets = locaOffsets(tables.get('loca')!, numGlyphs, long);
+  const glyph = (g: number) => glyf.subarray(offsets[g], Math.max(offsets[g], offsets[g + 1]));
+
+  // Composite glyphs draw their components, which must survive as well
+  const kept = new Set<number>();
+  const stack = [0, ...keep].filter((g) => g < numGlyphs);
+  while (stack.length > 0) {
+    const g = stack.pop()!;
+    if (kept.has(g)) continue;
+    kept.add(g);
+    for (const c of components(glyph(g))) if (c < numGlyphs && !kept.has(c)) stack.push(c);
+  }
+
+  const parts: Uint8Array[] = [];
+  const newOffsets = [0];
+  let size = 0;
+  for (let g = 0; g < numGlyphs; g++) {
+    if (kept.has(g)) {
+      const data = glyph(g);
+      const padded = (data.length + 3) & ~3;
+      parts.push(data, new Uint8Array(padded - data.length));
+      size += padded;
+    }
+    newOffsets.push(size);
+  }
+
+  // The short format stores offsets / 2 in 16 bits
+  const newLong = long || size / 2 > 0xffff;
+  const loca = new Uint8Array((numGlyphs + 1) * (newLong ? 4 : 2));
+  newOffsets.forEach((offset, g) => (newLong ? putU32(loca, g * 4, offset) : putU16(loca, g * 2, offset / 2)));
+  if (newLong !== long) {
+    const newHead = head.slice();
+    putU16(newHead, 50, 1);
+    tables.set('head', newHead);
+  }
+  tables.set('glyf', concat(parts));
+  tables.set('loca', loca);
+  return kept.size;
+};
+
+/** post format 3: the same metrics without glyph names */
+const stripGlyphNames = (post: Uint8Array): Uint8Array => {
+  const out = post.slice(0, 32);
+  putU32(out, 0, 0x00030000);
+  return out;
+};
+
+interface CffIndex {
+  items: Uint8Array[];
+  /** The whole INDEX as stored */
+  raw: Uint8Array;
+}
+
+const readIndex = (bytes: Uint8Array, start: number): CffIndex => {
+  const count = u16(bytes, start);
+  if (count === 0) return { items: [], raw: bytes.subarray(start, start + 2) };
+  const offSize = bytes[start + 2];
+  const offsetAt = (i: number) => {
+    let value = 0;
+    for (let k = 0; k < offSize; k++) value = value * 256 + bytes[start + 3 + i * offSize + k];
+    return value;
+  };
+  const dataStart = start + 3 + (count + 1) * offSize - 1;
+  const items = Array.from({ length: count }, (_, i) => bytes.subarray(dataStart + offsetAt(i), dataStart + offsetAt(i + 1)));
+  return { items, raw: bytes.subarray(start, dataStart + offsetAt(count)) };
+};
+
+const writeIndex = (items: Uint8Array[]): Uint8Array => {
+  if (items.length === 0) return new Uint8Array(2);
+  const total = items.reduce((sum, item) => sum + item.length, 0) + 1;
+  const offSize = total < 0x100 ? 1 : total < 0x10000 ? 2 : total < 0x1000000 ? 3 : 4;
+  const header = new Uint8Array(3 + (items.length + 1) * offSize);
+  putU16(header, 0, items.length);
+  header[2] = offSize;
+  let offset = 1;
+  for (let i = 0; i <= items.length; i++) {
+    for (let k = 0; k < offSize; k++) header[3 + i * offSize + k] = (offset >>> (8 * (offSize - 1 - k))) & 0xff;
+    if (i < items.length) offset += items[i].length;
+  }
+  return concat([header, ...items]);
+};
+
+interface DictEntry {
+  /** Operator, two-byte operators as 1200 + second byte */
+  op: number;
+  values: number[];
+  /** Operand bytes as stored, copied unchanged unless the entry is rewritten */
+  raw: Uint8Array;
+}
+
+const readDict = (bytes: Uint8Array): DictEntry[] => {
+  const entries: DictEntry[] = [];
+  let values: number[] = [];
+  let operandStart = 0;
+  let i = 0;
+  while (i < bytes.length) {
+    const b0 = bytes[i];
+    if (b0 <= 21) {
+      const op = b0 === 12 ? 1200 + bytes[i + 1] : b0;
+      entries.push({ op, values, raw: bytes.subarray(operandStart, i) });
+      i += b0 === 12 ? 2 : 1;
+      values = [];
+      operandStart = i;
+    } else if (b0 === 28) {
+      values.push(i16(bytes, i + 1));
+      i += 3;
+    } else if (b0 === 29) {
+      values.push(u32(bytes, i + 1) | 0);
+      i += 5;
+    } else if (b0 === 30) {
+      // Real numbers are only ever copied, never read back as offsets
+      values.push(NaN);
+      i++;
+      while (i < bytes.length && (bytes[i] & 0x0f) !== 0x0f && (bytes[i] >> 4) !== 0x0f) i++;
+      i++;
+    } else if (b0 >= 32 && b0 <= 246) {
+      values.push(b0 - 139);
+      i++;
+    } else if (b0 >= 247 && b0 <= 250) {
+      values.push((b0 - 247) * 256 + bytes[i + 1] + 108);
+      i += 2;
+    } else if (b0 >= 251 && b0 <= 254) {
+      values.push(-(b0 - 251) * 256 - bytes[i + 1] - 108);
+      i += 2;
+    } else {
+      throw new Error(`Invalid CFF DICT byte ${b0}`);
+    }
+  }
+  return entries;
+};
+
+/** Fixed-size integer operand, so a DICT's length does not depend on the offsets it holds */
+const int32Operand = (value: number) => {
+  const out = new Uint8Array(5);
+  out[0] = 29;
+  putU32(out, 1, value >>> 0);
+  return out;
+};
+
+/** Writes the DICT back; operators listed in `offsets` get their operands replaced */
+const writeDict = (entries: DictEntry[], offsets: Map<number, number[]>): Uint8Array =>
+  concat(entries.flatMap(({ op, raw }) => {
+    const operands = offsets.has(op) ? concat(offsets.get(op)!.map(int32Operand)) : raw;
+    return [operands, op >= 1200 ? Uint8Array.of(12, op - 1200) : Uint8Array.of(op)];
+  }));
+
+const dictValue = (entries: DictEntry[], op: number) => entries.find((e) => e.op === op)?.values;
+
+const OP_CHARSET = 15;
+const OP_ENCODING = 16;
+const OP_CHARSTRINGS = 17;
+const OP_PRIVATE = 18;
+const OP_SUBRS = 19;
+const OP_ROS = 1230;
+const OP_FDARRAY = 1236;
+const OP_FDSELECT = 1237;
+
+interface CffPrivate {
+  dict: DictEntry[];
+  /** Local subroutines, stored right after the DICT */
+  subrs?: Uint8Array;
+}
+
+interface Cff {
+  header: Uint8Array;
+  names: CffIndex;
+  top: DictEntry[];
+  strings: CffIndex;
+  globalSubrs: CffIndex;
+  charStrings: Uint8Array[];
+  /** charset, Encoding and FDSelect as stored; undefined for predefined ones */
+  charset?: Uint8Array;
+  encoding?: Uint8Array;
+  fdSelect?: Uint8Array;
+  fonts?: { dict: DictEntry[]; private?: CffPrivate }[];
+  private?: CffPrivate;
+  /** GID to CID, for CID-keyed fonts */
+  cids?: number[];
+}
+
+const readPrivate = (bytes: Uint8Array, sizeAndOffset: number[] | undefined): CffPrivate | undefined => {
+  if (!sizeAndOffset) return undefined;
+  const [size, offset] = sizeAndOffset;
+  const dict = readDict(bytes.subarray(offset, offset + size));
+  const subrsOffset = dictValue(dict, OP_SUBRS)?.[0];
+  return { dict, subrs: subrsOffset === undefined ? undefined : readIndex(bytes, offset + subrsOffset).raw };
+};
+
+/** Glyph id to SID/CID from a charset, and the bytes the charset occupies */
+const readCharset = (bytes: Uint8Array, offset: number, numGlyphs: number) => {
+  const ids = [0];
+  const format = bytes[offset];
+  let o = offset + 1;
+  if (format === 0) {
+    for (; ids.length < numGlyphs; o += 2) ids.push(u16(bytes, o));
+  } else if (format === 1 || format === 2) {
+    while (ids.length < numGlyphs) {
+      const first = u16(bytes, o);
+      const left = format === 1 ? bytes[o + 2] : u16(bytes, o + 2);
+      for (let k = 0; k <= left && ids.length < numGlyphs; k++) ids.push(first + k);
+      o += format === 1 ? 3 : 4;
+    }
+  } else {
+    throw new Error(`Unknown CFF charset format ${format}`);
+  }
+  return { ids, raw: bytes.subarray(offset, o) };
+};
+
+const encodingBytes = (bytes: Uint8Array, offset: number) => {
+  const format = bytes[offset];
+  let o = offset + 1;
+  o += (format & 0x7f) === 0 ? 1 + bytes[o] : 1 + 2 * bytes[o];
+  if (format & 0x80) o += 1 + 3 * bytes[o];
+  return bytes.subarray(offset, o);
+};
+
+const fdSelectBytes = (bytes: Uint8Array, offset: number, numGlyphs: number) => {
+  const format = bytes[offset];
+  if (format === 0) return bytes.subarray(offset, offset + 1 + numGlyphs);
+  if (format === 3) return bytes.subarray(offset, offset + 5 + 3 * u16(bytes, offset + 1));
+  throw new Error(`Unknown CFF FDSelect format ${format}`);
+};
+
+const readCff = (bytes: Uint8Array): Cff => {
+  if (bytes[0] !== 1) throw new Error(`CFF version ${bytes[0]} is not supported`);
+  const header = bytes.subarray(0, bytes[2]);
+  const names = readIndex(bytes, header.length);
+  if (names.items.length !== 1) throw new Error('CFF font sets are not supported');
+  const topIndex = readIndex(bytes, header.length + names.raw.length);
+  const strings = readIndex(bytes, header.length + names.raw.length + topIndex.raw.length);
+  const globalSubrs = readIndex(bytes, header.length + names.raw.length + topIndex.raw.length + strings.raw.length);
+  const top = readDict(topIndex.items[0]);
+
+  const charStringsOffset = dictValue(top, OP_CHARSTRINGS)?.[0];
+  if (charStringsOffset === undefined) throw new Error('CFF font without CharStrings');
+  const charStrings = readIndex(bytes, charStringsOffset).items;
+  const numGlyphs = charStrings.length;
+
+  const cff: Cff = { header, names, top, strings, globalSubrs, charStrings };
+  const charsetOffset = dictValue(top, OP_CHARSET)?.[0] ?? 0;
+  if (charsetOffset > 2) {
+    const charset = readCharset(bytes, charsetOffset, numGlyphs);
+    cff.charset = charset.raw;
+    if (dictValue(top, OP_ROS)) cff.cids = charset.ids;
+  }
+  const encodingOffset = dictValue(top, OP_ENCODING)?.[0] ?? 0;
+  if (encodingOffset > 1) cff.encoding = encodingBytes(bytes, encodingOffset);
+
+  const fdArrayOffset = dictValue(top, OP_FDARRAY)?.[0];
+  if (fdArrayOffset !== undefined) {
+    cff.fonts = readIndex(bytes, fdArrayOffset).items.map((item) => {
+      const dict = readDict(item);
+      return { dict, private: readPrivate(bytes, dictValue(dict, OP_PRIVATE)) };
+    });
+    const fdSelectOffset = dictValue(top, OP_FDSELECT)?.[0];
+    if (fdSelectOffset !== undefined) cff.fdSelect = fdSelectBytes(bytes, fdSelectOffset, numGlyphs);
+  }
+  cff.private = readPrivate(bytes, dictValue(top, OP_PRIVATE));
+  return cff;
+};
+
+/** Private DICT followed by its local subroutines; `dictSize` goes into the parent's Private operator */
+const writePrivate = (priv: CffPrivate): { dictSize: number; block: Uint8Array } => {
+  // The Subrs offset is relative to the DICT, which the subroutines follow directly
+  const withSubrsAt = (offset: number) => writeDict(priv.dict, new Map(priv.subrs ? [[OP_SUBRS, [offset]]] : []));
+  const dictSize = withSubrsAt(0).length;
+  return { dictSize, block: concat([withSubrsAt(dictSize), priv.subrs ?? new Uint8Array(0)]) };
+};
+
+/** Type 2 charstring of an empty glyph */
+const ENDCHAR = Uint8Array.of(14);
+
+const writeCff = (cff: Cff, charStrings: Uint8Array[]): Uint8Array => {
+  const charStringsIndex = writeIndex(charStrings);
+  const privates = cff.fonts?.map((font) => (font.private ? writePrivate(font.private) : undefined)) ?? [];
+  const topPrivate = cff.private ? writePrivate(cff.private) : undefined;
+
+  // Every offset is written as a 5-byte integer, so sizes are known before the offsets are
+  const layout = (offsets: Map<string, number>) => {
+    const topOffsets = new Map<number, number[]>();
+    if (cff.charset) topOffsets.set(OP_CHARSET, [offsets.get('charset') ?? 0]);
+    if (cff.encoding) topOffsets.set(OP_ENCODING, [offsets.get('encoding') ?? 0]);
+    topOffsets.set(OP_CHARSTRINGS, [offsets.get('charStrings') ?? 0]);
+    if (cff.fonts) topOffsets.set(OP_FDARRAY, [offsets.get('fdArray') ?? 0]);
+    if (cff.fdSelect) topOffsets.set(OP_FDSELECT, [offsets.get('fdSelect') ?? 0]);
+    if (topPrivate) topOffsets.set(OP_PRIVATE, [topPrivate.dictSize, offsets.get('private') ?? 0]);
+    const fdArray = cff.fonts && writeIndex(cff.fonts.map((font, i) => writeDict(
+      font.dict,
+      new Map(privates[i] ? [[OP_PRIVATE, [privates[i]!.dictSize, offsets.get(`private${i}`) ?? 0]]] : [])
+    )));
+    return { top: writeIndex([writeDict(cff.top, topOffsets)]), fdArray };
+  };
+
+  const blocks = (parts: ReturnType<typeof layout>) => {
+    const list: [string, Uint8Array][] = [
+      ['header', cff.header],
+      ['names', cff.names.raw],
+      ['top', parts.top],
+      ['strings', cff.strings.raw],
+      ['globalSubrs', cff.globalSubrs.raw],
+    ];
+    if (cff.charset) list.push(['charset', cff.charset]);
+    if (cff.encoding) list.push(['encoding', cff.encoding]);
+    if (cff.fdSelect) list.push(['fdSelect', cff.fdSelect]);
+    list.push(['charStrings', charStringsIndex]);
+    if (parts.fdArray) list.push(['fdArray', parts.fdArray]);
+    privates.forEach((p, i) => p && list.push([`private${i}`, p.block]));
+    if (topPrivate) list.push(['private', topPrivate.block]);
+    return list;
+  };
+
+  const offsets = new Map<string, number>();
+  let position = 0;
+  for (const [key, data] of blocks(layout(offsets))) {
+    offsets.set(key, position);
+    position += data.length;
+  }
+  return concat(blocks(layout(offsets)).map(([, data]) => data));
+};
+
+const subsetCff = (bytes: Uint8Array, keep: Set<number>): { bytes: Uint8Array; glyphs: number } => {
+  const cff = readCff(bytes);
+  const charStrings = cff.charStrings.map((cs, g) => (g === 0 || keep.has(g) ? cs : ENDCHAR));
+  return { bytes: writeCff(cff, charStrings), glyphs: charStrings.filter((cs) => cs !== ENDCHAR).length };
+};
+
+/**
+ * CID to glyph id of a CID-keyed CFF font (bare or inside OpenType); undefined
+ * when glyphs are addressed by id directly
+ */
+export const cffCidToGid = (bytes: Uint8Array, format: FontProgramFormat): Map<number, number> | undefined => {
+  const cffBytes = format === 'cff' ? bytes : readSfnt(bytes).tables.get('CFF ');
+  if (!cffBytes) return undefined;
+  const { cids } = readCff(cffBytes);
+  return cids && new Map(cids.map((cid, gid) => [cid, gid]));
+};
+
+/**
+ * Character-to-glyph lookup for one cmap subtable (formats 0, 4, 6 and 12)
+ */
+const readCmapSubtable = (cmap: Uint8Array, offset: number): ((code: number) => number) | undefined => {
+  const format = u16(cmap, offset);
+  if (format === 0) return (code) => (code < 256 ? cmap[offset + 6 + code] : 0);
+  if (format === 6) {
+    const first = u16(cmap, offset + 6);
+    const count = u16(cmap, offset + 8);
+    return (code) => (code >= first && code < first + count ? u16(cmap, offset + 10 + (code - first) * 2) : 0);
+  }
+  if (format === 4) {
+    const segments = u16(cmap, offset + 6) / 2;
+    const ends = offset + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+    return (code) => {
+      for (let s = 0; s < segments; s++) {
+        if (code > u16(cmap, ends + s * 2)) continue;
+        const start = u16(cmap, starts + s * 2);
+        if (code < start) return 0;
+        const rangeOffset = u16(cmap, rangeOffsets + s * 2);
+        if (rangeOffset === 0) return (code + i16(cmap, deltas + s * 2)) & 0xffff;
+        const glyph = u16(cmap, rangeOffsets + s * 2 + rangeOffset + (code - start) * 2);
+        return glyph === 0 ? 0 : (glyph + i16(cmap, deltas + s * 2)) & 0xffff;
+      }
+      return 0;
+    };
+  }
+  if (format === 12) {
+    const groups = u32(cmap, offset + 12);
+    return (code) => {
+      for (let g = 0; g < groups; g++) {
+        const o = offset + 16 + g * 12;
+        if (code >= u32(cmap, o) && code <= u32(cmap, o + 4)) return u32(cmap, o + 8) + code - u32(cmap, o);
+      }
+      return 0;
+    };
+  }
+  return undefined;
+};
+
+/** Lookups of every readable cmap subtable, keyed by "platform/encoding" */
+export const readCmaps = (font: Sfnt): Map<string, (code: number) => number> => {
+  const lookups = new Map<string, (code: number) => number>();
+  const cmap = font.tables.get('cmap');
+  if (!cmap) return lookups;
+  for (let i = 0; i < u16(cmap, 2); i++) {
+    const record = 4 + i * 8;
+    const lookup = readCmapSubtable(cmap, u32(cmap, record + 4));
+    if (lookup) lookups.set(`${u16(cmap, record)}/${u16(cmap, record + 2)}`, lookup);
+  }
+  return lookups;
+};
+
+/** Standard Macintosh glyph names, the first 258 names of post format 2 */
+const MAC_GLYPH_NAMES = (
+  '.notdef .null nonmarkingreturn space exclam quotedbl numbersign dollar percent ampersand quotesingle '
+  + 'parenleft parenright asterisk plus comma hyphen period slash zero one two three four five six seven eight '
+  + 'nine colon semicolon less equal greater question at A B C D E F G H I J K L M N O P Q R S T U V W X Y Z '
+  + 'bracketleft backslash bracketright asciicircum underscore grave a b c d e f g h i j k l m n o p q r s t u v '
+  + 'w x y z braceleft bar braceright asciitilde Adieresis Aring Ccedilla Eacute Ntilde Odieresis Udieresis '
+  + 'aacute agrave acircumflex adieresis atilde aring ccedilla eacute egrave ecircumflex edieresis iacute igrave '
+  + 'icircumflex idieresis ntilde oacute ograve ocircumflex odieresis otilde uacute ugrave ucircumflex udieresis '
+  + 'dagger degree cent sterling section bullet paragraph germandbls registered copyright trademark acute '
+  + 'dieresis notequal AE Oslash infinity plusminus lessequal greaterequal yen mu partialdiff summation product '
+  + 'pi integral ordfeminine ordmasculine Omega ae oslash questiondown exclamdown logicalnot radical florin '
+  + 'approxequal Delta guillemotleft guillemotright ellipsis nonbreakingspace Agrave Atilde Otilde OE oe endash '
+  + 'emdash quotedblleft quotedblright quoteleft quoteright divide lozenge ydieresis Ydieresis fraction currency '
+  + 'guilsinglleft guilsinglright fi fl daggerdbl periodcentered quotesinglbase quotedblbase perthousand '
+  + 'Acircumflex Ecircumflex Aacute Edieresis Egrave Iacute Icircumflex Idieresis Igrave Oacute Ocircumflex apple '
+  + 'Ograve Uacute Ucircumflex Ugrave dotlessi circumflex tilde macron breve dotaccent ring cedilla hungarumlaut '
+  + 'ogonek caron Lslash lslash Scaron scaron Zcaron zcaron brokenbar Eth eth Yacute yacute Thorn thorn minus '
+  + 'multiply onesuperior twosuperior threesuperior onehalf onequarter threequarters franc Gbreve gbreve Idotaccent '
+  + 'Scedilla scedilla Cacute cacute Ccaron ccaron dcroat'
+).split(' ');
+
+/** Glyph id by name from a post format 2 table; empty for other formats */
+export const readGlyphNames = (font: Sfnt): Map<string, number> => {
+  const names = new Map<string, number>();
+  const post = font.tables.get('post');
+  if (!post || u32(post, 0) !== 0x00020000) return names;
+  const numGlyphs = u16(post, 32);
+  const custom: string[] = [];
+  for (let o = 34 + numGlyphs * 2; o < post.length; o += 1 + post[o]) {
+    custom.push(String.fromCharCode(...post.subarray(o + 1, o + 1 + post[o])));
+  }
+  for (let g = 0; g < numGlyphs; g++) {
+    const index = u16(post, 34 + g * 2);
+    const name = index < 258 ? MAC_GLYPH_NAMES[index] : custom[index - 258];
+    if (name && !names.has(name)) names.set(name, g);
+  }
+  return names;
+};
+
+export interface SubsetFont {
+  bytes: Uint8Array;
+  /** Glyphs left with an outline, including .notdef and composite components */
+  glyphs: number;
+}
+
+/**
+ * Empties every glyph not in `keep`, along with tables a PDF renderer does
+ * not use. Glyph names are dropped too when `keepGlyphNames` is false, which
+ * is safe for CID fonts because they address glyphs by id only.
+ */
+export const subsetFontProgram = (
+  bytes: Uint8Array,
+  format: FontProgramFormat,
+  keep: Set<number>,
+  { keepGlyphNames }: { keepGlyphNames: boolean }
+): SubsetFont => {
+  if (format === 'cff') return subsetCff(bytes, keep);
+
+  const font = readSfnt(bytes);
+  const tables = new Map([...font.tables].filter(([tag]) => !DROPPED_TABLES.has(tag)));
+  let glyphs: number;
+  if (tables.has('glyf') && tables.has('loca')) {
+    glyphs = subsetGlyf(tables, keep);
+  } else if (tables.has('CFF ')) {
+    const subset = subsetCff(tables.get('CFF ')!, keep);
+    tables.set('CFF ', subset.bytes);
+    glyphs = subset.glyphs;
+  } else {
+    throw new Error('Font has no TrueType or CFF outlines');
+  }
+  const post = tables.get('post');
+  if (!keepGlyphNames && post && u32(post, 0) === 0x00020000) tables.set('post', stripGlyphNames(post));
+  return { bytes: writeSfnt({ version: font.version, tables }), glyphs };
+};
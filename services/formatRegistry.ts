@@ -0,0 +1,158 @@
+import JSZip from 'jszip';
+import { FileType, FormatOption } from '../types';
+import { abortable } from './abort';
+import { DocumentSession, openPdfSession, openZipSession } from './optimizerService';
+import { findElements, resolvePartPath } from './xmlUtils';
+
+/** What format detection looked at */
+export interface FileProbe {
+  /** The first kilobyte of the file */
+  head: Uint8Array;
+  /** The loaded package, for ZIP files; handed on so it is only parsed once */
+  zip?: JSZip;
+  /** The `mimetype` entry of an ODF or HWPX package */
+  mimetype?: string;
+  /** Content type of the OOXML main part, e.g. `...wordprocessingml.document.main+xml` */
+  mainContentType?: string;
+}
+
+/**
+ * One document format the app can optimize: how to recognize it and which
+ * settings apply to it. The upload tabs and settings panel are built from these.
+ */
+export interface DocumentFormat {
+  type: FileType;
+  label: string;
+  /** Lower-case, with the dot */
+  extensions: string[];
+  /** Whether the probed file is this format, judged by its content rather than its name */
+  detect: (probe: FileProbe) => boolean;
+  /** Package folders holding the document's images; empty for PDF */
+  mediaFolders: string[];
+  options: FormatOption[];
+  /** Shown under the upload area, e.g. how to convert the format's legacy binary predecessor */
+  hint?: string;
+  open: (file: File, probe: FileProbe, signal?: AbortSignal) => Promise<DocumentSession>;
+}
+
+const PACKAGE_OPTIONS: FormatOption[] = ['maxDpi', 'mediaCleanup', 'metafiles'];
+/** Formats whose pictures carry their own crop, which `trimCrops` can bake into the image */
+const CROPPING_PACKAGE_OPTIONS: FormatOption[] = [...PACKAGE_OPTIONS, 'trimCrops'];
+
+const zipFormat = (format: Omit<DocumentFormat, 'open'>): DocumentFormat => ({
+  ...format,
+  open: (file, probe, signal) => openZipSession(file, signal, { zip: probe.zip, mediaFolders: format.mediaFolders }),
+});
+
+const ooxmlType = (probe: FileProbe, family: RegExp) => family.test(probe.mainContentType ?? '');
+
+/** In the order of the upload tabs */
+export const DOCUMENT_FORMATS: DocumentFormat[] = [
+  zipFormat({
+    type: FileType.HWPX,
+    label: 'HWPX',
+    extensions: ['.hwpx'],
+    detect: (probe) => probe.mimetype === 'application/hwp+zip' || !!probe.zip?.files['Contents/content.hpf'],
+    mediaFolders: ['BinData/', 'Preview/'],
+    options: CROPPING_PACKAGE_OPTIONS,
+    hint: '* hwp 파일은 hwpx 파일로 변환 후 업로드 해주세요.',
+  }),
+  {
+    type: FileType.PDF,
+    label: 'PDF',
+    extensions: ['.pdf'],
+    // Readers accept a header anywhere in the first kilobyte, after stray bytes from mail gateways and the like
+    detect: (probe) => !probe.zip && String.fromCharCode(...probe.head).includes('%PDF-'),
+    mediaFolders: [],
+    options: ['subsetFonts', 'pdfCleanup'],
+    open: (file, _, signal) => openPdfSession(file, signal),
+  },
+  zipFormat({
+    type: FileType.PPTX,
+    label: 'PPTX / SHOW',
+    extensions: ['.pptx', '.show'],
+    detect: (probe) => ooxmlType(probe, /presentationml|ms-powerpoint/) || !!probe.zip?.files['ppt/presentation.xml'],
+    mediaFolders: ['ppt/media/', 'docProps/'],
+    options: [...CROPPING_PACKAGE_OPTIONS, 'removeEmbeddedFonts', 'embeddedMedia'],
+    hint: '* ppt 파일은 pptx 파일로 변환 후 업로드 해주세요.',
+  }),
+  zipFormat({
+    type: FileType.DOCX,
+    label: 'DOCX',
+    extensions: ['.docx'],
+    detect: (probe) => ooxmlType(probe, /wordprocessingml|ms-word/),
+    mediaFolders: ['word/media/', 'docProps/'],
+    options: CROPPING_PACKAGE_OPTIONS,
+    hint: '* doc 파일은 docx 파일로 변환 후 업로드 해주세요.',
+  }),
+  zipFormat({
+    type: FileType.XLSX,
+    label: 'XLSX',
+    extensions: ['.xlsx'],
+    detect: (probe) => ooxmlType(probe, /spreadsheetml|ms-excel/),
+    mediaFolders: ['xl/media/', 'docProps/'],
+    options: CROPPING_PACKAGE_OPTIONS,
+    hint: '* xls 파일은 xlsx 파일로 변환 후 업로드 해주세요.',
+  }),
+  zipFormat({
+    type: FileType.ODF,
+    label: 'ODT / ODP',
+    extensions: ['.odt', '.odp'],
+    detect: (probe) => /^application\/vnd\.oasis\.opendocument\.(text|presentation)/.test(probe.mimetype ?? ''),
+    // `Thumbnails/thumbnail.png` has to stay a PNG, so only the document's own pictures are touched
+    mediaFolders: ['Pictures/'],
+    options: PACKAGE_OPTIONS,
+  }),
+];
+
+export const formatByType = (type: FileType): DocumentFormat =>
+  DOCUMENT_FORMATS.find((format) => format.type === type)!;
+
+const extensionOf = (fileName: string) => {
+  const index = fileName.lastIndexOf('.');
+  return index === -1 ? '' : fileName.slice(index).toLowerCase();
+};
+
+/** The format a file name claims; only used to filter what gets queued */
+export const formatForName = (fileName: string): DocumentFormat | undefined =>
+  DOCUMENT_FORMATS.find((format) => format.extensions.includes(extensionOf(fileName)));
+
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+/** OLE compound file: HWP, PPT, DOC, XLS, and also password-protected or DRM-wrapped OOXML */
+const COMPOUND_FILE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const startsWith = (bytes: Uint8Array, magic: number[]) => magic.every((byte, i) => bytes[i] === byte);
+
+export const isCompoundFile = (probe: FileProbe): boolean => startsWith(probe.head, COMPOUND_FILE_MAGIC);
+
+/** Content type of the part the package's officeDocument relationship points at */
+const mainContentType = async (zip: JSZip) => {
+  if (!zip.files['[Content_Types].xml']) return undefined;
+  const types = findElements(await zip.files['[Content_Types].xml'].async('string'), 'Override');
+  const rels = zip.files['_rels/.rels'] ? await zip.files['_rels/.rels'].async('string') : '';
+  const main = findElements(rels, 'Relationship').find((el) => /\/officeDocument$/.test(el.attrs.Type ?? ''));
+  const partName = main?.attrs.Target ? `/${resolvePartPath('', main.attrs.Target)}` : undefined;
+  const override = types.find((el) => el.attrs.PartName === partName)
+    ?? types.find((el) => /\.main\+xml$/.test(el.attrs.ContentType ?? ''));
+  return override?.attrs.ContentType;
+};
+
+/**
+ * Recognizes a file by its magic bytes and, for ZIP packages, by the
+ * `mimetype` entry or the OOXML main part's content type. The format is
+ * undefined when nothing matches; the probe then tells why.
+ */
+export const identifyFile = async (
+  file: File,
+  signal?: AbortSignal
+): Promise<{ format?: DocumentFormat; probe: FileProbe }> => {
+  const head = new Uint8Array(await abortable(file.slice(0, 1024).arrayBuffer(), signal));
+  const probe: FileProbe = { head };
+  if (startsWith(head, ZIP_MAGIC)) {
+    const zip = await abortable(JSZip.loadAsync(file), signal);
+    probe.zip = zip;
+    probe.mimetype = zip.files.mimetype ? (await zip.files.mimetype.async('string')).trim() : undefined;
+    probe.mainContentType = await mainContentType(zip);
+  }
+  return { format: DOCUMENT_FORMATS.find((format) => format.detect(probe)), probe };
+};
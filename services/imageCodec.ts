@@ -0,0 +1,93 @@
+/**
+ * Image decoding, resampling and encoding for the ZIP and PDF pipelines. The
+ * pipelines only talk to the functions below, which forward to the active
+ * `ImageCodec`: the canvas codec in browsers and workers, or whatever a
+ * headless host installs with `setImageCodec`.
+ */
+import { canvasCodec } from './canvasCodec';
+
+export interface CompressedImage {
+  blob: Blob;
+  /** MIME type the codec actually produced */
+  mime: string;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export interface CompressOptions {
+  /** Output codec; defaults to WebP for PNG/GIF sources and JPEG otherwise */
+  targetMime?: string;
+  /** Pixel box the image must still cover after downsampling */
+  maxSize?: { width: number; height: number };
+  /** Upper bound on width × height; larger images are scaled down to it */
+  maxPixels?: number;
+}
+
+/** Decoded 8-bit RGBA pixels, row-major */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * A platform's image primitives. Every implementation scales with
+ * `scaledSize`, flattens JPEG output onto white and leaves `quality` (10-100)
+ * to the encoder of the target format.
+ */
+export interface ImageCodec {
+  /** Decodes a compressed image and encodes it again as `targetMime` */
+  compressImage: (blob: Blob, quality: number, options?: CompressOptions) => Promise<CompressedImage>;
+  /** Encodes already-decoded pixels, with the same scaling rules as `compressImage` */
+  encodePixels: (image: RgbaImage, quality: number, options?: CompressOptions) => Promise<CompressedImage>;
+  /** Decodes a compressed bitmap into RGBA, optionally scaled to `size` */
+  decodeToPixels: (blob: Blob, size?: { width: number; height: number }) => Promise<RgbaImage>;
+  /** Resamples decoded pixels to another size */
+  resizePixels: (image: RgbaImage, width: number, height: number) => Promise<RgbaImage>;
+}
+
+let activeCodec: ImageCodec | undefined;
+
+/** Read on every call so the canvas default is only picked when nothing else was installed */
+const codec = () => activeCodec ?? canvasCodec;
+
+/** Replaces the canvas codec, e.g. with a native one when running outside a browser */
+export const setImageCodec = (next: ImageCodec) => {
+  activeCodec = next;
+};
+
+export const compressImage: ImageCodec['compressImage'] = (blob, quality, options) =>
+  codec().compressImage(blob, quality, options);
+
+export const encodePixels: ImageCodec['encodePixels'] = (image, quality, options) =>
+  codec().encodePixels(image, quality, options);
+
+export const decodeToPixels: ImageCodec['decodeToPixels'] = (blob, size) => codec().decodeToPixels(blob, size);
+
+export const resizePixels: ImageCodec['resizePixels'] = (image, width, height) =>
+  codec().resizePixels(image, width, height);
+
+/**
+ * Size of a `width` × `height` image scaled down (never up) so that it still
+ * covers `maxSize` and stays within `maxPixels`, with its aspect ratio kept
+ */
+export const scaledSize = (width: number, height: number, { maxSize, maxPixels }: CompressOptions) => {
+  const scale = Math.min(
+    1,
+    maxSize ? Math.max(maxSize.width / width, maxSize.height / height) : 1,
+    maxPixels ? Math.sqrt(maxPixels / (width * height)) : 1
+  );
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * True when at least one pixel is not fully opaque
+ */
+export const hasTransparency = ({ data }: RgbaImage): boolean => {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
@@ -0,0 +1,565 @@
+/**
+ * Decoders for image formats browsers do not reliably decode: BMP/DIB, TIFF,
+ * and the bitmap inside EMF/WMF metafiles. Documents converted from old HWP
+ * files carry many of these, often uncompressed.
+ */
+import pako from 'pako';
+import { RgbaImage } from './imageCodec';
+
+const BI_RGB = 0;
+const BI_RLE8 = 1;
+const BI_RLE4 = 2;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+interface DibHeader {
+  headerSize: number;
+  width: number;
+  height: number;
+  topDown: boolean;
+  bpp: number;
+  compression: number;
+  /** Red, green, blue and alpha masks for 16/32-bit images */
+  masks?: number[];
+  /** RGB triples */
+  palette: Uint8Array;
+  /** Offset of the pixel data in a packed DIB (header, masks, palette, bits) */
+  packedBitsOffset: number;
+}
+
+const readDibHeader = (info: Uint8Array): DibHeader => {
+  const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+  const headerSize = view.getUint32(0, true);
+  if (headerSize === 12) {
+    // OS/2 BITMAPCOREHEADER with 3-byte palette entries
+    const bpp = view.getUint16(10, true);
+    const colors = bpp <= 8 ? 1 << bpp : 0;
+    const palette = new Uint8Array(colors * 3);
+    for (let i = 0; i < colors; i++) {
+      const o = 12 + i * 3;
+      palette.set([info[o + 2], info[o + 1], info[o]], i * 3);
+    }
+    return {
+      headerSize,
+      width: view.getUint16(4, true),
+      height: view.getUint16(6, true),
+      topDown: false,
+      bpp,
+      compression: BI_RGB,
+      palette,
+      packedBitsOffset: 12 + colors * 3,
+    };
+  }
+  if (headerSize < 40) throw new Error(`Unsupported DIB header size ${headerSize}`);
+
+  const rawHeight = view.getInt32(8, true);
+  const bpp = view.getUint16(14, true);
+  const compression = view.getUint32(16, true);
+  let offset = headerSize;
+  let masks: number[] | undefined;
+  if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+    const count = compression === BI_ALPHABITFIELDS ? 4 : 3;
+    // V2+ headers carry the masks inside the header; plain BITMAPINFOHEADER appends them
+    const at = headerSize >= 52 ? 40 : headerSize;
+    masks = Array.from({ length: headerSize >= 56 ? 4 : count }, (_, i) => view.getUint32(at + i * 4, true));
+    if (headerSize === 40) offset += count * 4;
+  } else if (bpp === 16) {
+    masks = [0x7c00, 0x03e0, 0x001f, 0];
+  }
+
+  const clrUsed = view.getUint32(32, true);
+  const colors = bpp <= 8 ? clrUsed || 1 << bpp : clrUsed;
+  const palette = new Uint8Array(Math.min(colors, 256) * 3);
+  for (let i = 0; i < palette.length / 3; i++) {
+    const o = offset + i * 4;
+    if (o + 3 > info.length) break;
+    palette.set([info[o + 2], info[o + 1], info[o]], i * 3);
+  }
+  return {
+    headerSize,
+    width: view.getInt32(4, true),
+    height: Math.abs(rawHeight),
+    topDown: rawHeight < 0,
+    bpp,
+    compression,
+    masks,
+    palette,
+    packedBitsOffset: offset + colors * 4,
+  };
+};
+
+/** Expands RLE8/RLE4 data to one palette index per pixel, bottom-up rows */
+const decodeRle = (bits: Uint8Array, width: number, height: number, rle4: boolean): Uint8Array => {
+  const out = new Uint8Array(width * height);
+  let x = 0;
+  let y = 0;
+  let i = 0;
+  const put = (value: number) => {
+    if (x < width && y < height) out[y * width + x] = value;
+    x++;
+  };
+  while (i + 1 < bits.length && y < height) {
+    const count = bits[i++];
+    const value = bits[i++];
+    if (count > 0) {
+      for (let n = 0; n < count; n++) put(rle4 ? (n % 2 === 0 ? value >> 4 : value & 0x0f) : value);
+    } else if (value === 0) {
+      x = 0;
+      y++;
+    } else if (value === 1) {
+      break;
+    } else if (value === 2) {
+      x += bits[i++];
+      y += bits[i++];
+    } else {
+      // Absolute run, padded to a 16-bit boundary
+      const start = i;
+      for (let n = 0; n < value; n++) put(rle4 ? (n % 2 === 0 ? bits[i] >> 4 : bits[i++] & 0x0f) : bits[i++]);
+      if (rle4 && value % 2 === 1) i++;
+      if ((i - start) % 2 === 1) i++;
+    }
+  }
+  return out;
+};
+
+const maskShift = (mask: number) => {
+  let shift = 0;
+  while (shift < 32 && !((mask >>> shift) & 1)) shift++;
+  return shift;
+};
+
+const maskValue = (pixel: number, mask: number) => {
+  if (!mask) return 255;
+  const shift = maskShift(mask);
+  const max = mask >>> shift;
+  return Math.round((((pixel & mask) >>> shift) * 255) / max);
+};
+
+/**
+ * Decodes a device-independent bitmap. `bits` defaults to the data following
+ * the header, masks and palette (a packed DIB, as embedded in WMF records).
+ */
+export const decodeDib = (info: Uint8Array, bits?: Uint8Array): RgbaImage => {
+  const header = readDibHeader(info);
+  const { width, height, bpp, compression, palette } = header;
+  if (width <= 0 || height <= 0) throw new Error('Invalid bitmap dimensions');
+  const pixelData = bits ?? info.subarray(header.packedBitsOffset);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const rowOf = (y: number) => (header.topDown ? y : height - 1 - y);
+
+  const setIndex = (o: number, index: number) => {
+    const p = Math.min(index, palette.length / 3 - 1) * 3;
+    data[o] = palette[p];
+    data[o + 1] = palette[p + 1];
+    data[o + 2] = palette[p + 2];
+    data[o + 3] = 255;
+  };
+
+  if (compression === BI_RLE8 || compression === BI_RLE4) {
+    const indices = decodeRle(pixelData, width, height, compression === BI_RLE4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) setIndex((rowOf(y) * width + x) * 4, indices[y * width + x]);
+    }
+    return { width, height, data };
+  }
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    throw new Error(`Unsupported BMP compression ${compression}`);
+  }
+
+  const stride = Math.ceil((width * bpp) / 32) * 4;
+  if (pixelData.length < stride * (height - 1) + Math.ceil((width * bpp) / 8)) throw new Error('Bitmap data is truncated');
+  const view = new DataView(pixelData.buffer, pixelData.byteOffset, pixelData.byteLength);
+  const masks = header.masks ?? [0xff0000, 0x00ff00, 0x0000ff, 0];
+  let anyAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const out = rowOf(y) * width * 4;
+    for (let x = 0; x < width; x++) {
+      const o = out + x * 4;
+      switch (bpp) {
+        case 1: case 2: case 4: case 8: {
+          const bit = x * bpp;
+          setIndex(o, (pixelData[row + (bit >> 3)] >> (8 - bpp - (bit & 7))) & ((1 << bpp) - 1));
+          break;
+        }
+        case 16: case 32: {
+          const pixel = bpp === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+          data[o] = maskValue(pixel, masks[0]);
+          data[o + 1] = maskValue(pixel, masks[1]);
+          data[o + 2] = maskValue(pixel, masks[2]);
+          // Plain 32-bit BMPs usually leave the fourth byte zero; it only means alpha when it is used
+          data[o + 3] = bpp === 32 && compression === BI_RGB ? pixelData[row + x * 4 + 3] : maskValue(pixel, masks[3]);
+          if (data[o + 3] !== 0) anyAlpha = true;
+          break;
+        }
+        case 24:
+          data[o] = pixelData[row + x * 3 + 2];
+          data[o + 1] = pixelData[row + x * 3 + 1];
+          data[o + 2] = pixelData[row + x * 3];
+          data[o + 3] = 255;
+          break;
+        default:
+          throw new Error(`Unsupported BMP bit depth ${bpp}`);
+      }
+    }
+  }
+  if (bpp === 32 && compression === BI_RGB && !anyAlpha) {
+    for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  }
+  return { width, height, data };
+};
+
+/**
+ * Decodes a BMP file (BITMAPFILEHEADER followed by a DIB)
+ */
+export const decodeBmp = (bytes: Uint8Array): RgbaImage => {
+  if (bytes[0] !== 0x42 || bytes[1] !== 0x4d) throw new Error('Not a BMP file');
+  const pixelOffset = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(10, true);
+  return decodeDib(bytes.subarray(14), bytes.subarray(pixelOffset));
+};
+
+// TIFF tags
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+};
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const readIfd = (view: DataView, offset: number, little: boolean): Map<number, number[]> => {
+  const tags = new Map<number, number[]>();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type] ?? 1;
+    const at = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    const values: number[] = [];
+    for (let k = 0; k < n && at + (k + 1) * size <= view.byteLength; k++) {
+      const o = at + k * size;
+      if (type === 3 || type === 8) values.push(view.getUint16(o, little));
+      else if (type === 4 || type === 9) values.push(view.getUint32(o, little));
+      else if (type === 5) values.push(view.getUint32(o, little) / (view.getUint32(o + 4, little) || 1));
+      else values.push(view.getUint8(o));
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+const unpackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      out.set(input.subarray(i, i + n + 1).subarray(0, expected - o), o);
+      i += n + 1;
+      o += n + 1;
+    } else if (n !== -128) {
+      out.fill(input[i++], o, Math.min(expected, o + 1 - n));
+      o += 1 - n;
+    }
+  }
+  return out;
+};
+
+/** TIFF flavour of LZW: MSB-first codes that widen one code early */
+const lzwDecode = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let o = 0;
+  let bitPos = 0;
+  let width = 9;
+  let table: Uint8Array[] = [];
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => Uint8Array.of(i));
+    width = 9;
+  };
+  const readCode = () => {
+    let code = 0;
+    for (let b = 0; b < width; b++) {
+      const byte = input[(bitPos + b) >> 3] ?? 0;
+      code = (code << 1) | ((byte >> (7 - ((bitPos + b) & 7))) & 1);
+    }
+    bitPos += width;
+    return code;
+  };
+  const emit = (entry: Uint8Array) => {
+    out.set(entry.subarray(0, expected - o), o);
+    o += entry.length;
+  };
+
+  reset();
+  let previous: Uint8Array | undefined;
+  while (o < expected && bitPos + width <= input.length * 8) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) {
+      reset();
+      previous = undefined;
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) {
+        const added = new Uint8Array(previous.length + 1);
+        added.set(previous);
+        added[previous.length] = entry[0];
+        table.push(added);
+      }
+    } else if (previous) {
+      entry = new Uint8Array(previous.length + 1);
+      entry.set(previous);
+      entry[previous.length] = previous[0];
+      table.push(entry);
+    } else {
+      throw new Error('Corrupt LZW data');
+    }
+    emit(entry);
+    previous = entry;
+    if (table.length + 1 >= 1 << width && width < 12) width++;
+  }
+  return out;
+};
+
+const decompressTiff = (compression: number, input: Uint8Array, expected: number): Uint8Array => {
+  switch (compression) {
+    case 1: return input;
+    case 5: return lzwDecode(input, expected);
+    case 8: case 32946: return pako.inflate(input);
+    case 32773: return unpackBits(input, expected);
+    default: throw new Error(`Unsupported TIFF compression ${compression}`);
+  }
+};
+
+/**
+ * Decodes the first image of a baseline TIFF: strips or tiles, uncompressed,
+ * PackBits, LZW or Deflate, gray, palette, RGB or CMYK, with optional alpha
+ */
+export const decodeTiff = (bytes: Uint8Array): RgbaImage => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  if ((bytes[0] !== 0x49 && bytes[0] !== 0x4d) || view.getUint16(2, little) !== 42) throw new Error('Not a TIFF file');
+  const tags = readIfd(view, view.getUint32(4, little), little);
+  const one = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+  const width = one(TAG.width, 0);
+  const height = one(TAG.height, 0);
+  if (width <= 0 || height <= 0) throw new Error('Invalid TIFF dimensions');
+  const spp = one(TAG.samplesPerPixel, 1);
+  const bps = one(TAG.bitsPerSample, 1);
+  const compression = one(TAG.compression, 1);
+  const photometric = one(TAG.photometric, 1);
+  const predictor = one(TAG.predictor, 1);
+  if (one(TAG.planarConfig, 1) !== 1 && spp > 1) throw new Error('Planar TIFF is not supported');
+  if (![1, 2, 4, 8, 16].includes(bps)) throw new Error(`Unsupported TIFF bit depth ${bps}`);
+
+  const tiled = tags.has(TAG.tileOffsets);
+  const blockWidth = tiled ? one(TAG.tileWidth, width) : width;
+  const blockHeight = tiled ? one(TAG.tileLength, height) : Math.min(one(TAG.rowsPerStrip, height), height);
+  const offsets = tags.get(tiled ? TAG.tileOffsets : TAG.stripOffsets) ?? [];
+  const counts = tags.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts) ?? [];
+  const blockRowBytes = Math.ceil((blockWidth * spp * bps) / 8);
+  const rowBytes = Math.ceil((width * spp * bps) / 8);
+  const samples = new Uint8Array(rowBytes * height);
+  const bytesPerSample = bps / 8;
+  const across = Math.ceil(width / blockWidth);
+
+  offsets.forEach((offset, b) => {
+    const raw = decompressTiff(compression, bytes.subarray(offset, offset + (counts[b] ?? 0)), blockRowBytes * blockHeight);
+    const left = (b % across) * blockWidth;
+    const top = Math.floor(b / across) * blockHeight;
+    for (let r = 0; r < blockHeight && top + r < height; r++) {
+      const row = raw.subarray(r * blockRowBytes, (r + 1) * blockRowBytes);
+      if (predictor === 2 && bps >= 8) {
+        const step = spp * bytesPerSample;
+        for (let i = step; i < row.length; i++) {
+          // 16-bit differences carry between bytes; they are undone on the high byte only, which is what is kept
+          row[i] = (row[i] + row[i - step]) & 0xff;
+        }
+      }
+      const startByte = Math.floor((left * spp * bps) / 8);
+      const length = Math.min(blockRowBytes, rowBytes - startByte);
+      samples.set(row.subarray(0, length), (top + r) * rowBytes + startByte);
+    }
+  });
+
+  const maxValue = (1 << Math.min(bps, 8)) - 1;
+  const sample = (y: number, index: number) => {
+    const row = y * rowBytes;
+    if (bps === 16) return samples[row + index * 2 + (little ? 1 : 0)];
+    if (bps === 8) return samples[row + index];
+    const bit = index * bps;
+    return (samples[row + (bit >> 3)] >> (8 - bps - (bit & 7))) & maxValue;
+  };
+  const scale = (v: number) => (bps >= 8 ? v : Math.round((v * 255) / maxValue));
+
+  const colorMap = tags.get(TAG.colorMap);
+  const colorChannels = photometric === 2 ? 3 : photometric === 5 ? 4 : 1;
+  const hasAlpha = spp > colorChannels;
+  const premultiplied = hasAlpha && tags.get(TAG.extraSamples)?.[0] === 1;
+  if (![0, 1, 2, 3, 5].includes(photometric)) throw new Error(`Unsupported TIFF photometric ${photometric}`);
+  if (photometric === 3 && !colorMap) throw new Error('Palette TIFF without color map');
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const base = x * spp;
+      switch (photometric) {
+        case 0: case 1: {
+          const v = scale(sample(y, base));
+          data[o] = data[o + 1] = data[o + 2] = photometric === 0 ? 255 - v : v;
+          break;
+        }
+        case 2:
+          data[o] = scale(sample(y, base));
+          data[o + 1] = scale(sample(y, base + 1));
+          data[o + 2] = scale(sample(y, base + 2));
+          break;
+        case 3: {
+          const index = sample(y, base);
+          const entries = colorMap!.length / 3;
+          data[o] = colorMap![index] >> 8;
+          data[o + 1] = colorMap![entries + index] >> 8;
+          data[o + 2] = colorMap![entries * 2 + index] >> 8;
+          break;
+        }
+        case 5: {
+          const k = 255 - scale(sample(y, base + 3));
+          data[o] = ((255 - scale(sample(y, base))) * k) / 255;
+          data[o + 1] = ((255 - scale(sample(y, base + 1))) * k) / 255;
+          data[o + 2] = ((255 - scale(sample(y, base + 2))) * k) / 255;
+          break;
+        }
+      }
+      const alpha = hasAlpha ? scale(sample(y, base + colorChannels)) : 255;
+      data[o + 3] = alpha;
+      if (premultiplied && alpha > 0 && alpha < 255) {
+        for (let c = 0; c < 3; c++) data[o + c] = (data[o + c] * 255) / alpha;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+/** EMF records that only set state or comments and never draw */
+const EMF_STATE_RECORDS = new Set([
+  1, 9, 10, 11, 12, 13, 14, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 28, 29, 30,
+  33, 34, 35, 36, 37, 38, 39, 40, 58, 70, 75, 98, 115,
+]);
+const EMR_BITBLT = 76;
+const EMR_STRETCHBLT = 77;
+const EMR_SETDIBITSTODEVICE = 80;
+const EMR_STRETCHDIBITS = 81;
+
+/** WMF records that only set state and never draw */
+const WMF_STATE_RECORDS = new Set([
+  0x0000, 0x001e, 0x0035, 0x00f7, 0x0102, 0x0103, 0x0104, 0x0105, 0x0106, 0x0107, 0x0127, 0x012d, 0x012e,
+  0x01f0, 0x0201, 0x0209, 0x020b, 0x020c, 0x020d, 0x020e, 0x0231, 0x0234, 0x02fa, 0x02fb, 0x02fc, 0x0416, 0x0626,
+]);
+/** WMF bitmap records and the size of their parameters before the packed DIB */
+const WMF_BITMAP_RECORDS = new Map([
+  [0x0940, 16], // META_DIBBITBLT
+  [0x0b41, 20], // META_DIBSTRETCHBLT
+  [0x0f43, 22], // META_STRETCHDIB
+]);
+
+const emfBitmap = (bytes: Uint8Array): RgbaImage | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let found: RgbaImage | undefined;
+  for (let offset = 0; offset + 8 <= bytes.length;) {
+    const type = view.getUint32(offset, true);
+    const size = view.getUint32(offset + 4, true);
+    if (size < 8 || offset + size > bytes.length) throw new Error('Corrupt EMF record');
+
+    if (type === EMR_STRETCHDIBITS || type === EMR_SETDIBITSTODEVICE || type === EMR_BITBLT || type === EMR_STRETCHBLT) {
+      if (found) return undefined;
+      const fields = type === EMR_BITBLT || type === EMR_STRETCHBLT ? 84 : 48;
+      const offBmi = view.getUint32(offset + fields, true);
+      const cbBmi = view.getUint32(offset + fields + 4, true);
+      const offBits = view.getUint32(offset + fields + 8, true);
+      const cbBits = view.getUint32(offset + fields + 12, true);
+      // A BitBlt without a source bitmap is a pattern fill
+      if (cbBmi === 0) return undefined;
+      found = decodeDib(
+        bytes.subarray(offset + offBmi, offset + offBmi + cbBmi),
+        bytes.subarray(offset + offBits, offset + offBits + cbBits)
+      );
+    } else if (!EMF_STATE_RECORDS.has(type)) {
+      return undefined;
+    }
+    if (type === 14) break;
+    offset += size;
+  }
+  return found;
+};
+
+const wmfBitmap = (bytes: Uint8Array): RgbaImage | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // Aldus placeable header
+  let offset = view.getUint32(0, true) === 0x9ac6cdd7 ? 22 : 0;
+  offset += view.getUint16(offset + 2, true) * 2;
+  let found: RgbaImage | undefined;
+  while (offset + 6 <= bytes.length) {
+    const size = view.getUint32(offset, true) * 2;
+    const fn = view.getUint16(offset + 4, true);
+    if (size < 6 || offset + size > bytes.length) throw new Error('Corrupt WMF record');
+    if (fn === 0x0000) break;
+
+    const params = WMF_BITMAP_RECORDS.get(fn);
+    if (params !== undefined) {
+      if (found || size <= 6 + params) return undefined;
+      found = decodeDib(bytes.subarray(offset + 6 + params, offset + size));
+    } else if (!WMF_STATE_RECORDS.has(fn)) {
+      return undefined;
+    }
+    offset += size;
+  }
+  return found;
+};
+
+/**
+ * The single bitmap an EMF or WMF file consists of, as produced when HWP or
+ * Office converts a pasted picture. Returns undefined when the metafile also
+ * draws vector content, which would need a full metafile renderer.
+ */
+export const extractMetafileBitmap = (bytes: Uint8Array, kind: 'emf' | 'wmf'): RgbaImage | undefined =>
+  kind === 'emf' ? emfBitmap(bytes) : wmfBitmap(bytes);
+
+/** EMF and WMF entries, which hold drawing commands rather than pixels */
+export const isMetafile = (path: string) => /\.(emf|wmf)$/i.test(path);
+
+/** Formats decoded here instead of by the browser */
+export const isLegacyImage = (path: string) => /\.(bmp|tiff?|emf|wmf)$/i.test(path);
+
+/**
+ * Pixels of a BMP, TIFF or bitmap-only metafile entry. Undefined for a
+ * metafile with vector content; throws for data the decoders do not support.
+ */
+export const decodeLegacyImage = (path: string, bytes: Uint8Array): RgbaImage | undefined => {
+  const extension = path.split('.').pop()!.toLowerCase();
+  if (extension === 'bmp') return decodeBmp(bytes);
+  if (extension === 'emf' || extension === 'wmf') return extractMetafileBitmap(bytes, extension);
+  return decodeTiff(bytes);
+};
@@ -0,0 +1,270 @@
+import JSZip from 'jszip';
+import { MediaCleanupEntry } from '../types';
+import {
+  odfContentParts,
+  odfReferences,
+  PackageFlavor,
+  packageFlavor,
+  patchTags,
+  rewriteOdfHrefs,
+  rewriteXml
+} from './packageRewriter';
+import {
+  dirName,
+  findElements,
+  getAttr,
+  relativePartPath,
+  relsSource,
+  removeElements,
+  resolvePartPath,
+  setAttr
+} from './xmlUtils';
+
+const OOXML_MEDIA = /(^|\/)media\/[^/]+$/;
+const HWPX_MEDIA = /^BinData\/[^/]+$/;
+const ODF_MEDIA = /(^|\/)Pictures\/[^/]+$/;
+const HWPX_MANIFEST = /(^|\/)content\.hpf$/i;
+const CONTAINER_MANIFEST = 'META-INF/manifest.xml';
+
+const ATTRIBUTE = /\s([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const BINARY_ITEM_REF = /(\s(?:[\w.-]+:)?binaryItemIDRef\s*=\s*")([^"]*)(")/g;
+
+interface MediaGraph {
+  /** Media entries in package order */
+  media: string[];
+  referenced: Set<string>;
+  /** Whether every reference to `path` can be rewritten to point at `into` */
+  canMerge: (path: string, into: string) => boolean;
+}
+
+const relsFiles = (zip: JSZip) => Object.keys(zip.files).filter((p) => /(^|\/)_rels\/[^/]*\.rels$/.test(p));
+
+/**
+ * OOXML media is referenced only through relationships. Relationship files
+ * whose part no longer exists are leftovers and do not count.
+ */
+const ooxmlGraph = async (zip: JSZip): Promise<MediaGraph> => {
+  const referenced = new Set<string>();
+  for (const relsPath of relsFiles(zip)) {
+    const source = relsSource(relsPath);
+    if (source && !zip.files[source]) continue;
+    const xml = await zip.files[relsPath].async('string');
+    for (const rel of findElements(xml, 'Relationship')) {
+      if (rel.attrs.TargetMode === 'External' || !rel.attrs.Target) continue;
+      referenced.add(resolvePartPath(dirName(source), rel.attrs.Target));
+    }
+  }
+  const media = Object.keys(zip.files).filter((p) => !zip.files[p].dir && OOXML_MEDIA.test(p));
+  return { media, referenced, canMerge: () => true };
+};
+
+/** Manifest items as `{ id, path }`, resolving hrefs the way `readHwpxManifest` does */
+const hwpxItems = async (zip: JSZip, manifestPath: string) => {
+  const xml = await zip.files[manifestPath].async('string');
+  return findElements(xml, 'item').flatMap((item) => {
+    const id = getAttr(item.attrs, 'id');
+    const href = getAttr(item.attrs, 'href');
+    if (!id || !href) return [];
+    return [{ id, path: zip.files[href] ? href : resolvePartPath(dirName(manifestPath), href) }];
+  });
+};
+
+/** Every XML part that may point at binary items: all of them except the two manifests */
+const hwpxContentParts = (zip: JSZip, manifestPath?: string) =>
+  Object.keys(zip.files).filter((p) => /\.xml$/i.test(p) && p !== manifestPath && p !== CONTAINER_MANIFEST);
+
+/**
+ * HWPX sections and the header point at `BinData` through manifest item ids in
+ * `binaryItemIDRef`. Any other attribute carrying an item id or path also
+ * counts as a reference, but such entries are never merged because only
+ * `binaryItemIDRef` is known well enough to rewrite.
+ */
+const hwpxGraph = async (zip: JSZip): Promise<MediaGraph> => {
+  const manifestPath = Object.keys(zip.files).find((p) => HWPX_MANIFEST.test(p));
+  const items = manifestPath ? await hwpxItems(zip, manifestPath) : [];
+  const binaryRefs = new Set<string>();
+  const otherValues = new Set<string>();
+
+  for (const part of hwpxContentParts(zip, manifestPath)) {
+    const xml = await zip.files[part].async('string');
+    for (const match of xml.matchAll(ATTRIBUTE)) {
+      const value = match[2] ?? match[3];
+      if (/(^|:)binaryItemIDRef$/.test(match[1])) binaryRefs.add(value);
+      else otherValues.add(value);
+    }
+  }
+
+  const idsOf = (path: string) => items.filter((item) => item.path === path).map((item) => item.id);
+  const referenced = new Set<string>();
+  const media = Object.keys(zip.files).filter((p) => !zip.files[p].dir && HWPX_MEDIA.test(p));
+  for (const path of media) {
+    if (otherValues.has(path) || idsOf(path).some((id) => binaryRefs.has(id) || otherValues.has(id))) {
+      referenced.add(path);
+    }
+  }
+  const canMerge = (path: string, into: string) => {
+    const ids = idsOf(path);
+    return ids.length > 0 && idsOf(into).length > 0
+      && !otherValues.has(path) && !ids.some((id) => otherValues.has(id));
+  };
+  return { media, referenced, canMerge };
+};
+
+/**
+ * ODF content, styles and embedded objects point at `Pictures` by path in
+ * `xlink:href`, which is rewritten directly, so any duplicate can be merged
+ */
+const odfGraph = async (zip: JSZip): Promise<MediaGraph> => {
+  const referenced = new Set<string>();
+  for (const part of odfContentParts(zip)) {
+    const xml = await zip.files[part].async('string');
+    odfReferences(xml, part).forEach(({ path }) => referenced.add(path));
+  }
+  const media = Object.keys(zip.files).filter((p) => !zip.files[p].dir && ODF_MEDIA.test(p));
+  return { media, referenced, canMerge: () => true };
+};
+
+const GRAPHS: Record<PackageFlavor, (zip: JSZip) => Promise<MediaGraph>> = {
+  ooxml: ooxmlGraph,
+  odf: odfGraph,
+  hwpx: hwpxGraph,
+};
+
+const sha256 = async (data: Uint8Array) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Lists media entries of an HWPX, OOXML or ODF package that no part references,
+ * and referenced entries that are byte-identical to an earlier one. Nothing
+ * is changed; the list is what `applyMediaCleanup` removes.
+ */
+export const planMediaCleanup = async (zip: JSZip): Promise<MediaCleanupEntry[]> => {
+  const graph = await GRAPHS[packageFlavor(zip)](zip);
+  const sizes = new Map<string, number>();
+  for (const path of graph.media) {
+    sizes.set(path, (await zip.files[path].async('uint8array')).length);
+  }
+
+  const entries: MediaCleanupEntry[] = [];
+  // Only entries that share their size with another one are worth hashing
+  const bySize = new Map<number, string[]>();
+  for (const path of graph.media) {
+    if (!graph.referenced.has(path)) {
+      entries.push({ path, bytes: sizes.get(path)!, reason: 'unused' });
+      continue;
+    }
+    const size = sizes.get(path)!;
+    if (size > 0) bySize.set(size, [...(bySize.get(size) ?? []), path]);
+  }
+
+  for (const [size, paths] of bySize) {
+    if (paths.length < 2) continue;
+    const firstByHash = new Map<string, string>();
+    for (const path of paths) {
+      const hash = await sha256(await zip.files[path].async('uint8array'));
+      const first = firstByHash.get(hash);
+      if (!first) {
+        firstByHash.set(hash, path);
+      } else if (graph.canMerge(path, first)) {
+        entries.push({ path, bytes: size, reason: 'duplicate', duplicateOf: first });
+      }
+    }
+  }
+
+  const order = new Map(graph.media.map((path, index) => [path, index]));
+  return entries.sort((a, b) => order.get(a.path)! - order.get(b.path)!);
+};
+
+const cleanOoxml = async (zip: JSZip, removed: Set<string>, duplicates: Map<string, string>) => {
+  await rewriteXml(zip, '[Content_Types].xml', (xml) => removeElements(
+    xml,
+    findElements(xml, 'Override').filter((el) => removed.has((el.attrs.PartName ?? '').replace(/^\//, '')))
+  ));
+
+  for (const relsPath of relsFiles(zip)) {
+    const sourceDir = dirName(relsSource(relsPath));
+    await rewriteXml(zip, relsPath, (xml) => patchTags(
+      xml,
+      findElements(xml, 'Relationship')
+        .filter((el) => el.attrs.TargetMode !== 'External'
+          && el.attrs.Target
+          && duplicates.has(resolvePartPath(sourceDir, el.attrs.Target)))
+        .map((el) => {
+          const kept = duplicates.get(resolvePartPath(sourceDir, el.attrs.Target))!;
+          const target = el.attrs.Target.startsWith('/') ? `/${kept}` : relativePartPath(sourceDir, kept);
+          return { ...el, newTag: setAttr(el.openTag, 'Target', target) };
+        })
+    ));
+  }
+};
+
+const cleanContainerManifest = async (zip: JSZip, removed: Set<string>) => {
+  if (!zip.files[CONTAINER_MANIFEST]) return;
+  await rewriteXml(zip, CONTAINER_MANIFEST, (xml) => removeElements(
+    xml,
+    findElements(xml, 'file-entry').filter((el) => removed.has(getAttr(el.attrs, 'full-path') ?? ''))
+  ));
+};
+
+const cleanHwpx = async (zip: JSZip, removed: Set<string>, duplicates: Map<string, string>) => {
+  const manifestPath = Object.keys(zip.files).find((p) => HWPX_MANIFEST.test(p));
+  if (manifestPath) {
+    const items = await hwpxItems(zip, manifestPath);
+    const idOf = (path: string) => items.find((item) => item.path === path)?.id;
+    const redirects = new Map<string, string>();
+    duplicates.forEach((kept, path) => {
+      const keptId = idOf(kept);
+      if (!keptId) return;
+      items.filter((item) => item.path === path).forEach((item) => redirects.set(item.id, keptId));
+    });
+
+    for (const part of hwpxContentParts(zip, manifestPath)) {
+      await rewriteXml(zip, part, (xml) => xml.replace(
+        BINARY_ITEM_REF,
+        (match, before: string, id: string, after: string) => redirects.has(id) ? before + redirects.get(id) + after : match
+      ));
+    }
+
+    await rewriteXml(zip, manifestPath, (xml) => removeElements(
+      xml,
+      findElements(xml, 'item').filter((el) => {
+        const href = getAttr(el.attrs, 'href');
+        return !!href && (removed.has(href) || removed.has(resolvePartPath(dirName(manifestPath), href)));
+      })
+    ));
+  }
+
+  await cleanContainerManifest(zip, removed);
+};
+
+const cleanOdf = async (zip: JSZip, removed: Set<string>, duplicates: Map<string, string>) => {
+  await rewriteOdfHrefs(zip, (path, _, baseDir) => {
+    const kept = duplicates.get(path);
+    return kept ? relativePartPath(baseDir, kept) : undefined;
+  });
+  await cleanContainerManifest(zip, removed);
+};
+
+const CLEANERS: Record<PackageFlavor, typeof cleanOoxml> = {
+  ooxml: cleanOoxml,
+  odf: cleanOdf,
+  hwpx: cleanHwpx,
+};
+
+/**
+ * Deletes the entries listed by `planMediaCleanup` and points every reference
+ * to a duplicate at the copy that is kept, including manifest and
+ * content-type declarations.
+ */
+export const applyMediaCleanup = async (zip: JSZip, entries: MediaCleanupEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const removed = new Set(entries.map((entry) => entry.path));
+  const duplicates = new Map(
+    entries.filter((entry) => entry.duplicateOf).map((entry) => [entry.path, entry.duplicateOf!])
+  );
+
+  await CLEANERS[packageFlavor(zip)](zip, removed, duplicates);
+  removed.forEach((path) => zip.remove(path));
+};
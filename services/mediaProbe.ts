@@ -0,0 +1,216 @@
+/**
+ * Header-only probes for the audio and video containers PowerPoint embeds.
+ * Nothing is decoded; durations come from what the container declares.
+ */
+
+export type MediaKind = 'video' | 'audio';
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'wmv', 'asf', 'avi', 'mpg', 'mpeg', 'mkv', 'webm', 'swf'];
+const AUDIO_EXTENSIONS = ['wav', 'mp3', 'm4a', 'wma', 'aac', 'aif', 'aiff', 'mid', 'midi', 'au'];
+
+const extensionOf = (path: string) => path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+
+/** Video or audio by file extension; undefined for anything else */
+export const mediaKindOf = (path: string): MediaKind | undefined => {
+  const extension = extensionOf(path);
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+  if (AUDIO_EXTENSIONS.includes(extension)) return 'audio';
+  return undefined;
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/** RIFF chunks of a WAVE or AVI file at the given level, as `{ id, offset, size }` of each body */
+const riffChunks = (view: DataView, start: number, end: number) => {
+  const chunks: { id: string; offset: number; size: number }[] = [];
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  for (let offset = start; offset + 8 <= end;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id: ascii(bytes, offset, 4), offset: offset + 8, size: Math.min(size, end - offset - 8) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+/** Interleaved PCM or float samples of a WAVE file, read one block at a time */
+export interface WavAudio {
+  sampleRate: number;
+  channels: number;
+  frames: number;
+  /** `count` frames from `start` as one Float32Array per channel, scaled to -1..1 */
+  read: (start: number, count: number) => Float32Array[];
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/** Uncompressed WAVE audio; undefined for compressed WAVE variants (ADPCM, MP3 in WAV, ...) */
+export const readWav = (bytes: Uint8Array): WavAudio | undefined => {
+  if (bytes.length < 12 || ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WAVE') return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks = riffChunks(view, 12, bytes.length);
+  const fmt = chunks.find((chunk) => chunk.id === 'fmt ');
+  const data = chunks.find((chunk) => chunk.id === 'data');
+  if (!fmt || !data || fmt.size < 16) return undefined;
+
+  let format = view.getUint16(fmt.offset, true);
+  const channels = view.getUint16(fmt.offset + 2, true);
+  const sampleRate = view.getUint32(fmt.offset + 4, true);
+  const blockAlign = view.getUint16(fmt.offset + 12, true);
+  const bits = view.getUint16(fmt.offset + 14, true);
+  // The sub-format GUID starts with the plain format code
+  if (format === WAVE_FORMAT_EXTENSIBLE && fmt.size >= 40) format = view.getUint16(fmt.offset + 24, true);
+
+  const isFloat = format === WAVE_FORMAT_IEEE_FLOAT && bits === 32;
+  if (!(format === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bits)) && !isFloat) return undefined;
+  if (channels === 0 || sampleRate === 0 || blockAlign < channels * (bits / 8)) return undefined;
+
+  const bytesPerSample = bits / 8;
+  const sample = (offset: number): number => {
+    if (isFloat) return view.getFloat32(offset, true);
+    switch (bits) {
+      case 8: return (view.getUint8(offset) - 128) / 128;
+      case 16: return view.getInt16(offset, true) / 32768;
+      case 24: return (((view.getUint8(offset + 2) << 24) | (view.getUint8(offset + 1) << 16) | (view.getUint8(offset) << 8)) >> 8) / 8388608;
+      default: return view.getInt32(offset, true) / 2147483648;
+    }
+  };
+
+  const frames = Math.floor(data.size / blockAlign);
+  return {
+    sampleRate,
+    channels,
+    frames,
+    read: (start, count) => {
+      const length = Math.max(0, Math.min(count, frames - start));
+      const planes = Array.from({ length: channels }, () => new Float32Array(length));
+      for (let frame = 0; frame < length; frame++) {
+        const offset = data.offset + (start + frame) * blockAlign;
+        for (let channel = 0; channel < channels; channel++) {
+          planes[channel][frame] = sample(offset + channel * bytesPerSample);
+        }
+      }
+      return planes;
+    },
+  };
+};
+
+const wavDuration = (bytes: Uint8Array) => {
+  if (ascii(bytes, 8, 4) !== 'WAVE') return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks = riffChunks(view, 12, bytes.length);
+  const fmt = chunks.find((chunk) => chunk.id === 'fmt ');
+  const data = chunks.find((chunk) => chunk.id === 'data');
+  const byteRate = fmt && fmt.size >= 16 ? view.getUint32(fmt.offset + 8, true) : 0;
+  return data && byteRate > 0 ? data.size / byteRate : undefined;
+};
+
+const aviDuration = (bytes: Uint8Array) => {
+  // `avih` sits in the first LIST chunk; scanning the head is enough
+  const head = ascii(bytes, 0, Math.min(bytes.length, 4096));
+  const index = head.indexOf('avih');
+  if (index < 0 || index + 32 > bytes.length) return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const microSecondsPerFrame = view.getUint32(index + 8, true);
+  const totalFrames = view.getUint32(index + 24, true);
+  return microSecondsPerFrame > 0 ? (microSecondsPerFrame * totalFrames) / 1e6 : undefined;
+};
+
+/** ISO base media (MP4, M4A, MOV): `mvhd` in the `moov` box */
+const isoDuration = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes = function* (start: number, end: number) {
+    for (let offset = start; offset + 8 <= end;) {
+      let size = view.getUint32(offset);
+      let header = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) return;
+      yield { type: ascii(bytes, offset + 4, 4), body: offset + header, end: Math.min(offset + size, end) };
+      offset += size;
+    }
+  };
+  for (const box of boxes(0, bytes.length)) {
+    if (box.type !== 'moov') continue;
+    for (const child of boxes(box.body, box.end)) {
+      if (child.type !== 'mvhd') continue;
+      const version = view.getUint8(child.body);
+      const timescale = view.getUint32(child.body + (version === 1 ? 20 : 12));
+      const duration = version === 1 ? Number(view.getBigUint64(child.body + 24)) : view.getUint32(child.body + 16);
+      return timescale > 0 ? duration / timescale : undefined;
+    }
+  }
+  return undefined;
+};
+
+const guid = (bytes: Uint8Array, offset: number) =>
+  Array.from(bytes.subarray(offset, offset + 16), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const ASF_HEADER = '3026b2758e66cf11a6d900aa0062ce6c';
+const ASF_FILE_PROPERTIES = 'a1dcab8c47a9cf118ee400c00c205365';
+
+/** ASF (WMV, WMA): play duration in the File Properties object, minus the preroll */
+const asfDuration = (bytes: Uint8Array) => {
+  if (bytes.length < 30 || guid(bytes, 0) !== ASF_HEADER) return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const count = view.getUint32(24, true);
+  let offset = 30;
+  for (let i = 0; i < count && offset + 24 <= bytes.length; i++) {
+    const size = Number(view.getBigUint64(offset + 16, true));
+    if (guid(bytes, offset) === ASF_FILE_PROPERTIES && offset + 88 <= bytes.length) {
+      const playDuration = Number(view.getBigUint64(offset + 64, true)) / 1e7;
+      const preroll = Number(view.getBigUint64(offset + 80, true)) / 1000;
+      return Math.max(0, playDuration - preroll);
+    }
+    if (size < 24) break;
+    offset += size;
+  }
+  return undefined;
+};
+
+const MP3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+/** MPEG-1 Layer III: frame count from a Xing/Info header, else assume constant bitrate */
+const mp3Duration = (bytes: Uint8Array) => {
+  let offset = 0;
+  if (ascii(bytes, 0, 3) === 'ID3' && bytes.length > 10) {
+    offset = 10 + (((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f));
+  }
+  while (offset + 4 < bytes.length && !(bytes[offset] === 0xff && (bytes[offset + 1] & 0xfe) === 0xfa)) offset++;
+  if (offset + 4 >= bytes.length) return undefined;
+  const bitrate = MP3_BITRATES[bytes[offset + 2] >> 4];
+  const sampleRate = MP3_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 3];
+  if (!bitrate || !sampleRate) return undefined;
+
+  const mono = (bytes[offset + 3] >> 6) === 3;
+  const xing = offset + 4 + (mono ? 17 : 32);
+  const tag = ascii(bytes, xing, 4);
+  if ((tag === 'Xing' || tag === 'Info') && bytes[xing + 7] & 1) {
+    const frames = new DataView(bytes.buffer, bytes.byteOffset).getUint32(xing + 8);
+    return (frames * 1152) / sampleRate;
+  }
+  return ((bytes.length - offset) * 8) / (bitrate * 1000);
+};
+
+/** Duration in seconds as declared by the container, when it is one we can read */
+export const probeDuration = (path: string, bytes: Uint8Array): number | undefined => {
+  try {
+    if (bytes.length < 12) return undefined;
+    if (ascii(bytes, 0, 4) === 'RIFF') {
+      return ascii(bytes, 8, 4) === 'AVI ' ? aviDuration(bytes) : wavDuration(bytes);
+    }
+    if (guid(bytes, 0) === ASF_HEADER) return asfDuration(bytes);
+    if (['ftyp', 'moov', 'mdat', 'wide', 'free'].includes(ascii(bytes, 4, 4))) return isoDuration(bytes);
+    if (extensionOf(path) === 'mp3') return mp3Duration(bytes);
+  } catch {
+    // Truncated or odd headers just leave the duration unknown
+  }
+  return undefined;
+};
@@ -0,0 +1,51 @@
+/**
+ * Worker entry point: optimizes documents off the main thread and keeps them
+ * parsed for re-runs and previews
+ */
+import { OptimizationResult } from '../types';
+import { abandonedWork } from './abort';
+import { optimizeFile, previewAsset, reoptimizeSession } from './batchService';
+import { releaseSession } from './sessionStore';
+import type { WorkerRequest, WorkerResponse } from './workerPool';
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => postMessage(message, { transfer });
+
+/** In-flight requests, so a cancel message can reach the right job */
+const controllers = new Map<number, AbortController>();
+
+const postResult = async (id: number, { blob, ...result }: OptimizationResult) => {
+  const buffer = await blob.arrayBuffer();
+  post({ id, type: 'done', result, buffer, mime: blob.type }, [buffer]);
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+  if (request.type === 'release') {
+    releaseSession(request.sessionId);
+    return;
+  }
+
+  const { id } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  const onProgress = (progress: number) => post({ id, type: 'progress', progress });
+  try {
+    if (request.type === 'optimize') {
+      await postResult(id, await optimizeFile(request.file, request.options, onProgress, controller.signal));
+    } else if (request.type === 'reoptimize') {
+      await postResult(id, await reoptimizeSession(request.sessionId, request.options, onProgress, controller.signal));
+    } else {
+      post({ id, type: 'preview', preview: await previewAsset(request.sessionId, request.assetId) });
+    }
+  } catch (err: any) {
+    // The pool reuses this worker once a cancelled job answers, so first wait for what the job could not interrupt
+    if (controller.signal.aborted) await abandonedWork();
+    post({ id, type: 'error', message: err?.message || String(err) });
+  } finally {
+    controllers.delete(id);
+  }
+};
@@ -1,245 +1,1004 @@
-
 import JSZip from 'jszip';
-import { PDFDocument, PDFName, PDFRawStream, PDFDict, PDFRef } from 'pdf-lib';
-import { OptimizationResult } from '../types';
+import { PDFDocument, PDFName, PDFRawStream, PDFRef } from 'pdf-lib';
+import {
+  AssetPreview,
+  AssetReport,
+  AssetStatus,
+  FontReport,
+  MediaCleanupEntry,
+  MediaReport,
+  OptimizationOptions,
+  OptimizationResult,
+  PrivacyEntry,
+  VerificationReport
+} from '../types';
+import { abortable, isAbortError } from './abort';
+import { canEncodeAac, encodeAacM4a } from './audioEncoder';
+import {
+  CompressedImage,
+  compressImage,
+  decodeToPixels,
+  encodePixels,
+  hasTransparency,
+  RgbaImage
+} from './imageCodec';
+import { defaultConcurrency, mapWithConcurrency } from './concurrency';
+import { applyCropTrims, cropPixels, CropTrim, cropTrimFor, planCropTrims } from './cropTrim';
+import {
+  collectDisplaySizes,
+  CropFractions,
+  DisplayBox,
+  DisplaySizeMap,
+  mergeDuplicateSizes,
+  pixelsForDpi
+} from './displaySize';
+import { decodeLegacyImage, isLegacyImage, isMetafile } from './legacyImages';
+import { applyMediaCleanup, planMediaCleanup } from './mediaCleanup';
+import { readWav } from './mediaProbe';
+import { extensionOf, mimeFromPath, replacePackageMedia } from './packageRewriter';
+import { checkPackage, checkPdf, ExpectedImage, issueText, VerificationIssue, verifyPackage, verifyPdf } from './outputVerifier';
+import { fitsPalette } from './paletteQuantizer';
+import { compressPng } from './pngEncoder';
+import { cleanPdfStructure } from './pdfCleanup';
+import { collectImageRefs } from './pdfGraph';
+import { SCRUB_ONLY_PDF_CLEANUP, scrubbedPdfCleanup, scrubPackage, scrubPdf } from './privacyScrub';
+import { analyzePdfFonts, applyPdfFontSubset, PdfFontProgram, subsetPdfFont, SubsetPdfFont } from './pdfFonts';
+import { EmbeddedFontPart, listEmbeddedFonts, removeEmbeddedFonts } from './pptxFonts';
+import { EmbeddedMediaPart, listEmbeddedMedia, stripEmbeddedMedia } from './pptxMedia';
+import { searchQuality } from './qualityGuard';
+import {
+  describePdfImage,
+  previewPdfImage,
+  ReencodedPdfImage,
+  reencodePdfImage,
+  replacementSize,
+  replacePdfImage
+} from './pdfImageCodec';
+import { captureLayout, cloneContainer, loadedEntrySize, markUnreadable, writeContainer } from './zipWriter';
 
 /**
- * Compresses an image blob using Canvas API while preserving transparency for PNG/GIF
+ * A parsed document that can be optimized repeatedly. Encodings are cached per
+ * asset and settings, so a run that only changes some assets' overrides
+ * re-encodes just those and reuses the rest.
  */
-async function compressImage(blob: Blob, quality: number): Promise<Blob> {
-  const originalType = blob.type;
-  const isTransparentFormat = originalType.includes('png') || originalType.includes('gif');
-  
-  const targetMime = isTransparentFormat ? 'image/webp' : 'image/jpeg';
-  
-  const objectUrl = URL.createObjectURL(blob);
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        URL.revokeObjectURL(objectUrl);
-        return reject(new Error('Canvas context failed'));
-      }
-
-      canvas.width = img.width;
-      canvas.height = img.height;
-
-      if (targetMime === 'image/jpeg') {
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-      }
-
-      ctx.drawImage(img, 0, 0);
-
-      canvas.toBlob(
-        (compressed) => {
-          URL.revokeObjectURL(objectUrl);
-          if (compressed) resolve(compressed);
-          else reject(new Error('Compression failed'));
-        },
-        targetMime,
-        quality / 100
-      );
-    };
-    img.onerror = () => {
-      URL.revokeObjectURL(objectUrl);
-      reject(new Error('Failed to load image for compression'));
-    };
-    img.src = objectUrl;
-  });
+export interface DocumentSession {
+  optimize: (
+    options: OptimizationOptions,
+    onProgress: (progress: number) => void,
+    signal?: AbortSignal
+  ) => Promise<OptimizationResult>;
+  /** Original and current encoding of one asset, by `AssetReport.id` */
+  preview: (assetId: string) => Promise<AssetPreview>;
 }
 
 /**
- * Optimized ZIP-based documents (HWPX, PPTX, SHOW)
+ * Settings that decide how one asset is encoded. Two runs with equal settings
+ * produce the same bytes, which is what makes the encoding cache valid.
  */
-export const optimizeZipBasedDoc = async (
-  file: File, 
-  quality: number, 
-  skipPng: boolean, // New option added
-  onProgress: (progress: number) => void
-): Promise<OptimizationResult> => {
-  const originalSize = file.size;
-  const logs: string[] = [`Starting optimization for: ${file.name}`];
-  
-  onProgress(5);
-  const zip = await JSZip.loadAsync(file);
-  
-  const imageFiles = Object.keys(zip.files).filter(path => 
-    /\.(jpe?g|png|gif|bmp)$/i.test(path)
-  );
+const assetSettings = (options: OptimizationOptions, id: string) => {
+  const override = options.overrides?.[id];
+  return {
+    quality: override?.quality ?? options.quality,
+    exclude: override?.exclude ?? false,
+    transparency: options.transparency,
+    paletteQuality: options.paletteQuality,
+    maxDpi: options.maxDpi,
+    maxMegapixels: options.maxMegapixels,
+    ssimThreshold: options.ssimThreshold,
+    metafiles: options.metafiles,
+  };
+};
 
-  logs.push(`Found ${imageFiles.length} images.`);
+type AssetSettings = ReturnType<typeof assetSettings>;
 
-  if (imageFiles.length === 0) {
-    onProgress(100);
-    return {
-      originalSize,
-      compressedSize: originalSize,
-      fileName: file.name,
-      reductionPercentage: 0,
-      blob: file,
-      optimizationLogs: logs
-    };
-  }
+const settingsKey = (settings: AssetSettings) => JSON.stringify(settings);
 
-  for (let i = 0; i < imageFiles.length; i++) {
-    const path = imageFiles[i];
-    
-    // SKIP PNG if requested
-    if (skipPng && path.toLowerCase().endsWith('.png')) {
-      logs.push(`Skipping PNG as requested: ${path}`);
-      continue;
-    }
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
 
-    const originalImage = zip.files[path];
-    const imageBytes = await originalImage.async('blob');
-    
-    try {
-      const compressedImage = await compressImage(imageBytes, quality);
-      if (compressedImage.size < imageBytes.size) {
-        zip.file(path, compressedImage);
-      }
-    } catch (e) {
-      console.error(`Error processing ${path}: ${e}`);
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+const logPrivacy = (entries: PrivacyEntry[], logs: string[]) => {
+  entries.forEach(({ location, field }) => logs.push(`Privacy scrub removed ${field} from ${location}`));
+  if (entries.length === 0) logs.push('Privacy scrub found nothing to remove.');
+};
+
+/**
+ * Assembles an output and verifies it. When every problem is explained by
+ * replaced assets, those assets are restored and the output is assembled and
+ * verified once more. Anything else, or a second failure, means the original
+ * file is returned. `restored` maps each restored asset to why it failed.
+ */
+const verifyWithFallback = async <T>(
+  assemble: (restore: Set<string>) => Promise<T>,
+  verify: (output: T) => Promise<{ issues: VerificationIssue[]; owners: Map<string, string> }>,
+  logs: string[]
+): Promise<{ output: T; restored: Map<string, string>; verification: VerificationReport }> => {
+  const first = await assemble(new Set());
+  const { issues, owners } = await verify(first);
+  if (issues.length === 0) return { output: first, restored: new Map(), verification: { status: 'passed', issues: [] } };
+
+  const reported = issues.map(issueText);
+  reported.forEach((issue) => logs.push(`Verification failed: ${issue}`));
+  const restored = new Map<string, string>();
+  issues.forEach((issue) => {
+    const owner = owners.get(issue.path);
+    if (owner && !restored.has(owner)) restored.set(owner, issue.message);
+  });
+
+  if (issues.every((issue) => owners.has(issue.path))) {
+    const second = await assemble(new Set(restored.keys()));
+    const retry = await verify(second);
+    if (retry.issues.length === 0) {
+      logs.push(`Restored ${restored.size} original images that failed verification.`);
+      return { output: second, restored, verification: { status: 'assetsRestored', issues: reported } };
     }
-    
-    const currentProgress = 10 + Math.round((i + 1) / imageFiles.length * 80);
-    onProgress(currentProgress);
+    retry.issues.map(issueText).forEach((issue) => {
+      reported.push(issue);
+      logs.push(`Verification failed after restoring images: ${issue}`);
+    });
   }
+  logs.push('Output failed verification; the original file is returned unchanged.');
+  return { output: first, restored, verification: { status: 'originalKept', issues: reported } };
+};
 
-  const resultBlob = await zip.generateAsync({ 
-    type: 'blob', 
-    compression: "DEFLATE", 
-    compressionOptions: { level: 9 } 
-  });
-  onProgress(100);
-  
+/** Report of an asset whose original encoding stays in the document after all */
+const revertedAsset = (asset: AssetReport, status: AssetStatus, reason: string): AssetReport => ({
+  ...asset,
+  status,
+  codecAfter: undefined,
+  bytesAfter: asset.bytesBefore,
+  width: undefined,
+  height: undefined,
+  quality: undefined,
+  ssim: undefined,
+  reason,
+});
+
+const restoredAssets = (assets: AssetReport[], restored: Map<string, string>): AssetReport[] =>
+  assets.map((asset) => restored.has(asset.id)
+    ? revertedAsset(asset, 'error', `Replacement failed verification (${restored.get(asset.id)}); the original is kept`)
+    : asset);
+
+/** `result` turned into the unchanged original, with every report saying so */
+const keepOriginalFile = (file: File, result: OptimizationResult): OptimizationResult => {
+  const reason = 'Output failed verification; the original file is kept';
   return {
-    originalSize,
-    compressedSize: resultBlob.size,
-    fileName: file.name,
-    reductionPercentage: Math.max(0, ((originalSize - resultBlob.size) / originalSize) * 100),
-    blob: resultBlob,
-    optimizationLogs: logs
+    ...result,
+    compressedSize: file.size,
+    reductionPercentage: 0,
+    blob: file,
+    imageStats: { ...result.imageStats, optimized: 0 },
+    assets: result.assets.map((asset) => (asset.status === 'optimized' ? revertedAsset(asset, 'kept', reason) : asset)),
+    fonts: result.fonts?.map((font) => font.status === 'subset' || font.status === 'removed'
+      ? { ...font, status: 'kept', bytesAfter: font.bytesBefore, reason }
+      : font),
+    media: result.media?.map((media) => media.status === 'kept' || media.status === 'error'
+      ? media
+      : { ...media, status: 'kept', bytesAfter: media.bytesBefore, reason }),
+    extractedMedia: undefined,
+    mediaCleanup: result.mediaCleanup && { ...result.mediaCleanup, applied: false },
+    pdfCleanup: undefined,
+    privacy: undefined,
   };
 };
 
 /**
- * Optimizes PDF file
+ * `result` turned into the original like `keepOriginalFile`. When a privacy
+ * scrub was asked for, the original is scrubbed on its own by `scrubOnly`,
+ * without image, font or cleanup changes, so the file handed out does not
+ * carry what the user asked to remove; only when that fails verification too
+ * is the original returned unchanged.
  */
-export const optimizePDF = async (
-  file: File, 
-  quality: number, 
-  skipPng: boolean, // New option added
-  onProgress: (progress: number) => void
+const keepOriginalOrScrubbed = async (
+  file: File,
+  result: OptimizationResult,
+  scrubOnly: () => Promise<{ blob: Blob; privacy: PrivacyEntry[]; issues: VerificationIssue[] }>
 ): Promise<OptimizationResult> => {
-  const originalSize = file.size;
-  const logs: string[] = [`Starting PDF optimization: ${file.name}`];
-  
-  onProgress(10);
-  const arrayBuffer = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
-  
-  const pages = pdfDoc.getPages();
-  const imageRefs: Set<PDFRef> = new Set();
-
-  pages.forEach((page) => {
-    const { node } = page as any;
-    const resources = node.get(PDFName.of('Resources'));
-    if (!(resources instanceof PDFDict)) return;
-
-    const xObjects = resources.get(PDFName.of('XObject'));
-    if (!(xObjects instanceof PDFDict)) return;
-
-    xObjects.entries().forEach(([name, ref]) => {
-      if (!(ref instanceof PDFRef)) return;
-      const xObject = pdfDoc.context.lookup(ref);
-      
-      if (xObject instanceof PDFDict || xObject instanceof PDFRawStream) {
-        const subtype = xObject instanceof PDFDict ? xObject.get(PDFName.of('Subtype')) : xObject.dict.get(PDFName.of('Subtype'));
-        if (subtype === PDFName.of('Image')) {
-          imageRefs.add(ref);
+  const kept = keepOriginalFile(file, result);
+  if (!result.options.privacyScrub) return kept;
+  const logs = result.optimizationLogs;
+  const { blob, privacy, issues } = await scrubOnly();
+  if (issues.length > 0) {
+    issues.forEach((issue) => logs.push(`Verification of the scrubbed original failed: ${issueText(issue)}`));
+    return kept;
+  }
+  logs.push('Scrubbed the original file instead:');
+  logPrivacy(privacy, logs);
+  return {
+    ...kept,
+    compressedSize: blob.size,
+    reductionPercentage: Math.max(0, ((file.size - blob.size) / file.size) * 100),
+    blob,
+    verification: { ...result.verification!, status: 'scrubbedOriginal' },
+    privacy,
+  };
+};
+
+const keptMedia = (part: EmbeddedMediaPart): MediaReport => ({
+  id: part.path,
+  kind: part.kind,
+  status: 'kept',
+  bytesBefore: part.bytes,
+  bytesAfter: part.bytes,
+  duration: part.duration,
+  usedBy: part.usedBy,
+});
+
+interface EncodedPackageImage {
+  path: string;
+  /** Set when the re-encoded image is smaller than the original */
+  compressed?: CompressedImage;
+  /** Set when `compressed` holds only the region the image's crop leaves visible */
+  trim?: CropTrim;
+  asset: AssetReport;
+}
+
+/** Sources whose format can carry an alpha channel */
+const mayHaveAlpha = (path: string) => ['image/png', 'image/gif'].includes(mimeFromPath(path));
+
+/**
+ * Output codecs to try for an image inside a ZIP-based document; the smallest
+ * result wins. WebP is never written into a package because Hancom Office and
+ * older PowerPoint builds cannot read it, so images with real transparency
+ * stay PNG and everything else becomes JPEG, unless the policy keeps PNG/GIF
+ * lossless. Opaque PNG/GIF that fit in a 256-color palette (diagrams,
+ * screenshots) try an exact palette first, which usually beats JPEG on size
+ * and sharpness; every 8-bit gray photo fits one too, hence the JPEG fallback.
+ * BMP, TIFF and metafile bitmaps are lossless sources as well and follow the
+ * same rules.
+ */
+const packageTargetMimes = (path: string, pixels: RgbaImage | undefined, settings: AssetSettings): string[] => {
+  if (!mayHaveAlpha(path) && !isLegacyImage(path)) return ['image/jpeg'];
+  if (settings.transparency === 'lossless' || hasTransparency(pixels!)) return ['image/png'];
+  return fitsPalette(pixels!) ? ['image/png', 'image/jpeg'] : ['image/jpeg'];
+};
+
+/** A package the format registry already loaded, and the folders its format keeps images in */
+export interface ZipSource {
+  zip?: JSZip;
+  /** Path prefixes such as `word/media/`; images anywhere in the package when omitted */
+  mediaFolders?: string[];
+}
+
+/**
+ * Parses a ZIP-based document (HWPX, PPTX, SHOW, DOCX, XLSX, ODT, ODP) once
+ * for repeated optimization. The loaded package is never modified; each run
+ * writes into a copy of it.
+ */
+export const openZipSession = async (
+  file: File,
+  signal?: AbortSignal,
+  { zip, mediaFolders }: ZipSource = {}
+): Promise<DocumentSession> => {
+  const original = zip ?? await abortable(JSZip.loadAsync(file), signal);
+  const layout = captureLayout(original);
+  const imageFiles = Object.keys(original.files).filter(path =>
+    /\.(jpe?g|png|gif|bmp|tiff?|emf|wmf)$/i.test(path)
+      && (!mediaFolders || mediaFolders.some((folder) => path.startsWith(folder)))
+  );
+  // Largest on-page size of each image, used to drop pixels nobody will ever see
+  let displaySizes: DisplaySizeMap | undefined;
+  // Unused and duplicate media; only computed once cleanup is asked for
+  let cleanupPlan: MediaCleanupEntry[] | undefined;
+  let embeddedFonts: EmbeddedFontPart[] | undefined;
+  let embeddedMedia: EmbeddedMediaPart[] | undefined;
+  // Crop shared by every reference to an image, for the images that can be trimmed
+  let cropPlan: Map<string, CropFractions> | undefined;
+  const cache = new Map<string, { key: string; encoded: EncodedPackageImage }>();
+  // Re-encoded audio, or why an entry cannot be re-encoded; the bitrate is fixed, so the path is the key
+  const audioCache = new Map<string, Uint8Array | string>();
+  // Problems the original package already has, which the output is allowed to keep
+  let baselineIssues: VerificationIssue[] | undefined;
+
+  const readImage = async (path: string) =>
+    new Blob([await original.files[path].async('uint8array')], { type: mimeFromPath(path) });
+
+  /** Pixels for formats the browser may not decode; undefined for a vector metafile */
+  const decodeLegacy = async (path: string) => decodeLegacyImage(path, await original.files[path].async('uint8array'));
+
+  const encodeImage = async (
+    path: string,
+    settings: AssetSettings,
+    displayBox: DisplayBox | null | undefined,
+    crop: CropFractions | undefined
+  ): Promise<EncodedPackageImage> => {
+    const size = loadedEntrySize(original.files[path]) ?? 0;
+    const asset: AssetReport = {
+      id: path,
+      status: 'skipped',
+      codecBefore: mimeFromPath(path) || 'unknown',
+      bytesBefore: size,
+      bytesAfter: size,
+    };
+    try {
+      if (settings.exclude) {
+        return { path, asset: { ...asset, reason: 'Excluded by user' } };
+      }
+      if (settings.transparency === 'skip' && mayHaveAlpha(path)) {
+        return { path, asset: { ...asset, reason: 'PNG/GIF left untouched by the transparency policy' } };
+      }
+      if (isMetafile(path) && settings.metafiles === 'keep') {
+        return { path, asset: { ...asset, reason: `EMF/WMF metafile left as is (${formatKb(size)})` } };
+      }
+
+      // Inside the `try`, so an entry that does not inflate fails only its own row and is copied as is
+      const imageBytes = await readImage(path).catch((e) => {
+        markUnreadable(layout, path);
+        throw e;
+      });
+
+      // Decoded up front when the alpha channel or the quality guard needs the pixels
+      let pixels: RgbaImage | undefined;
+      if (isLegacyImage(path)) {
+        pixels = await decodeLegacy(path);
+        if (!pixels) {
+          return {
+            path,
+            asset: { ...asset, reason: `Metafile has vector drawing and cannot be rasterized (${formatKb(size)})` },
+          };
         }
+      } else if (mayHaveAlpha(path) || settings.ssimThreshold > 0 || crop) {
+        pixels = await decodeToPixels(imageBytes);
       }
-    });
-  });
+      const trim = crop && pixels && cropTrimFor(crop, pixels.width, pixels.height);
+      if (trim) pixels = cropPixels(pixels!, trim);
+      // The display box covers the whole image; a trimmed one needs only its share of it
+      const box = displayBox && trim ? {
+        widthInches: displayBox.widthInches * trim.width / trim.sourceWidth,
+        heightInches: displayBox.heightInches * trim.height / trim.sourceHeight,
+      } : displayBox;
+      const untrimmed = trim && { originalWidth: trim.sourceWidth, originalHeight: trim.sourceHeight };
+
+      const encodeAs = async (
+        targetMime: string
+      ): Promise<{ compressed: CompressedImage; quality?: number; guard?: { quality: number; ssim: number } } | undefined> => {
+        const limits = {
+          targetMime,
+          maxSize: box ? pixelsForDpi(box, settings.maxDpi) : undefined,
+          maxPixels: settings.maxMegapixels > 0 ? settings.maxMegapixels * 1_000_000 : undefined,
+        };
+        if (targetMime === 'image/png') {
+          return compressPng(pixels!, limits, settings.transparency === 'quantize' ? settings.paletteQuality : undefined);
+        }
+        if (settings.ssimThreshold > 0) {
+          // PNG output is lossless or judged by its own palette quality, so only JPEG goes through the guard
+          const source = pixels!;
+          const guarded = await searchQuality((q) => encodePixels(source, q, limits), source, settings.quality, settings.ssimThreshold);
+          return guarded && { compressed: guarded.encoded, guard: { quality: guarded.quality, ssim: guarded.ssim } };
+        }
+        const compressed = pixels
+          ? await encodePixels(pixels, settings.quality, limits)
+          : await compressImage(imageBytes, settings.quality, limits);
+        return { compressed, quality: settings.quality };
+      };
+
+      let best: Awaited<ReturnType<typeof encodeAs>>;
+      for (const targetMime of packageTargetMimes(path, pixels, settings)) {
+        const candidate = await encodeAs(targetMime);
+        if (candidate && (!best || candidate.compressed.blob.size < best.compressed.blob.size)) best = candidate;
+      }
+      // Only the SSIM guard leaves no candidate, and only when JPEG was the sole option
+      if (!best) {
+        return {
+          path,
+          asset: {
+            ...asset,
+            originalWidth: pixels!.width,
+            originalHeight: pixels!.height,
+            ...untrimmed,
+            status: 'kept',
+            reason: `No quality up to ${settings.quality} reaches SSIM ${settings.ssimThreshold}`,
+          },
+        };
+      }
+      const { compressed, quality, guard } = best;
+      const dimensions = { originalWidth: compressed.originalWidth, originalHeight: compressed.originalHeight, ...untrimmed };
+      if (compressed.blob.size >= imageBytes.size) {
+        return { path, asset: { ...asset, ...dimensions, status: 'kept', reason: 'Re-encoded image was not smaller' } };
+      }
+      return {
+        path,
+        compressed,
+        trim,
+        asset: {
+          ...asset,
+          ...dimensions,
+          status: 'optimized',
+          codecAfter: compressed.mime,
+          bytesAfter: compressed.blob.size,
+          width: compressed.width,
+          height: compressed.height,
+          quality,
+          ...guard,
+        },
+      };
+    } catch (e) {
+      console.error(`Error processing ${path}: ${e}`);
+      return { path, asset: { ...asset, status: 'error', reason: errorMessage(e) } };
+    }
+  };
+
+  const encodeAudio = async (path: string, signal?: AbortSignal): Promise<Uint8Array | string> => {
+    if (extensionOf(path) !== 'wav') return 'Only uncompressed WAV audio is re-encoded';
+    const audio = readWav(await original.files[path].async('uint8array'));
+    if (!audio) return 'WAV file is not uncompressed PCM';
+    if (!(await canEncodeAac(audio.sampleRate, audio.channels))) {
+      return `This browser cannot encode ${audio.sampleRate} Hz, ${audio.channels}-channel audio as AAC`;
+    }
+    return encodeAacM4a(audio, signal);
+  };
+
+  /**
+   * Applies the embedded media policy to the copy being written. Returns one
+   * report per media file and, for `extract`, the ZIP of the removed files.
+   */
+  const processMedia = async (
+    zip: JSZip,
+    parts: EmbeddedMediaPart[],
+    options: OptimizationOptions,
+    renames: Map<string, string>,
+    logs: string[],
+    signal?: AbortSignal
+  ): Promise<{ media: MediaReport[]; extracted?: Blob }> => {
+    const media = parts.map(keptMedia);
+    const policy = options.embeddedMedia;
+
+    if (policy === 'strip' || policy === 'extract') {
+      const stripped = await stripEmbeddedMedia(zip, new Set(parts.map((part) => part.path)));
+      const archive = new JSZip();
+      for (const report of media) {
+        if (!stripped.has(report.id)) {
+          report.reason = 'Still referenced from markup that could not be rewritten';
+          logs.push(`${report.reason}: ${report.id}`);
+          continue;
+        }
+        report.status = policy === 'extract' ? 'extracted' : 'removed';
+        report.bytesAfter = 0;
+        logs.push(`${policy === 'extract' ? 'Extracted' : 'Removed'} ${report.kind}: ${report.id} (${formatKb(report.bytesBefore)})`);
+        // Media are compressed already, so the archive only stores them
+        if (policy === 'extract') {
+          archive.file(report.id.split('/').pop()!, await original.files[report.id].async('uint8array'), { compression: 'STORE' });
+        }
+      }
+      const extracted = policy === 'extract' && stripped.size > 0
+        ? await abortable(archive.generateAsync({ type: 'blob' }), signal)
+        : undefined;
+      return { media, extracted };
+    }
+
+    if (policy === 'compressAudio') {
+      const soundEffects = new Set(parts.filter((part) => part.soundEffect).map((part) => part.path));
+      for (const report of media) {
+        signal?.throwIfAborted();
+        if (report.kind !== 'audio') {
+          report.reason = 'Only audio is re-encoded';
+          continue;
+        }
+        if (soundEffects.has(report.id)) {
+          report.reason = 'Transition, click and animation sounds must stay WAV';
+          logs.push(`Kept audio ${report.id}: ${report.reason}`);
+          continue;
+        }
+        try {
+          let encoded = audioCache.get(report.id);
+          if (encoded === undefined) {
+            encoded = await encodeAudio(report.id, signal);
+            audioCache.set(report.id, encoded);
+          }
+          if (typeof encoded === 'string') {
+            report.reason = encoded;
+            logs.push(`Kept audio ${report.id}: ${encoded}`);
+          } else if (encoded.length >= report.bytesBefore) {
+            report.reason = 'Re-encoded audio was not smaller';
+          } else {
+            const finalPath = await replacePackageMedia(zip, report.id, new Blob([encoded], { type: 'audio/mp4' }), 'audio/mp4');
+            if (finalPath !== report.id) renames.set(report.id, finalPath);
+            Object.assign(report, { status: 'compressed', bytesAfter: encoded.length });
+            logs.push(`Re-encoded audio ${report.id} -> ${finalPath}: ${formatKb(report.bytesBefore)} -> ${formatKb(encoded.length)}`);
+          }
+        } catch (e) {
+          if (isAbortError(e)) throw e;
+          console.error(`Error encoding ${report.id}: ${e}`);
+          Object.assign(report, { status: 'error', reason: errorMessage(e) });
+        }
+      }
+    }
+    return { media };
+  };
+
+  const optimize: DocumentSession['optimize'] = async (options, onProgress, signal) => {
+    const originalSize = file.size;
+    const logs: string[] = [`Starting optimization for: ${file.name}`];
+    onProgress(5);
+
+    let cleanup: MediaCleanupEntry[] = [];
+    if (options.mediaCleanup !== 'off') {
+      cleanupPlan ??= await abortable(planMediaCleanup(original), signal);
+      cleanup = cleanupPlan;
+      const verb = options.mediaCleanup === 'remove' ? 'Removed' : 'Would remove';
+      for (const entry of cleanup) {
+        logs.push(entry.reason === 'unused'
+          ? `${verb} unused media: ${entry.path}`
+          : `${verb} duplicate media: ${entry.path} (same as ${entry.duplicateOf})`);
+      }
+    }
+    const removed = new Set(options.mediaCleanup === 'remove' ? cleanup.map((entry) => entry.path) : []);
+    const mediaCleanup = options.mediaCleanup === 'off'
+      ? undefined
+      : { applied: options.mediaCleanup === 'remove', entries: cleanup };
+
+    const images = imageFiles.filter((path) => !removed.has(path));
+    logs.push(`Found ${images.length} images.`);
 
-  const totalImages = imageRefs.size;
-  
-  if (totalImages === 0) {
+    embeddedFonts ??= await abortable(listEmbeddedFonts(original), signal);
+    const fontParts = embeddedFonts;
+    const removeFonts = options.removeEmbeddedFonts && fontParts.length > 0;
+    const fonts: FontReport[] = fontParts.map((font) => ({
+      id: font.path,
+      name: `${font.typeface} (${font.style})`,
+      status: removeFonts ? 'removed' : 'kept',
+      bytesBefore: font.bytes,
+      bytesAfter: removeFonts ? 0 : font.bytes,
+      reason: removeFonts ? undefined : 'Embedded font removal is off',
+    }));
+    if (fontParts.length > 0) {
+      const bytes = fontParts.reduce((sum, font) => sum + font.bytes, 0);
+      logs.push(`${removeFonts ? 'Removed' : 'Found'} ${fontParts.length} embedded fonts, ${formatKb(bytes)} in total.`);
+    }
+
+    embeddedMedia ??= await abortable(listEmbeddedMedia(original), signal);
+    const mediaParts = embeddedMedia.filter((part) => !removed.has(part.path));
+    if (mediaParts.length > 0) {
+      const bytes = mediaParts.reduce((sum, part) => sum + part.bytes, 0);
+      logs.push(`Found ${mediaParts.length} embedded video/audio files, ${formatKb(bytes)} in total.`);
+    }
+    const changeMedia = options.embeddedMedia !== 'keep' && mediaParts.length > 0;
+
+    if (images.length === 0 && removed.size === 0 && !removeFonts && !changeMedia && !options.privacyScrub) {
+      onProgress(100);
+      return {
+        originalSize,
+        compressedSize: originalSize,
+        fileName: file.name,
+        reductionPercentage: 0,
+        blob: file,
+        optimizationLogs: logs,
+        imageStats: { found: 0, optimized: 0 },
+        mediaCleanup,
+        fonts: fonts.length > 0 ? fonts : undefined,
+        media: mediaParts.length > 0 ? mediaParts.map(keptMedia) : undefined,
+        assets: [],
+        options
+      };
+    }
+
+    // A kept copy now also stands in for the duplicates merged into it
+    const merged = new Map(
+      cleanup.filter((entry) => removed.has(entry.path) && entry.duplicateOf).map((entry) => [entry.path, entry.duplicateOf!])
+    );
+    let sizes: DisplaySizeMap | undefined;
+    if (options.maxDpi > 0) {
+      displaySizes ??= await abortable(collectDisplaySizes(original), signal);
+      sizes = merged.size > 0 ? mergeDuplicateSizes(displaySizes, merged) : displaySizes;
+    }
+    let crops: Map<string, CropFractions> | undefined;
+    if (options.trimCrops) {
+      cropPlan ??= await abortable(planCropTrims(original), signal);
+      // The crops were planned per copy, so a merged image may carry references cropped differently
+      const mergedPaths = new Set([...merged.keys(), ...merged.values()]);
+      crops = new Map([...cropPlan].filter(([path]) => !mergedPaths.has(path)));
+    }
+    const encodingKey = (path: string) =>
+      `${settingsKey(assetSettings(options, path))}|${JSON.stringify(sizes?.get(path) ?? null)}|${JSON.stringify(crops?.get(path) ?? null)}`;
+
+    // Images are encoded in parallel; writing them back rewrites shared manifests,
+    // so replacements are applied afterwards one at a time, in package order.
+    const pending = images.filter((path) => cache.get(path)?.key !== encodingKey(path));
+    if (pending.length < images.length) {
+      logs.push(`Reused ${images.length - pending.length} previously encoded images.`);
+    }
+    let completed = 0;
+    await mapWithConcurrency(pending, defaultConcurrency(), async (path) => {
+      const settings = assetSettings(options, path);
+      try {
+        cache.set(path, { key: encodingKey(path), encoded: await encodeImage(path, settings, sizes?.get(path), crops?.get(path)) });
+      } finally {
+        completed++;
+        onProgress(10 + Math.round(completed / pending.length * 75));
+      }
+    }, signal);
+
+    const encoded = images.map((path) => cache.get(path)!.encoded);
+
+    /** Writes the package with every smaller encoding except those in `restore`, which keep their original bytes */
+    const assemble = async (restore: Set<string>) => {
+      // A second pass only repeats the first one's steps, so it is not logged again
+      const log = restore.size === 0 ? logs : [];
+      const zip = cloneContainer(original);
+      await applyMediaCleanup(zip, options.mediaCleanup === 'remove' ? cleanup : []);
+      if (removeFonts) await removeEmbeddedFonts(zip, fontParts);
+      const renames = new Map<string, string>();
+      const replaced: (ExpectedImage & { source: string })[] = [];
+
+      // The crop markup still names the original paths, so it is rewritten before any image is renamed
+      const trims = new Map(
+        encoded.flatMap(({ path, compressed, trim }) => (compressed && trim && !restore.has(path) ? [[path, trim]] : []))
+      );
+      await applyCropTrims(zip, trims);
+      for (const [path, trim] of trims) {
+        log.push(`Trimmed cropped-away area of ${path}: ${trim.sourceWidth}x${trim.sourceHeight} -> ${trim.width}x${trim.height}`);
+      }
+
+      for (const { path, compressed, asset } of encoded) {
+        signal?.throwIfAborted();
+        if (asset.status !== 'optimized') log.push(`${asset.reason}: ${path}`);
+        if (!compressed || restore.has(path)) continue;
+
+        const finalPath = await replacePackageMedia(zip, path, compressed.blob, compressed.mime);
+        replaced.push({ path: finalPath, width: compressed.width, height: compressed.height, source: path });
+        if (finalPath !== path) {
+          renames.set(path, finalPath);
+          log.push(`Converted ${path} -> ${finalPath} (${compressed.mime})`);
+        }
+        if (compressed.width !== compressed.originalWidth) {
+          log.push(`Downsampled ${path}: ${compressed.originalWidth}x${compressed.originalHeight} -> ${compressed.width}x${compressed.height}`);
+        }
+      }
+      const keptMetafiles = encoded.filter(({ path, compressed }) => isMetafile(path) && !compressed);
+      if (keptMetafiles.length > 0) {
+        const bytes = keptMetafiles.reduce((sum, { asset }) => sum + asset.bytesBefore, 0);
+        log.push(`${keptMetafiles.length} EMF/WMF metafiles kept, ${formatKb(bytes)} in total.`);
+      }
+      const { media, extracted } = await processMedia(zip, mediaParts, options, renames, log, signal);
+      // Runs last, so images that are still the originals are the ones it strips
+      const privacy = options.privacyScrub ? await scrubPackage(zip) : undefined;
+      if (privacy) logPrivacy(privacy, log);
+      const blob = await writeContainer(zip, layout, renames, undefined, signal);
+      return { blob, replaced, media, extracted, privacy };
+    };
+
+    const { output, restored, verification } = await verifyWithFallback(assemble, async ({ blob, replaced }) => {
+      onProgress(90);
+      baselineIssues ??= await abortable(checkPackage(original), signal);
+      // An issue at either the old or the new path of a replaced image is that image's fault
+      const owners = new Map(replaced.flatMap(({ path, source }) => [[path, source], [source, source]]));
+      return { issues: await verifyPackage(blob, replaced, baselineIssues, signal), owners };
+    }, logs);
     onProgress(100);
-    const resultBytes = await pdfDoc.save({ useObjectStreams: true });
-    return {
+
+    const result: OptimizationResult = {
       originalSize,
-      compressedSize: resultBytes.length,
+      compressedSize: output.blob.size,
       fileName: file.name,
-      reductionPercentage: ((originalSize - resultBytes.length) / originalSize) * 100,
-      blob: new Blob([resultBytes], { type: 'application/pdf' }),
-      optimizationLogs: logs
+      reductionPercentage: Math.max(0, ((originalSize - output.blob.size) / originalSize) * 100),
+      blob: output.blob,
+      optimizationLogs: logs,
+      imageStats: { found: images.length, optimized: output.replaced.length },
+      mediaCleanup,
+      fonts: fonts.length > 0 ? fonts : undefined,
+      media: output.media.length > 0 ? output.media : undefined,
+      extractedMedia: output.extracted,
+      assets: restoredAssets(encoded.map(({ asset }) => asset), restored),
+      options,
+      verification,
+      privacy: output.privacy,
     };
-  }
+    if (verification.status !== 'originalKept') return result;
+    return keepOriginalOrScrubbed(file, result, async () => {
+      const zip = cloneContainer(original);
+      const privacy = await scrubPackage(zip);
+      const blob = await writeContainer(zip, layout, undefined, undefined, signal);
+      return { blob, privacy, issues: await verifyPackage(blob, [], baselineIssues!, signal) };
+    });
+  };
 
-  let processedImages = 0;
-  for (const ref of imageRefs) {
-    const imageObject = pdfDoc.context.lookup(ref);
-    if (!(imageObject instanceof PDFRawStream)) {
-      processedImages++;
-      continue;
+  const preview: DocumentSession['preview'] = async (assetId) => {
+    if (!imageFiles.includes(assetId)) return {};
+    const after = cache.get(assetId)?.encoded.compressed?.blob;
+    if (!isLegacyImage(assetId)) return { before: await readImage(assetId), after };
+    // Browsers render neither TIFF nor metafiles, and only some BMP variants
+    try {
+      const pixels = await decodeLegacy(assetId);
+      return { before: pixels && (await encodePixels(pixels, 100, { targetMime: 'image/png' })).blob, after };
+    } catch {
+      return { after };
     }
+  };
+
+  return { optimize, preview };
+};
+
+/**
+ * Optimized ZIP-based documents (HWPX, PPTX, SHOW, DOCX, XLSX, ODT, ODP).
+ * Rejects with the abort reason once `signal` aborts.
+ */
+export const optimizeZipBasedDoc = async (
+  file: File,
+  options: OptimizationOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizationResult> =>
+  (await openZipSession(file, signal)).optimize(options, onProgress, signal);
+
+interface EncodedPdfImage {
+  asset: AssetReport;
+  /** Set when the image was decoded and re-encoded */
+  reencoded?: ReencodedPdfImage;
+}
+
+/**
+ * Parses a PDF once for repeated optimization. Replaced image objects are
+ * swapped back to their originals at the start of every run.
+ */
+export const openPdfSession = async (file: File, signal?: AbortSignal): Promise<DocumentSession> => {
+  const arrayBuffer = await abortable(file.arrayBuffer(), signal);
+  const pdfDoc = await abortable(PDFDocument.load(arrayBuffer, { ignoreEncryption: true }), signal);
+  const { context } = pdfDoc;
+
+  const { images: imageRefs, masks } = collectImageRefs(context);
+  const originals = new Map<string, { ref: PDFRef; stream: PDFRawStream }>();
+  for (const ref of imageRefs) {
+    const imageObject = context.lookup(ref);
+    if (imageObject instanceof PDFRawStream) originals.set(ref.toString(), { ref, stream: imageObject });
+  }
+  const cache = new Map<string, { key: string; encoded: EncodedPdfImage }>();
+  /** Replaced images and the soft masks their replacements registered */
+  const applied = new Map<PDFRef, PDFRef | undefined>();
+  // Embedded font programs, analyzed on first use, and their subsets (or why subsetting failed)
+  let fontPrograms: PdfFontProgram[] | undefined;
+  const fontSubsets = new Map<PDFRef, SubsetPdfFont | Error>();
+  const fontUndo: (() => void)[] = [];
+  // Rolls back the privacy scrub and structural cleanup of the last run; they ran last, so they are undone first
+  let cleanupUndo: (() => void) | undefined;
+
+  // Page count and dangling references of the untouched document
+  let baseline: ReturnType<typeof checkPdf> | undefined;
+
+  /** Undoes the privacy scrub, the structural cleanup and the image swaps, leaving font subsets in place */
+  const restoreImages = () => {
+    cleanupUndo?.();
+    cleanupUndo = undefined;
+    applied.forEach((softMaskRef, ref) => {
+      context.assign(ref, originals.get(ref.toString())!.stream);
+      if (softMaskRef) context.delete(softMaskRef);
+    });
+    applied.clear();
+  };
 
+  const restoreOriginals = () => {
+    restoreImages();
+    fontUndo.splice(0).reverse().forEach((undo) => undo());
+  };
+
+  /** Swaps in every font subset that is smaller than its original; undefined when no font program is embedded */
+  const subsetFonts = (options: OptimizationOptions, logs: string[], signal?: AbortSignal): FontReport[] | undefined => {
+    fontPrograms ??= analyzePdfFonts(pdfDoc);
+    if (fontPrograms.length === 0) return undefined;
+    return fontPrograms.map((program) => {
+      signal?.throwIfAborted();
+      const bytesBefore = program.stream.getContentsSize();
+      const report: FontReport = {
+        id: program.ref.toString(),
+        name: program.name,
+        status: 'kept',
+        bytesBefore,
+        bytesAfter: bytesBefore,
+      };
+      if (!options.subsetFonts) return { ...report, reason: 'Font subsetting is off' };
+      if (program.reason) {
+        logs.push(`Kept font ${program.name}: ${program.reason}`);
+        return { ...report, reason: program.reason };
+      }
+
+      let subset = fontSubsets.get(program.ref);
+      if (!subset) {
+        try {
+          subset = subsetPdfFont(context, program);
+        } catch (e) {
+          console.error(`Error subsetting font ${program.name}:`, e);
+          subset = new Error(errorMessage(e));
+        }
+        fontSubsets.set(program.ref, subset);
+      }
+      if (subset instanceof Error) {
+        logs.push(`Could not subset font ${program.name}: ${subset.message}`);
+        return { ...report, status: 'error', reason: subset.message };
+      }
+
+      const glyphs = { glyphsBefore: subset.glyphsBefore, glyphsAfter: subset.glyphsAfter };
+      const bytesAfter = subset.stream.getContentsSize();
+      if (bytesAfter >= bytesBefore) return { ...report, ...glyphs, reason: 'Subset font was not smaller' };
+      fontUndo.push(applyPdfFontSubset(context, program, subset));
+      logs.push(`Subset font ${program.name}: ${subset.glyphsAfter} of ${subset.glyphsBefore} glyphs, ${formatKb(bytesBefore)} -> ${formatKb(bytesAfter)}`);
+      return { ...report, ...glyphs, status: 'subset', bytesAfter };
+    });
+  };
+
+  const encodeImage = async (id: string, settings: AssetSettings): Promise<EncodedPdfImage> => {
+    const { stream } = originals.get(id)!;
+    const stored = describePdfImage(context, stream);
+    const asset: AssetReport = {
+      id,
+      status: 'skipped',
+      codecBefore: stored.codec,
+      bytesBefore: stream.getContentsSize(),
+      bytesAfter: stream.getContentsSize(),
+      originalWidth: stored.width,
+      originalHeight: stored.height,
+    };
     try {
-      // PDF specific logic: Skip images that have a SoftMask (transparency) if skipPng is on
-      const hasSMask = imageObject.dict.has(PDFName.of('SMask'));
-      if (skipPng && hasSMask) {
-        processedImages++;
-        continue;
-      }
-
-      const bytes = imageObject.getContents();
-      const blob = new Blob([bytes], { type: 'image/jpeg' });
-      
-      const compressedBlob = await compressImage(blob, quality);
-      
-      if (compressedBlob.size < bytes.length) {
-        const compressedBytes = new Uint8Array(await compressedBlob.arrayBuffer());
-        
-        const newStream = pdfDoc.context.flateStream(compressedBytes, {
-          Type: PDFName.of('XObject'),
-          Subtype: PDFName.of('Image'),
-          Width: imageObject.dict.get(PDFName.of('Width')),
-          Height: imageObject.dict.get(PDFName.of('Height')),
-          BitsPerComponent: imageObject.dict.get(PDFName.of('BitsPerComponent')) || 8,
-          ColorSpace: imageObject.dict.get(PDFName.of('ColorSpace')) || PDFName.of('DeviceRGB'),
-          Filter: PDFName.of('DCTDecode'), 
-        });
-        
-        pdfDoc.context.assign(ref, newStream);
+      if (settings.exclude) return { asset: { ...asset, reason: 'Excluded by user' } };
+
+      // The soft mask itself is never re-encoded; `skip` leaves the masked image alone too
+      const hasSMask = stream.dict.has(PDFName.of('SMask'));
+      if (settings.transparency === 'skip' && hasSMask) {
+        return { asset: { ...asset, reason: 'Image has a soft mask and the transparency policy skips it' } };
+      }
+
+      const maxPixels = settings.maxMegapixels > 0 ? settings.maxMegapixels * 1_000_000 : undefined;
+      const reencoded = await reencodePdfImage(context, stream, settings.quality, { maxPixels, ssimThreshold: settings.ssimThreshold });
+      if (reencoded.status === 'skipped') return { asset: { ...asset, reason: reencoded.reason }, reencoded };
+      if (reencoded.status === 'kept') return { asset: { ...asset, status: 'kept', reason: reencoded.reason } };
+      if (replacementSize(reencoded) >= stream.getContentsSize()) {
+        return { asset: { ...asset, status: 'kept', reason: 'Re-encoded image was not smaller' } };
       }
+      const encoded = describePdfImage(context, reencoded.stream);
+      return {
+        reencoded,
+        asset: {
+          ...asset,
+          status: 'optimized',
+          codecAfter: reencoded.codec,
+          bytesAfter: replacementSize(reencoded),
+          width: encoded.width,
+          height: encoded.height,
+          quality: reencoded.quality ?? (reencoded.codec === 'DCTDecode' ? settings.quality : undefined),
+          ssim: reencoded.ssim,
+        },
+      };
     } catch (e) {
       console.error(`Error compressing PDF image:`, e);
+      return { asset: { ...asset, status: 'error', reason: errorMessage(e) } };
     }
-    
-    processedImages++;
-    onProgress(15 + Math.round((processedImages / totalImages) * 75));
-  }
-  
-  onProgress(95);
-  const resultBytes = await pdfDoc.save({
-    useObjectStreams: true,
-    addDefaultPage: false,
-    updateFieldAppearances: false,
-  });
+  };
 
-  onProgress(100);
-  const resultBlob = new Blob([resultBytes], { type: 'application/pdf' });
-  return {
-    originalSize,
-    compressedSize: resultBlob.size,
-    fileName: file.name,
-    reductionPercentage: Math.max(0, ((originalSize - resultBlob.size) / originalSize) * 100),
-    blob: resultBlob,
-    optimizationLogs: logs
+  const optimize: DocumentSession['optimize'] = async (options, onProgress, signal) => {
+    const originalSize = file.size;
+    const logs: string[] = [`Starting PDF optimization: ${file.name}`];
+    onProgress(10);
+    logs.push(`Found ${imageRefs.length} reachable images (${masks} masks left untouched).`);
+    restoreOriginals();
+    baseline ??= checkPdf(pdfDoc);
+    const fonts = subsetFonts(options, logs, signal);
+
+    const ids = [...originals.keys()];
+    const totalImages = imageRefs.length;
+
+    // Decoding and encoding run in parallel; objects are swapped in afterwards
+    const pending = ids.filter((id) => cache.get(id)?.key !== settingsKey(assetSettings(options, id)));
+    if (pending.length < ids.length) {
+      logs.push(`Reused ${ids.length - pending.length} previously encoded images.`);
+    }
+    let processedImages = 0;
+    await mapWithConcurrency(pending, defaultConcurrency(), async (id) => {
+      const settings = assetSettings(options, id);
+      try {
+        cache.set(id, { key: settingsKey(settings), encoded: await encodeImage(id, settings) });
+      } finally {
+        processedImages++;
+        onProgress(15 + Math.round((processedImages / pending.length) * 75));
+      }
+    }, signal);
+
+    const assets = ids.map((id) => cache.get(id)!.encoded.asset);
+
+    // pdf-lib's serializer cannot be interrupted; on abort the result is discarded
+    const save = () => abortable(pdfDoc.save({
+      useObjectStreams: true,
+      addDefaultPage: false,
+      updateFieldAppearances: false,
+    }), signal);
+
+    /** Swaps in every smaller encoding except those in `restore`, runs the cleanup and saves */
+    const assemble = async (restore: Set<string>) => {
+      // A second pass only repeats the first one's steps, so it is not logged again
+      const log = restore.size === 0 ? logs : [];
+      restoreImages();
+      const replaced: ExpectedImage[] = [];
+      const owners = new Map<string, string>();
+      for (const id of ids) {
+        const { asset, reencoded } = cache.get(id)!.encoded;
+        if (reencoded?.status === 'skipped') {
+          log.push(`Skipped image ${id}: ${reencoded.reason}`);
+        } else if (reencoded?.status === 'encoded' && asset.status === 'optimized' && !restore.has(id)) {
+          const { ref } = originals.get(id)!;
+          const softMaskRef = replacePdfImage(context, ref, reencoded);
+          applied.set(ref, softMaskRef);
+          replaced.push({ path: id, width: asset.width!, height: asset.height! });
+          owners.set(id, id);
+          if (softMaskRef) owners.set(softMaskRef.toString(), id);
+          log.push(`Re-encoded image ${id} as ${reencoded.codec}`);
+        }
+      }
+      log.push(`Optimized ${replaced.length} of ${totalImages} images.`);
+
+      // Runs last, on the objects that will actually be written
+      const scrub = options.privacyScrub ? scrubPdf(context, imageRefs) : undefined;
+      if (scrub) logPrivacy(scrub.entries, log);
+      const cleanup = cleanPdfStructure(context, scrub ? scrubbedPdfCleanup(options.pdfCleanup) : options.pdfCleanup);
+      cleanupUndo = () => {
+        cleanup.undo();
+        scrub?.undo();
+      };
+      for (const { pass, objects, bytesSaved } of cleanup.reports) {
+        if (objects > 0) log.push(`Cleanup ${pass}: ${objects} objects, about ${formatKb(bytesSaved)} saved.`);
+      }
+      log.push(...cleanup.warnings);
+      onProgress(95);
+      const bytes = await save();
+      return { bytes, replaced, owners, cleanup: cleanup.reports, privacy: scrub?.entries };
+    };
+
+    const { output, restored, verification } = await verifyWithFallback(
+      assemble,
+      async ({ bytes, replaced, owners }) => ({ issues: await verifyPdf(bytes, replaced, baseline!), owners }),
+      logs
+    );
+    onProgress(100);
+
+    const resultBlob = new Blob([output.bytes], { type: 'application/pdf' });
+    const result: OptimizationResult = {
+      originalSize,
+      compressedSize: resultBlob.size,
+      fileName: file.name,
+      reductionPercentage: Math.max(0, ((originalSize - resultBlob.size) / originalSize) * 100),
+      blob: resultBlob,
+      optimizationLogs: logs,
+      imageStats: { found: totalImages, optimized: output.replaced.length },
+      fonts,
+      pdfCleanup: output.cleanup.length > 0 ? output.cleanup : undefined,
+      assets: restoredAssets(assets, restored),
+      options,
+      verification,
+      privacy: output.privacy,
+    };
+    if (verification.status !== 'originalKept') return result;
+    return keepOriginalOrScrubbed(file, result, async () => {
+      restoreOriginals();
+      const scrub = scrubPdf(context, imageRefs);
+      const cleanup = cleanPdfStructure(context, SCRUB_ONLY_PDF_CLEANUP);
+      cleanupUndo = () => {
+        cleanup.undo();
+        scrub.undo();
+      };
+      const bytes = await save();
+      return { blob: new Blob([bytes], { type: 'application/pdf' }), privacy: scrub.entries, issues: await verifyPdf(bytes, [], baseline!) };
+    });
+  };
+
+  const preview: DocumentSession['preview'] = async (assetId) => {
+    const original = originals.get(assetId);
+    if (!original) return {};
+    const reencoded = cache.get(assetId)?.encoded;
+    return {
+      before: await previewPdfImage(context, original.stream),
+      after: reencoded?.asset.status === 'optimized' && reencoded.reencoded?.status === 'encoded'
+        ? await previewPdfImage(context, reencoded.reencoded.stream)
+        : undefined,
+    };
   };
+
+  return { optimize, preview };
 };
+
+/**
+ * Optimizes PDF file.
+ * Rejects with the abort reason once `signal` aborts.
+ */
+export const optimizePDF = async (
+  file: File,
+  options: OptimizationOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizationResult> =>
+  (await openPdfSession(file, signal)).optimize(options, onProgress, signal);
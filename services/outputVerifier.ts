@@ -0,0 +1,204 @@
+/**
+ * Checks run on an optimized document before it is handed out: the output is
+ * read back and compared against the same checks on the original, so problems
+ * the source document already had are not blamed on the optimizer.
+ */
+import JSZip from 'jszip';
+import { PDFDocument, PDFRawStream } from 'pdf-lib';
+import { defaultConcurrency, mapWithConcurrency } from './concurrency';
+import { readHwpxManifest } from './displaySize';
+import { decodeToPixels } from './imageCodec';
+import { mimeFromPath, odfContentParts, odfReferences, PackageFlavor, packageFlavor } from './packageRewriter';
+import { walkReachable } from './pdfGraph';
+import { decodePdfImage } from './pdfImageCodec';
+import { dirName, findElements, getAttr, relsSource, resolvePartPath, xmlSyntaxError } from './xmlUtils';
+
+/** One problem in a document; `path` is the package entry or PDF object it concerns */
+export interface VerificationIssue {
+  path: string;
+  message: string;
+}
+
+/** A replaced image and the dimensions its new encoding must decode to */
+export interface ExpectedImage {
+  /** Package path, or PDF object reference */
+  path: string;
+  width: number;
+  height: number;
+}
+
+const CONTAINER_MANIFEST = 'META-INF/manifest.xml';
+const XML_PART = /\.(xml|rels|hpf)$/i;
+const BINARY_ITEM_REF = /\s(?:[\w.-]+:)?binaryItemIDRef\s*=\s*"([^"]*)"/g;
+
+export const issueText = ({ path, message }: VerificationIssue): string => (path ? `${path}: ${message}` : message);
+
+/** Issues in `found` that `baseline` does not have */
+export const newIssues = (found: VerificationIssue[], baseline: VerificationIssue[]): VerificationIssue[] => {
+  const known = new Set(baseline.map(issueText));
+  return found.filter((issue) => !known.has(issueText(issue)));
+};
+
+const missing = (zip: JSZip, path: string, referrer: string): VerificationIssue[] =>
+  zip.files[path] ? [] : [{ path, message: `missing, referenced from ${referrer}` }];
+
+const containerManifestIssues = async (zip: JSZip): Promise<VerificationIssue[]> => {
+  if (!zip.files[CONTAINER_MANIFEST]) return [];
+  const xml = await zip.files[CONTAINER_MANIFEST].async('string');
+  return findElements(xml, 'file-entry').flatMap((el) => {
+    const path = getAttr(el.attrs, 'full-path') ?? '';
+    // `/` stands for the package itself; folder entries need no ZIP entry
+    return path === '/' || path.endsWith('/') ? [] : missing(zip, path, CONTAINER_MANIFEST);
+  });
+};
+
+/** Every internal relationship target exists and every part has a content type */
+const ooxmlIssues = async (zip: JSZip): Promise<VerificationIssue[]> => {
+  const issues: VerificationIssue[] = [];
+  for (const relsPath of Object.keys(zip.files).filter((p) => /(^|\/)_rels\/[^/]*\.rels$/.test(p))) {
+    const source = relsSource(relsPath);
+    if (source && !zip.files[source]) continue;
+    const xml = await zip.files[relsPath].async('string');
+    for (const rel of findElements(xml, 'Relationship')) {
+      if (rel.attrs.TargetMode === 'External' || !rel.attrs.Target) continue;
+      issues.push(...missing(zip, resolvePartPath(dirName(source), rel.attrs.Target), relsPath));
+    }
+  }
+
+  const types = zip.files['[Content_Types].xml'] ? await zip.files['[Content_Types].xml'].async('string') : '';
+  const extensions = new Set(findElements(types, 'Default').map((el) => (el.attrs.Extension ?? '').toLowerCase()));
+  const overrides = new Set(findElements(types, 'Override').map((el) => (el.attrs.PartName ?? '').replace(/^\//, '')));
+  for (const path of Object.keys(zip.files)) {
+    if (zip.files[path].dir || path === '[Content_Types].xml' || overrides.has(path)) continue;
+    const extension = path.includes('.') ? path.slice(path.lastIndexOf('.') + 1).toLowerCase() : '';
+    if (!extensions.has(extension)) issues.push({ path, message: 'has no content type' });
+  }
+  return issues;
+};
+
+/** Every manifest item exists and every `binaryItemIDRef` names a manifest item */
+const hwpxIssues = async (zip: JSZip): Promise<VerificationIssue[]> => {
+  const manifest = await readHwpxManifest(zip);
+  const issues: VerificationIssue[] = [...manifest.values()].flatMap((path) => missing(zip, path, 'content.hpf'));
+  for (const part of Object.keys(zip.files).filter((p) => /^Contents\/.+\.xml$/i.test(p))) {
+    const xml = await zip.files[part].async('string');
+    for (const [, id] of xml.matchAll(BINARY_ITEM_REF)) {
+      if (!manifest.has(id)) issues.push({ path: part, message: `binaryItemIDRef ${id} is not in the manifest` });
+    }
+  }
+  return [...issues, ...await containerManifestIssues(zip)];
+};
+
+/** Every file the manifest lists and every package path an `xlink:href` points at exists */
+const odfIssues = async (zip: JSZip): Promise<VerificationIssue[]> => {
+  const issues: VerificationIssue[] = [];
+  for (const part of odfContentParts(zip)) {
+    const xml = await zip.files[part].async('string');
+    odfReferences(xml, part).forEach(({ path }) => issues.push(...missing(zip, path, part)));
+  }
+  return [...issues, ...await containerManifestIssues(zip)];
+};
+
+const REFERENCE_CHECKS: Record<PackageFlavor, (zip: JSZip) => Promise<VerificationIssue[]>> = {
+  ooxml: ooxmlIssues,
+  odf: odfIssues,
+  hwpx: hwpxIssues,
+};
+
+/**
+ * Structural problems in a ZIP-based document: XML parts that are not
+ * well-formed, and manifest, relationship or href targets that do not exist
+ */
+export const checkPackage = async (zip: JSZip): Promise<VerificationIssue[]> => {
+  const issues: VerificationIssue[] = [];
+  for (const path of Object.keys(zip.files).filter((p) => !zip.files[p].dir && XML_PART.test(p))) {
+    const error = xmlSyntaxError(await zip.files[path].async('string'));
+    if (error) issues.push({ path, message: `XML is not well-formed: ${error}` });
+  }
+  return [...issues, ...await REFERENCE_CHECKS[packageFlavor(zip)](zip)];
+};
+
+const dimensionIssue = (expected: ExpectedImage, width: number, height: number): VerificationIssue[] =>
+  width === expected.width && height === expected.height
+    ? []
+    : [{ path: expected.path, message: `decodes to ${width}x${height}, expected ${expected.width}x${expected.height}` }];
+
+/**
+ * Reads the written package back and returns the problems the original did
+ * not have, including replaced images that no longer decode to their size
+ */
+export const verifyPackage = async (
+  output: Blob,
+  images: ExpectedImage[],
+  baseline: VerificationIssue[],
+  signal?: AbortSignal
+): Promise<VerificationIssue[]> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(output);
+  } catch (e) {
+    return [{ path: '', message: `Output does not open as a ZIP package: ${e instanceof Error ? e.message : e}` }];
+  }
+  const decoded = await mapWithConcurrency(images, defaultConcurrency(), async (expected) => {
+    const entry = zip.files[expected.path];
+    if (!entry) return [{ path: expected.path, message: 'replaced image is missing' }];
+    try {
+      const blob = new Blob([await entry.async('uint8array')], { type: mimeFromPath(expected.path) });
+      const { width, height } = await decodeToPixels(blob);
+      return dimensionIssue(expected, width, height);
+    } catch (e) {
+      return [{ path: expected.path, message: `replaced image does not decode: ${e instanceof Error ? e.message : e}` }];
+    }
+  }, signal);
+  return [...newIssues(await checkPackage(zip), baseline), ...decoded.flat()];
+};
+
+/** Page count and references to objects that do not exist, from the trailer down */
+export const checkPdf = (pdfDoc: PDFDocument): { pageCount: number; issues: VerificationIssue[] } => {
+  const { context } = pdfDoc;
+  const issues = [...walkReachable(context)]
+    .filter((ref) => context.lookup(ref) === undefined)
+    .map((ref) => ({ path: ref.toString(), message: 'referenced object is missing' }));
+  return { pageCount: pdfDoc.getPageCount(), issues };
+};
+
+/**
+ * Parses the saved PDF again and returns the problems the original did not
+ * have: a changed page count, dangling references, and replaced images that no
+ * longer decode to their size
+ */
+export const verifyPdf = async (
+  output: Uint8Array,
+  images: ExpectedImage[],
+  baseline: { pageCount: number; issues: VerificationIssue[] }
+): Promise<VerificationIssue[]> => {
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(output, { ignoreEncryption: true, updateMetadata: false });
+  } catch (e) {
+    return [{ path: '', message: `Output does not open as a PDF: ${e instanceof Error ? e.message : e}` }];
+  }
+  const { pageCount, issues } = checkPdf(pdfDoc);
+  const found = newIssues(issues, baseline.issues);
+  if (pageCount !== baseline.pageCount) {
+    found.push({ path: '', message: `Output has ${pageCount} pages, the original ${baseline.pageCount}` });
+  }
+
+  const refs = new Map(pdfDoc.context.enumerateIndirectObjects().map(([ref, object]) => [ref.toString(), object]));
+  for (const expected of images) {
+    const stream = refs.get(expected.path);
+    // Deduplication may drop a replaced image for an identical copy; a reference still pointing at it is dangling above
+    if (stream === undefined) continue;
+    if (!(stream instanceof PDFRawStream)) {
+      found.push({ path: expected.path, message: 'replaced image is no longer a stream' });
+      continue;
+    }
+    const decoded = await decodePdfImage(pdfDoc.context, stream);
+    if (decoded.status === 'skipped') {
+      found.push({ path: expected.path, message: `replaced image does not decode: ${decoded.reason}` });
+    } else {
+      found.push(...dimensionIssue(expected, decoded.image.width, decoded.image.height));
+    }
+  }
+  return found;
+};
@@ -0,0 +1,259 @@
+import JSZip from 'jszip';
+import {
+  decodeXmlEntities,
+  dirName,
+  encodeXmlEntities,
+  findElements,
+  getAttr,
+  resolvePartPath,
+  setAttr
+} from './xmlUtils';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  webp: 'image/webp',
+  emf: 'image/x-emf',
+  wmf: 'image/x-wmf',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+};
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/webp': 'webp',
+  'audio/mp4': 'm4a',
+};
+
+/** Hancom writes its own spelling for JPEG in content.hpf */
+const HWPX_MEDIA_TYPE: Record<string, string> = {
+  'image/jpeg': 'image/jpg',
+};
+
+const CONTAINER_MANIFEST = 'META-INF/manifest.xml';
+
+/** How a package declares its entries and points at them */
+export type PackageFlavor = 'ooxml' | 'odf' | 'hwpx';
+
+/**
+ * OOXML has `[Content_Types].xml`; ODF keeps its document in a root
+ * `content.xml`, while HWPX keeps its sections under `Contents/`
+ */
+export const packageFlavor = (zip: JSZip): PackageFlavor => {
+  if (zip.files['[Content_Types].xml']) return 'ooxml';
+  if (zip.files['content.xml'] && zip.files[CONTAINER_MANIFEST]) return 'odf';
+  return 'hwpx';
+};
+
+export const extensionOf = (path: string): string => {
+  const name = path.split('/').pop() ?? '';
+  const index = name.lastIndexOf('.');
+  return index === -1 ? '' : name.slice(index + 1).toLowerCase();
+};
+
+export const mimeFromPath = (path: string): string => MIME_BY_EXTENSION[extensionOf(path)] ?? '';
+
+/**
+ * True when the entry's extension already declares the given MIME type
+ */
+export const matchesDeclaredType = (path: string, mime: string): boolean => mimeFromPath(path) === mime;
+
+const replaceBaseName = (target: string, newName: string) => {
+  const index = target.lastIndexOf('/');
+  return index === -1 ? newName : target.slice(0, index + 1) + newName;
+};
+
+/**
+ * Picks a free entry name next to `path` carrying the extension of `mime`
+ */
+const nextPathFor = (zip: JSZip, path: string, mime: string): string => {
+  const extension = EXTENSION_BY_MIME[mime];
+  const stem = path.replace(/\.[^./]+$/, '');
+  let candidate = `${stem}.${extension}`;
+  for (let n = 1; zip.files[candidate] && candidate !== path; n++) {
+    candidate = `${stem}_${n}.${extension}`;
+  }
+  return candidate;
+};
+
+/**
+ * Rewrites one XML part in place; the entry is only replaced when the text changed
+ */
+export const rewriteXml = async (
+  zip: JSZip,
+  path: string,
+  rewrite: (xml: string) => string
+) => {
+  const xml = await zip.files[path].async('string');
+  const updated = rewrite(xml);
+  if (updated !== xml) zip.file(path, updated);
+};
+
+/** Replaces the opening tags of the given elements, back to front so offsets stay valid */
+export const patchTags = (xml: string, patches: { start: number; openTag: string; newTag: string }[]) =>
+  patches
+    .sort((a, b) => b.start - a.start)
+    .reduce((acc, p) => acc.slice(0, p.start) + p.newTag + acc.slice(p.start + p.openTag.length), xml);
+
+const ODF_HREF = /(\s(?:[\w.-]+:)?href\s*=\s*")([^"]*)(")/g;
+
+/** Hrefs with a scheme, fragments and `../` paths point outside the package */
+const isPackageHref = (href: string) => href !== '' && !/^([a-z][\w+.-]*:|#|\.\.\/)/i.test(href);
+
+/** Every ODF part that may point at pictures: all XML but the container manifest */
+export const odfContentParts = (zip: JSZip): string[] =>
+  Object.keys(zip.files).filter((p) => /\.xml$/i.test(p) && p !== CONTAINER_MANIFEST);
+
+/** Package entries an ODF part points at through `xlink:href`, with the offset of each reference */
+export const odfReferences = (xml: string, part: string): { path: string; index: number }[] =>
+  [...xml.matchAll(ODF_HREF)]
+    .map((match) => ({ href: decodeXmlEntities(match[2]), index: match.index ?? 0 }))
+    .filter(({ href }) => isPackageHref(href))
+    .map(({ href, index }) => ({ path: resolvePartPath(dirName(part), href), index }));
+
+/**
+ * Rewrites `xlink:href` values in every ODF part. `rewrite` gets the entry a
+ * reference resolves to, the href as written and the folder of the part, and
+ * returns the new href or undefined to leave it alone.
+ */
+export const rewriteOdfHrefs = async (
+  zip: JSZip,
+  rewrite: (path: string, href: string, baseDir: string) => string | undefined
+) => {
+  for (const part of odfContentParts(zip)) {
+    const baseDir = dirName(part);
+    await rewriteXml(zip, part, (xml) => xml.replace(ODF_HREF, (match, before: string, value: string, after: string) => {
+      const href = decodeXmlEntities(value);
+      const updated = isPackageHref(href) ? rewrite(resolvePartPath(baseDir, href), href, baseDir) : undefined;
+      return updated === undefined ? match : before + encodeXmlEntities(updated) + after;
+    }));
+  }
+};
+
+const rewriteOoxml = async (zip: JSZip, oldPath: string, newPath: string, mime: string) => {
+  const newName = newPath.split('/').pop()!;
+
+  await rewriteXml(zip, '[Content_Types].xml', (xml) => {
+    const patches = findElements(xml, 'Override')
+      .filter((el) => el.attrs.PartName === `/${oldPath}`)
+      .map((el) => ({
+        ...el,
+        newTag: setAttr(setAttr(el.openTag, 'PartName', `/${newPath}`), 'ContentType', mime),
+      }));
+    let updated = patchTags(xml, patches);
+
+    const extension = extensionOf(newPath);
+    const hasDefault = findElements(updated, 'Default')
+      .some((el) => el.attrs.Extension?.toLowerCase() === extension);
+    if (!hasDefault) {
+      updated = updated.replace(
+        /<\/Types>\s*$/,
+        `<Default Extension="${extension}" ContentType="${mime}"/></Types>`
+      );
+    }
+    return updated;
+  });
+
+  const relsFiles = Object.keys(zip.files).filter((p) => /(^|\/)_rels\/[^/]*\.rels$/.test(p));
+  for (const relsPath of relsFiles) {
+    // `a/_rels/b.xml.rels` describes `a/b.xml`, whose folder is `a`
+    const sourceDir = dirName(dirName(relsPath));
+    await rewriteXml(zip, relsPath, (xml) => patchTags(
+      xml,
+      findElements(xml, 'Relationship')
+        .filter((el) => el.attrs.TargetMode !== 'External'
+          && el.attrs.Target
+          && resolvePartPath(sourceDir, el.attrs.Target) === oldPath)
+        .map((el) => ({ ...el, newTag: setAttr(el.openTag, 'Target', replaceBaseName(el.attrs.Target, newName)) }))
+    ));
+  }
+};
+
+const rewriteContainerManifest = async (zip: JSZip, oldPath: string, newPath: string, mime: string) => {
+  if (!zip.files[CONTAINER_MANIFEST]) return;
+  await rewriteXml(zip, CONTAINER_MANIFEST, (xml) => patchTags(
+    xml,
+    findElements(xml, 'file-entry')
+      .filter((el) => getAttr(el.attrs, 'full-path') === oldPath)
+      .map((el) => {
+        const pathKey = Object.keys(el.attrs).find((k) => k.endsWith('full-path'))!;
+        const typeKey = Object.keys(el.attrs).find((k) => k.endsWith('media-type')) ?? 'manifest:media-type';
+        return { ...el, newTag: setAttr(setAttr(el.openTag, pathKey, newPath), typeKey, mime) };
+      })
+  ));
+};
+
+const rewriteHwpx = async (zip: JSZip, oldPath: string, newPath: string, mime: string) => {
+  const newName = newPath.split('/').pop()!;
+
+  const manifestPath = Object.keys(zip.files).find((p) => /(^|\/)content\.hpf$/i.test(p));
+  if (manifestPath) {
+    await rewriteXml(zip, manifestPath, (xml) => patchTags(
+      xml,
+      findElements(xml, 'item')
+        .filter((el) => {
+          const href = getAttr(el.attrs, 'href');
+          return href === oldPath || (href && resolvePartPath(dirName(manifestPath), href) === oldPath);
+        })
+        .map((el) => {
+          const hrefKey = Object.keys(el.attrs).find((k) => k.endsWith('href'))!;
+          const typeKey = Object.keys(el.attrs).find((k) => k.endsWith('media-type')) ?? 'media-type';
+          const tag = setAttr(el.openTag, hrefKey, replaceBaseName(el.attrs[hrefKey], newName));
+          return { ...el, newTag: setAttr(tag, typeKey, HWPX_MEDIA_TYPE[mime] ?? mime) };
+        })
+    ));
+  }
+
+  // ODF-style container manifest, present in some HWPX producers
+  await rewriteContainerManifest(zip, oldPath, newPath, mime);
+};
+
+const rewriteOdf = async (zip: JSZip, oldPath: string, newPath: string, mime: string) => {
+  const newName = newPath.split('/').pop()!;
+  await rewriteOdfHrefs(zip, (path, href) => (path === oldPath ? replaceBaseName(href, newName) : undefined));
+  await rewriteContainerManifest(zip, oldPath, newPath, mime);
+};
+
+const REWRITERS: Record<PackageFlavor, typeof rewriteOoxml> = {
+  ooxml: rewriteOoxml,
+  odf: rewriteOdf,
+  hwpx: rewriteHwpx,
+};
+
+/**
+ * Writes re-encoded image or audio data back into the package.
+ *
+ * If the encoder produced the type the entry already declares, the bytes are
+ * simply replaced. Otherwise the entry is renamed to a matching extension and
+ * every manifest, content-type and relationship reference is rewritten, so the
+ * package never claims a PNG that is really a JPEG. Returns the final path.
+ */
+export const replacePackageMedia = async (
+  zip: JSZip,
+  path: string,
+  data: Blob,
+  mime: string
+): Promise<string> => {
+  if (!EXTENSION_BY_MIME[mime]) {
+    throw new Error(`Unsupported media type for package entry: ${mime}`);
+  }
+  if (matchesDeclaredType(path, mime)) {
+    zip.file(path, data);
+    return path;
+  }
+
+  const newPath = nextPathFor(zip, path, mime);
+  zip.remove(path);
+  zip.file(newPath, data);
+
+  await REWRITERS[packageFlavor(zip)](zip, path, newPath, mime);
+  return newPath;
+};
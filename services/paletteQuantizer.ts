@@ -0,0 +1,222 @@
+/**
+ * Median-cut palette quantization for images that must stay PNG. Transparency
+ * is a fourth channel of the palette, so soft edges keep their alpha.
+ */
+import { RgbaImage } from './imageCodec';
+
+export interface QuantizedImage {
+  width: number;
+  height: number;
+  /** RGBA entries, 4 bytes per color, at most 256 colors */
+  palette: Uint8ClampedArray;
+  /** One palette index per pixel, row-major */
+  indices: Uint8Array;
+}
+
+const MAX_COLORS = 256;
+/** Palette sizes tried, largest first; the smallest one that meets the quality target wins */
+const PALETTE_SIZES = [256, 128, 64, 32, 16];
+/** Colors are counted and the palette is judged on at most this many pixels */
+const SAMPLE_PIXELS = 250_000;
+
+/** Colors packed as r | g << 8 | b << 16 | a << 24; fully transparent pixels collapse to 0 */
+const packAt = (data: Uint8ClampedArray, i: number) =>
+  data[i + 3] === 0 ? 0 : (data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24)) >>> 0;
+
+const channel = (color: number, c: number) => (color >>> (c * 8)) & 255;
+
+interface Histogram {
+  colors: Uint32Array;
+  counts: Float64Array;
+}
+
+const histogram = (image: RgbaImage, stride: number): Histogram => {
+  const counts = new Map<number, number>();
+  for (let p = 0; p < image.width * image.height; p += stride) {
+    const color = packAt(image.data, p * 4);
+    counts.set(color, (counts.get(color) ?? 0) + 1);
+  }
+  return { colors: Uint32Array.from(counts.keys()), counts: Float64Array.from(counts.values()) };
+};
+
+interface Box {
+  /** Indices into the histogram */
+  items: number[];
+  weight: number;
+  /** Channel with the widest range and that range */
+  channel: number;
+  range: number;
+}
+
+const makeBox = ({ colors, counts }: Histogram, items: number[]): Box => {
+  const min = [255, 255, 255, 255];
+  const max = [0, 0, 0, 0];
+  let weight = 0;
+  for (const i of items) {
+    weight += counts[i];
+    for (let c = 0; c < 4; c++) {
+      const v = channel(colors[i], c);
+      if (v < min[c]) min[c] = v;
+      if (v > max[c]) max[c] = v;
+    }
+  }
+  let widest = 0;
+  for (let c = 1; c < 4; c++) {
+    if (max[c] - min[c] > max[widest] - min[widest]) widest = c;
+  }
+  return { items, weight, channel: widest, range: max[widest] - min[widest] };
+};
+
+/**
+ * Splits the box with the most weighted spread at its weighted median until
+ * there are `size` boxes, then averages each box into one palette entry
+ */
+const medianCut = (hist: Histogram, size: number): Uint8ClampedArray => {
+  const boxes = [makeBox(hist, Array.from(hist.colors.keys()))];
+
+  while (boxes.length < size) {
+    let pick = -1;
+    for (let b = 0; b < boxes.length; b++) {
+      if (boxes[b].items.length < 2 || boxes[b].range === 0) continue;
+      if (pick === -1 || boxes[b].range * boxes[b].weight > boxes[pick].range * boxes[pick].weight) pick = b;
+    }
+    if (pick === -1) break;
+
+    const box = boxes[pick];
+    const items = [...box.items].sort((x, y) => channel(hist.colors[x], box.channel) - channel(hist.colors[y], box.channel));
+    let half = 0;
+    let split = 1;
+    for (; split < items.length - 1; split++) {
+      half += hist.counts[items[split - 1]];
+      if (half >= box.weight / 2) break;
+    }
+    boxes.splice(pick, 1, makeBox(hist, items.slice(0, split)), makeBox(hist, items.slice(split)));
+  }
+
+  const palette = new Uint8ClampedArray(boxes.length * 4);
+  boxes.forEach((box, b) => {
+    const sum = [0, 0, 0, 0];
+    for (const i of box.items) {
+      for (let c = 0; c < 4; c++) sum[c] += channel(hist.colors[i], c) * hist.counts[i];
+    }
+    for (let c = 0; c < 4; c++) palette[b * 4 + c] = Math.round(sum[c] / box.weight);
+    // Keep fully transparent pixels fully transparent, whatever they averaged with
+    if (box.items.some((i) => hist.colors[i] === 0) && palette[b * 4 + 3] < 8) palette.fill(0, b * 4, b * 4 + 4);
+  });
+  return palette;
+};
+
+const distance = (color: number, palette: Uint8ClampedArray, entry: number) => {
+  let d = 0;
+  for (let c = 0; c < 4; c++) {
+    const diff = channel(color, c) - palette[entry * 4 + c];
+    d += diff * diff;
+  }
+  return d;
+};
+
+/**
+ * Nearest palette entry per color. Lookups are cached per 5-bit RGBA bucket,
+ * which keeps photographs with millions of distinct colors fast.
+ */
+const nearestFinder = (palette: Uint8ClampedArray) => {
+  const entries = palette.length / 4;
+  const buckets = new Int16Array(1 << 20).fill(-1);
+  return (color: number) => {
+    const bucket = (channel(color, 0) >> 3) | ((channel(color, 1) >> 3) << 5)
+      | ((channel(color, 2) >> 3) << 10) | ((channel(color, 3) >> 3) << 15);
+    if (buckets[bucket] !== -1) return buckets[bucket];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let e = 0; e < entries; e++) {
+      const d = distance(color, palette, e);
+      if (d < bestDistance) {
+        best = e;
+        bestDistance = d;
+      }
+    }
+    buckets[bucket] = best;
+    return best;
+  };
+};
+
+/** Peak signal-to-noise ratio of the histogram mapped onto `palette`, in dB */
+const psnr = (hist: Histogram, palette: Uint8ClampedArray) => {
+  const nearest = nearestFinder(palette);
+  let error = 0;
+  let total = 0;
+  hist.colors.forEach((color, i) => {
+    error += (distance(color, palette, nearest(color)) / 4) * hist.counts[i];
+    total += hist.counts[i];
+  });
+  return error === 0 ? Infinity : 10 * Math.log10((255 * 255) / (error / total));
+};
+
+/** Quality 10-100 as the PSNR a palette must keep, from about 22 dB up to 38 dB */
+const targetPsnr = (quality: number) => 20 + 18 * (quality / 100);
+
+/** Distinct colors of `image` in first-seen order, or undefined once there are more than 256 */
+const exactColors = (image: RgbaImage): number[] | undefined => {
+  const seen = new Set<number>();
+  for (let i = 0; i < image.data.length; i += 4) {
+    seen.add(packAt(image.data, i));
+    if (seen.size > MAX_COLORS) return undefined;
+  }
+  return [...seen];
+};
+
+/** True when `image` uses at most 256 distinct colors */
+export const fitsPalette = (image: RgbaImage): boolean => exactColors(image) !== undefined;
+
+/**
+ * Lossless palette for images that already use at most 256 colors, such as
+ * screenshots and diagrams; undefined for anything with more colors
+ */
+export const indexExactly = (image: RgbaImage): QuantizedImage | undefined => {
+  const exact = exactColors(image);
+  if (!exact) return undefined;
+  const palette = new Uint8ClampedArray(exact.length * 4);
+  const indexOf = new Map<number, number>();
+  exact.forEach((color, i) => {
+    indexOf.set(color, i);
+    for (let c = 0; c < 4; c++) palette[i * 4 + c] = channel(color, c);
+  });
+  const indices = new Uint8Array(image.width * image.height);
+  for (let p = 0; p < indices.length; p++) indices[p] = indexOf.get(packAt(image.data, p * 4))!;
+  return { width: image.width, height: image.height, palette, indices };
+};
+
+/**
+ * Reduces `image` to at most 256 colors, using the smallest palette that still
+ * meets `quality`. Images that already fit in 256 colors are indexed exactly.
+ * Returns undefined when even 256 colors fall short of the quality target.
+ */
+export const quantizeImage = (image: RgbaImage, quality: number): QuantizedImage | undefined => {
+  const exact = indexExactly(image);
+  if (exact) return exact;
+
+  const pixels = image.width * image.height;
+  const sample = histogram(image, 1 + Math.floor(pixels / SAMPLE_PIXELS));
+  const target = targetPsnr(quality);
+  let palette: Uint8ClampedArray | undefined;
+  for (const size of PALETTE_SIZES) {
+    const candidate = medianCut(sample, size);
+    if (psnr(sample, candidate) < target) break;
+    palette = candidate;
+  }
+  if (!palette) return undefined;
+
+  const nearest = nearestFinder(palette);
+  const indices = new Uint8Array(pixels);
+  for (let p = 0; p < pixels; p++) indices[p] = nearest(packAt(image.data, p * 4));
+  return { width: image.width, height: image.height, palette, indices };
+};
+
+/** Back to RGBA pixels, e.g. for encoders without palette support */
+export const expandPalette = ({ width, height, palette, indices }: QuantizedImage): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < indices.length; p++) {
+    data.set(palette.subarray(indices[p] * 4, indices[p] * 4 + 4), p * 4);
+  }
+  return { width, height, data };
+};
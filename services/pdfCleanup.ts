@@ -0,0 +1,231 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream
+} from 'pdf-lib';
+import { PdfCleanupOptions, PdfCleanupPass, PdfCleanupReport } from '../types';
+import { walkReachable } from './pdfGraph';
+import { deflateMax } from './pngEncoder';
+import { findElements, removeElements } from './xmlUtils';
+
+/** Every change made to the document, so a run can be rolled back before the next one */
+const createJournal = (context: PDFContext) => {
+  const undo: (() => void)[] = [];
+  return {
+    set: (dict: PDFDict, key: PDFName, value: PDFObject | undefined) => {
+      if (value === undefined) {
+        // Putting a deleted key back would move it to the end; restore the original order instead
+        const entries = dict.entries();
+        undo.push(() => {
+          dict.keys().forEach((k) => dict.delete(k));
+          entries.forEach(([k, v]) => dict.set(k, v));
+        });
+        dict.delete(key);
+        return;
+      }
+      const old = dict.get(key);
+      undo.push(() => (old === undefined ? dict.delete(key) : dict.set(key, old)));
+      dict.set(key, value);
+    },
+    setItem: (array: PDFArray, index: number, value: PDFObject) => {
+      const old = array.get(index);
+      undo.push(() => array.set(index, old));
+      array.set(index, value);
+    },
+    assign: (ref: PDFRef, object: PDFObject) => {
+      const old = context.lookup(ref);
+      undo.push(() => context.assign(ref, old!));
+      context.assign(ref, object);
+    },
+    remove: (ref: PDFRef) => {
+      const old = context.lookup(ref);
+      if (old === undefined) return;
+      undo.push(() => context.assign(ref, old));
+      context.delete(ref);
+    },
+    rollback: () => undo.splice(0).reverse().forEach((step) => step()),
+  };
+};
+
+type Journal = ReturnType<typeof createJournal>;
+
+const dictOf = (object: PDFObject) =>
+  object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+
+const entrySize = (key: PDFName, value: PDFObject) => key.sizeInBytes() + value.sizeInBytes() + 2;
+
+/** Removes `key` from every reachable dictionary; returns the number of dictionaries and the bytes dropped */
+const dropKey = (context: PDFContext, journal: Journal, key: PDFName, keep?: (dict: PDFDict) => boolean) => {
+  let objects = 0;
+  let bytes = 0;
+  walkReachable(context, (_, object) => {
+    const dict = dictOf(object);
+    const value = dict?.get(key);
+    if (!dict || value === undefined || keep?.(dict)) return;
+    bytes += entrySize(key, value);
+    journal.set(dict, key, undefined);
+    objects++;
+  });
+  return { objects, bytes };
+};
+
+/** XMP that only matters to the authoring application: edit history, thumbnails, embedded source data */
+const XMP_BULK = ['Thumbnails', 'History', 'Pantry', 'Manifest', 'Ingredients', 'DocumentAncestors'];
+
+/** The packet without bulky properties, padding or indentation */
+const minimizeXmp = (xmp: string) =>
+  removeElements(xmp, XMP_BULK.flatMap((name) => findElements(xmp, name)))
+    .replace(/>\s+</g, '><')
+    .trim();
+
+const FNV_OFFSET = 0x811c9dc5;
+const fnv = (bytes: Uint8Array) => {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < bytes.length; i++) hash = Math.imul(hash ^ bytes[i], 0x01000193) >>> 0;
+  return hash;
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/** Points every reference to a key of `replacements` at its value, inside one object */
+const redirect = (object: PDFObject, replacements: Map<PDFRef, PDFRef>, journal: Journal) => {
+  const dict = dictOf(object);
+  if (dict) {
+    for (const [key, value] of dict.entries()) {
+      const target = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (target) journal.set(dict, key, target);
+      else if (!(value instanceof PDFRef)) redirect(value, replacements, journal);
+    }
+  } else if (object instanceof PDFArray) {
+    object.asArray().forEach((value, index) => {
+      const target = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (target) journal.setItem(object, index, target);
+      else if (!(value instanceof PDFRef)) redirect(value, replacements, journal);
+    });
+  }
+};
+
+/** Filters that only armor data as text; anything else is already compressed or lossy */
+const TEXT_FILTERS = ['ASCIIHexDecode', 'ASCII85Decode'];
+
+const isXmp = (dict: PDFDict) =>
+  dict.get(PDFName.of('Type')) === PDFName.of('Metadata') || dict.get(PDFName.of('Subtype')) === PDFName.of('XML');
+
+export interface PdfCleanup {
+  reports: PdfCleanupReport[];
+  /** Why objects a pass would have changed were left as they are */
+  warnings: string[];
+  /** Restores every object and entry the passes changed */
+  undo: () => void;
+}
+
+/**
+ * Runs the selected structural passes on the document in place. Objects a
+ * pass cuts off (a dropped thumbnail's image, a merged duplicate) are deleted
+ * and counted towards that pass; objects that were unreachable to begin with
+ * are only deleted by `unusedObjects`.
+ */
+export const cleanPdfStructure = (context: PDFContext, options: PdfCleanupOptions): PdfCleanup => {
+  const journal = createJournal(context);
+  const reports: PdfCleanupReport[] = [];
+  const warnings: string[] = [];
+  const reason = (e: unknown) => (e instanceof Error ? e.message : String(e));
+  const allRefs = () => context.enumerateIndirectObjects().map(([ref]) => ref);
+  const sizeOf = (ref: PDFRef) => context.lookup(ref)?.sizeInBytes() ?? 0;
+
+  const reachable = walkReachable(context);
+  const garbage = new Set(allRefs().filter((ref) => !reachable.has(ref)));
+
+  /** Deletes what became unreachable since the last call, as part of `pass` */
+  const collect = (pass: PdfCleanupPass, changed: { objects: number; bytes: number }) => {
+    const live = walkReachable(context);
+    const orphans = allRefs().filter((ref) => !live.has(ref) && !garbage.has(ref));
+    const bytes = orphans.reduce((sum, ref) => sum + sizeOf(ref), changed.bytes);
+    orphans.forEach((ref) => journal.remove(ref));
+    reports.push({ pass, objects: changed.objects + orphans.length, bytesSaved: bytes });
+  };
+
+  if (options.unusedObjects) {
+    const bytes = [...garbage].reduce((sum, ref) => sum + sizeOf(ref), 0);
+    garbage.forEach((ref) => journal.remove(ref));
+    reports.push({ pass: 'unusedObjects', objects: garbage.size, bytesSaved: bytes });
+  }
+
+  if (options.thumbnails) collect('thumbnails', dropKey(context, journal, PDFName.of('Thumb')));
+  if (options.privateData) collect('privateData', dropKey(context, journal, PDFName.of('PieceInfo')));
+
+  if (options.metadata !== 'keep') {
+    const catalog = context.lookup(context.trailerInfo.Root);
+    const keepCatalog = options.metadata === 'minimize';
+    const changed = dropKey(context, journal, PDFName.of('Metadata'), (dict) => keepCatalog && dict === catalog);
+    const ref = catalog instanceof PDFDict ? catalog.get(PDFName.of('Metadata')) : undefined;
+    const stream = ref instanceof PDFRef ? context.lookup(ref) : undefined;
+    if (keepCatalog && ref instanceof PDFRef && stream instanceof PDFRawStream) {
+      try {
+        const xmp = new TextDecoder().decode(decodePDFRawStream(stream).decode());
+        const bytes = new TextEncoder().encode(minimizeXmp(xmp));
+        // XMP is left uncompressed so that tools scanning the file for it still find it
+        const dict = stream.dict.clone(context);
+        ['Filter', 'DecodeParms', 'Length'].forEach((key) => dict.delete(PDFName.of(key)));
+        if (bytes.length < stream.getContentsSize()) {
+          changed.bytes += stream.getContentsSize() - bytes.length;
+          changed.objects++;
+          journal.assign(ref, PDFRawStream.of(dict, bytes));
+        }
+      } catch (e) {
+        warnings.push(`Could not minimize XMP metadata ${ref}: ${reason(e)}`);
+      }
+    }
+    collect('metadata', changed);
+  }
+
+  if (options.dedupe) {
+    const groups = new Map<string, { ref: PDFRef; bytes: Uint8Array }[]>();
+    const replacements = new Map<PDFRef, PDFRef>();
+    walkReachable(context, (ref, object) => {
+      if (!(object instanceof PDFRawStream)) return;
+      const bytes = object.getContents();
+      const key = `${object.dict.toString()}|${bytes.length}|${fnv(bytes)}`;
+      const group = groups.get(key) ?? [];
+      const first = group.find((candidate) => sameBytes(candidate.bytes, bytes));
+      if (first) replacements.set(ref, first.ref);
+      else groups.set(key, [...group, { ref, bytes }]);
+    });
+    if (replacements.size > 0) {
+      walkReachable(context, (_, object) => redirect(object, replacements, journal));
+    }
+    collect('dedupe', { objects: 0, bytes: 0 });
+  }
+
+  if (options.recompress) {
+    let objects = 0;
+    let bytes = 0;
+    walkReachable(context, (ref, object) => {
+      if (!(object instanceof PDFRawStream) || isXmp(object.dict)) return;
+      const filter = object.dict.get(PDFName.of('Filter'));
+      const filters = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+      if (!filters.every((f) => f instanceof PDFName && TEXT_FILTERS.includes(f.decodeText()))) return;
+      if (object.dict.has(PDFName.of('DecodeParms'))) return;
+      try {
+        const compressed = deflateMax(filters.length > 0 ? decodePDFRawStream(object).decode() : object.getContents());
+        if (compressed.length >= object.getContentsSize()) return;
+        const dict = object.dict.clone(context);
+        dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+        bytes += object.getContentsSize() - compressed.length;
+        objects++;
+        journal.assign(ref, PDFRawStream.of(dict, compressed));
+      } catch (e) {
+        warnings.push(`Could not recompress stream ${ref}: ${reason(e)}`);
+      }
+    });
+    reports.push({ pass: 'recompress', objects, bytesSaved: bytes });
+  }
+
+  return { reports, warnings, undo: journal.rollback };
+};
@@ -0,0 +1,148 @@
+/**
+ * Minimal lexer for PDF content streams: enough to follow resource names
+ * and text-showing operators without building a page model.
+ */
+
+export type ContentOperand =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'string'; value: Uint8Array }
+  | { type: 'array'; value: ContentOperand[] }
+  /** Booleans, null and inline dictionaries, which no caller needs to read */
+  | { type: 'other' };
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const isRegular = (b: number | undefined) => b !== undefined && !WHITESPACE.has(b) && !DELIMITERS.has(b);
+
+const hexValue = (b: number) =>
+  b >= 0x30 && b <= 0x39 ? b - 0x30 : b >= 0x41 && b <= 0x46 ? b - 0x37 : b >= 0x61 && b <= 0x66 ? b - 0x57 : -1;
+
+const ESCAPES: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+
+/**
+ * Calls `onOperator` for every operator with the operands that precede it.
+ * Inline image data (BI ... ID ... EI) is skipped.
+ */
+export const forEachOperation = (
+  bytes: Uint8Array,
+  onOperator: (operator: string, operands: ContentOperand[]) => void
+): void => {
+  let i = 0;
+  // Nested arrays and inline dictionaries collect into the innermost open container
+  const stack: ContentOperand[][] = [[]];
+  const push = (operand: ContentOperand) => stack[stack.length - 1].push(operand);
+
+  const readLiteral = (): Uint8Array => {
+    const out: number[] = [];
+    let depth = 1;
+    i++;
+    while (i < bytes.length) {
+      const b = bytes[i++];
+      if (b === 0x5c) {
+        const next = bytes[i++];
+        if (next >= 0x30 && next <= 0x37) {
+          let code = next - 0x30;
+          for (let k = 0; k < 2 && bytes[i] >= 0x30 && bytes[i] <= 0x37; k++) code = code * 8 + bytes[i++] - 0x30;
+          out.push(code & 0xff);
+        } else if (next === 0x0d) {
+          if (bytes[i] === 0x0a) i++;
+        } else if (next !== 0x0a) {
+          out.push(ESCAPES[next] ?? next);
+        }
+      } else if (b === 0x28) {
+        depth++;
+        out.push(b);
+      } else if (b === 0x29) {
+        if (--depth === 0) break;
+        out.push(b);
+      } else {
+        out.push(b);
+      }
+    }
+    return Uint8Array.from(out);
+  };
+
+  const readHex = (): Uint8Array => {
+    const out: number[] = [];
+    let high = -1;
+    i++;
+    while (i < bytes.length && bytes[i] !== 0x3e) {
+      const v = hexValue(bytes[i++]);
+      if (v < 0) continue;
+      if (high < 0) {
+        high = v;
+      } else {
+        out.push(high * 16 + v);
+        high = -1;
+      }
+    }
+    if (high >= 0) out.push(high * 16);
+    i++;
+    return Uint8Array.from(out);
+  };
+
+  const readToken = () => {
+    const start = i;
+    while (isRegular(bytes[i])) i++;
+    return String.fromCharCode(...bytes.subarray(start, i));
+  };
+
+  /** Moves past the inline image data that follows the ID operator */
+  const skipInlineImage = () => {
+    i++;
+    while (i + 1 < bytes.length) {
+      if (bytes[i] === 0x45 && bytes[i + 1] === 0x49 && WHITESPACE.has(bytes[i - 1]) && !isRegular(bytes[i + 2])) {
+        i += 2;
+        return;
+      }
+      i++;
+    }
+    i = bytes.length;
+  };
+
+  while (i < bytes.length) {
+    const b = bytes[i];
+    if (WHITESPACE.has(b)) {
+      i++;
+    } else if (b === 0x25) {
+      while (i < bytes.length && bytes[i] !== 0x0a && bytes[i] !== 0x0d) i++;
+    } else if (b === 0x28) {
+      push({ type: 'string', value: readLiteral() });
+    } else if (b === 0x3c && bytes[i + 1] === 0x3c) {
+      i += 2;
+      stack.push([]);
+    } else if (b === 0x3e && bytes[i + 1] === 0x3e) {
+      i += 2;
+      if (stack.length > 1) stack.pop();
+      push({ type: 'other' });
+    } else if (b === 0x3c) {
+      push({ type: 'string', value: readHex() });
+    } else if (b === 0x5b) {
+      i++;
+      stack.push([]);
+    } else if (b === 0x5d) {
+      i++;
+      const items = stack.length > 1 ? stack.pop()! : [];
+      push({ type: 'array', value: items });
+    } else if (b === 0x2f) {
+      i++;
+      push({ type: 'name', value: readToken().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) });
+    } else if (DELIMITERS.has(b)) {
+      i++;
+    } else {
+      const token = readToken();
+      const number = Number(token);
+      if (token !== '' && !Number.isNaN(number)) {
+        push({ type: 'number', value: number });
+      } else if (['true', 'false', 'null'].includes(token)) {
+        push({ type: 'other' });
+      } else if (stack.length === 1) {
+        onOperator(token, stack[0]);
+        stack[0] = [];
+        if (token === 'ID') skipInlineImage();
+      }
+    }
+  }
+};
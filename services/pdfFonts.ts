@@ -0,0 +1,431 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from 'pdf-lib';
+import {
+  cffCidToGid,
+  FontProgramFormat,
+  glyphCount,
+  readCmaps,
+  readGlyphNames,
+  readSfnt,
+  subsetFontProgram,
+} from './fontSubsetter';
+import { ContentOperand, forEachOperation } from './pdfContent';
+import { walkReachable } from './pdfGraph';
+import { deflateMax } from './pngEncoder';
+
+/** An embedded font program and what the document needs from it */
+export interface PdfFontProgram {
+  ref: PDFRef;
+  stream: PDFRawStream;
+  /** PostScript name from the font descriptor */
+  name: string;
+  descriptor: PDFDict;
+  /** Glyph ids the document draws; undefined when the program cannot be subset */
+  glyphs?: Set<number>;
+  format?: FontProgramFormat;
+  /** Whether simple fonts use the program, which may look glyphs up by name */
+  keepGlyphNames: boolean;
+  /** Why the program is left alone */
+  reason?: string;
+  /** Descriptors and font dictionaries whose names get the subset tag */
+  namedBy: { dict: PDFDict; key: 'FontName' | 'BaseFont' }[];
+}
+
+const name = (obj: PDFObject | undefined) => (obj instanceof PDFName ? obj.decodeText() : undefined);
+
+const lookupDict = (context: PDFContext, obj: PDFObject | undefined) => {
+  const resolved = obj instanceof PDFRef ? context.lookup(obj) : obj;
+  return resolved instanceof PDFDict ? resolved : undefined;
+};
+
+const streamBytes = (stream: PDFObject | undefined): Uint8Array | undefined =>
+  stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : undefined;
+
+const isSubsetName = (fontName: string) => /^[A-Z]{6}\+/.test(fontName);
+
+/** Unicode of WinAnsiEncoding codes 0x80-0x9f; the rest match Latin-1 */
+const WIN_ANSI_HIGH = [
+  0x20ac, 0, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0, 0x017d, 0,
+  0, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0, 0x017e, 0x0178,
+];
+
+interface FontUsage {
+  /** Character codes shown with each font dictionary */
+  codes: Map<PDFDict, Set<number>>;
+  /** Fonts that may draw text this walk cannot see: form defaults, ExtGState fonts, unreadable streams */
+  opaque: Set<PDFDict>;
+}
+
+/**
+ * Follows every content stream that can show text: pages, Form XObjects,
+ * tiling patterns, Type 3 glyph procedures and annotation appearances, and
+ * records which codes are shown with which font.
+ */
+const collectFontUsage = (pdfDoc: PDFDocument): FontUsage => {
+  const { context } = pdfDoc;
+  const codes = new Map<PDFDict, Set<number>>();
+  const opaque = new Set<PDFDict>();
+  const scanned = new Map<PDFStream, Set<PDFDict | undefined>>();
+
+  const resource = (resources: PDFDict | undefined, category: string, key: string) =>
+    lookupDict(context, resources?.get(PDFName.of(category)))?.get(PDFName.of(key));
+
+  const fontsOf = (resources: PDFDict | undefined) => {
+    const fonts = lookupDict(context, resources?.get(PDFName.of('Font')));
+    return fonts ? fonts.values().map((f) => lookupDict(context, f)).filter((f): f is PDFDict => !!f) : [];
+  };
+
+  const record = (font: PDFDict | undefined, operand: ContentOperand | undefined) => {
+    if (!font || !operand) return;
+    if (operand.type === 'array') {
+      operand.value.forEach((item) => record(font, item));
+      return;
+    }
+    if (operand.type !== 'string') return;
+    const set = codes.get(font) ?? new Set<number>();
+    codes.set(font, set);
+    const bytes = operand.value;
+    if (name(font.get(PDFName.of('Subtype'))) === 'Type0') {
+      for (let i = 0; i + 1 < bytes.length; i += 2) set.add((bytes[i] << 8) | bytes[i + 1]);
+    } else {
+      bytes.forEach((b) => set.add(b));
+    }
+  };
+
+  const scan = (stream: PDFStream, resources: PDFDict | undefined) => {
+    const seen = scanned.get(stream) ?? new Set();
+    if (seen.has(resources)) return;
+    seen.add(resources);
+    scanned.set(stream, seen);
+
+    let content: Uint8Array | undefined;
+    try {
+      content = streamBytes(stream);
+    } catch {
+      content = undefined;
+    }
+    if (!content) {
+      fontsOf(resources).forEach((font) => opaque.add(font));
+      return;
+    }
+
+    let font: PDFDict | undefined;
+    const saved: (PDFDict | undefined)[] = [];
+    forEachOperation(content, (operator, operands) => {
+      const last = operands[operands.length - 1];
+      switch (operator) {
+        case 'q':
+          saved.push(font);
+          break;
+        case 'Q':
+          if (saved.length > 0) font = saved.pop();
+          break;
+        case 'Tf':
+          font = operands[0]?.type === 'name' ? lookupDict(context, resource(resources, 'Font', operands[0].value)) : undefined;
+          if (font && name(font.get(PDFName.of('Subtype'))) === 'Type3') scanType3(font, resources);
+          break;
+        case 'Tj':
+        case 'TJ':
+        case "'":
+        case '"':
+          record(font, last);
+          break;
+        case 'Do':
+          if (last?.type === 'name') scanForm(resource(resources, 'XObject', last.value), resources);
+          break;
+        case 'scn':
+        case 'SCN':
+          if (last?.type === 'name') scanForm(resource(resources, 'Pattern', last.value), resources);
+          break;
+        case 'gs': {
+          // A font set through the graphics state is applied without Tf
+          const state = last?.type === 'name' ? lookupDict(context, resource(resources, 'ExtGState', last.value)) : undefined;
+          const fontEntry = state?.lookup(PDFName.of('Font'));
+          if (fontEntry instanceof PDFArray) {
+            const stateFont = lookupDict(context, fontEntry.get(0));
+            if (stateFont) opaque.add(stateFont);
+          }
+          break;
+        }
+      }
+    });
+  };
+
+  /** Form XObjects and tiling patterns; without own resources they use the caller's */
+  const scanForm = (obj: PDFObject | undefined, inherited: PDFDict | undefined) => {
+    const stream = obj instanceof PDFRef ? context.lookup(obj) : obj;
+    if (!(stream instanceof PDFStream)) return;
+    const isForm = name(stream.dict.get(PDFName.of('Subtype'))) === 'Form';
+    const isPattern = stream.dict.has(PDFName.of('PatternType'));
+    if (!isForm && !isPattern) return;
+    scan(stream, lookupDict(context, stream.dict.get(PDFName.of('Resources'))) ?? inherited);
+  };
+
+  const scanType3 = (font: PDFDict, inherited: PDFDict | undefined) => {
+    const procs = lookupDict(context, font.get(PDFName.of('CharProcs')));
+    const resources = lookupDict(context, font.get(PDFName.of('Resources'))) ?? inherited;
+    procs?.values().forEach((proc) => {
+      const stream = proc instanceof PDFRef ? context.lookup(proc) : proc;
+      if (stream instanceof PDFStream) scan(stream, resources);
+    });
+  };
+
+  const scanAppearance = (obj: PDFObject | undefined, inherited: PDFDict | undefined) => {
+    const resolved = obj instanceof PDFRef ? context.lookup(obj) : obj;
+    if (resolved instanceof PDFStream) {
+      scan(resolved, lookupDict(context, resolved.dict.get(PDFName.of('Resources'))) ?? inherited);
+    } else if (resolved instanceof PDFDict) {
+      resolved.values().forEach((state) => scanAppearance(state, inherited));
+    }
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    const resources = page.node.Resources();
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray ? contents.asArray() : contents ? [contents] : [];
+    streams.forEach((s) => {
+      const stream = s instanceof PDFRef ? context.lookup(s) : s;
+      if (stream instanceof PDFStream) scan(stream, resources);
+    });
+    page.node.Annots()?.asArray().forEach((annot) => {
+      const appearance = lookupDict(context, lookupDict(context, annot)?.get(PDFName.of('AP')));
+      ['N', 'R', 'D'].forEach((key) => scanAppearance(appearance?.get(PDFName.of(key)), resources));
+    });
+  }
+
+  // Form fields regenerate their appearance with any character the user types
+  const acroForm = lookupDict(context, pdfDoc.catalog.get(PDFName.of('AcroForm')));
+  fontsOf(lookupDict(context, acroForm?.get(PDFName.of('DR')))).forEach((font) => opaque.add(font));
+
+  return { codes, opaque };
+};
+
+/** Glyph ids of a CIDFont's CIDs, through CIDToGIDMap or the CFF charset */
+const cidGlyphs = (
+  context: PDFContext,
+  cidFont: PDFDict,
+  program: Uint8Array,
+  format: FontProgramFormat,
+  cids: Set<number>
+): Set<number> => {
+  const glyphs = new Set<number>();
+  if (name(cidFont.get(PDFName.of('Subtype'))) === 'CIDFontType0') {
+    const map = cffCidToGid(program, format);
+    cids.forEach((cid) => {
+      const gid = map ? map.get(cid) : cid;
+      if (gid !== undefined) glyphs.add(gid);
+    });
+    return glyphs;
+  }
+  const mapObj = cidFont.get(PDFName.of('CIDToGIDMap'));
+  const map = mapObj instanceof PDFRef ? streamBytes(context.lookup(mapObj)) : undefined;
+  cids.forEach((cid) => glyphs.add(map ? (map[cid * 2] << 8) | map[cid * 2 + 1] : cid));
+  return glyphs;
+};
+
+/**
+ * Glyph ids a simple TrueType font can reach from its codes. Viewers differ in
+ * how they map codes to glyphs, so every route is kept: the (1,0) and (3,0)
+ * cmaps, the (3,1) cmap through WinAnsi, glyph names from /Differences, and
+ * the code itself as a glyph id.
+ */
+const simpleGlyphs = (context: PDFContext, font: PDFDict, program: Uint8Array, codes: Set<number>): Set<number> => {
+  const sfnt = readSfnt(program);
+  const cmaps = readCmaps(sfnt);
+  const glyphNames = readGlyphNames(sfnt);
+  const differences = new Map<number, string>();
+  const encoding = lookupDict(context, font.get(PDFName.of('Encoding')));
+  let code = 0;
+  encoding?.lookup(PDFName.of('Differences'), PDFArray)?.asArray().forEach((item) => {
+    const glyphName = name(item);
+    if (item instanceof PDFNumber) code = item.asNumber();
+    else if (glyphName !== undefined) differences.set(code++, glyphName);
+  });
+
+  const glyphs = new Set<number>();
+  const add = (gid: number | undefined) => {
+    if (gid) glyphs.add(gid);
+  };
+  codes.forEach((c) => {
+    add(c);
+    add(cmaps.get('1/0')?.(c));
+    add(cmaps.get('3/0')?.(c));
+    add(cmaps.get('3/0')?.(0xf000 | c));
+    add(cmaps.get('3/1')?.(c));
+    add(cmaps.get('3/1')?.(c >= 0x80 && c < 0xa0 ? WIN_ANSI_HIGH[c - 0x80] : c));
+    const glyphName = differences.get(c);
+    if (glyphName) {
+      add(glyphNames.get(glyphName));
+      const unicode = /^uni([0-9A-F]{4})$/.exec(glyphName);
+      if (unicode) add(cmaps.get('3/1')?.(parseInt(unicode[1], 16)));
+    }
+  });
+  return glyphs;
+};
+
+/** Program format of a font file, or why it is not handled */
+const programFormat = (descriptor: PDFDict, stream: PDFRawStream): FontProgramFormat | string => {
+  if (stream.dict.has(PDFName.of('DecodeParms'))) return 'Font stream uses a predictor';
+  if (descriptor.has(PDFName.of('FontFile2'))) return 'sfnt';
+  if (descriptor.has(PDFName.of('FontFile'))) return 'Type 1 fonts are not subset';
+  const subtype = name(stream.dict.get(PDFName.of('Subtype')));
+  if (subtype === 'OpenType') return 'sfnt';
+  if (subtype === 'CIDFontType0C') return 'cff';
+  return `${subtype ?? 'Unknown'} font programs are not subset`;
+};
+
+/**
+ * Finds every embedded font program and works out which of its glyphs the
+ * document draws. Programs shared by several font dictionaries get the union;
+ * a program is only subset when every font using it could be followed.
+ */
+export const analyzePdfFonts = (pdfDoc: PDFDocument): PdfFontProgram[] => {
+  const { context } = pdfDoc;
+  const usage = collectFontUsage(pdfDoc);
+  const programs = new Map<PDFRef, PdfFontProgram & { users: { font: PDFDict; cidFont?: PDFDict }[] }>();
+
+  walkReachable(context, (_, object) => {
+    if (!(object instanceof PDFDict) || name(object.get(PDFName.of('Type'))) !== 'Font') return;
+    const subtype = name(object.get(PDFName.of('Subtype')));
+    if (subtype === 'CIDFontType0' || subtype === 'CIDFontType2') return;
+    const cidFont = subtype === 'Type0'
+      ? lookupDict(context, object.lookup(PDFName.of('DescendantFonts'), PDFArray)?.get(0))
+      : undefined;
+    const descriptor = lookupDict(context, (cidFont ?? object).get(PDFName.of('FontDescriptor')));
+    const fileRef = ['FontFile2', 'FontFile3', 'FontFile'].map((key) => descriptor?.get(PDFName.of(key))).find((f) => f);
+    if (!descriptor || !(fileRef instanceof PDFRef)) return;
+    const stream = context.lookup(fileRef);
+    if (!(stream instanceof PDFRawStream)) return;
+
+    let program = programs.get(fileRef);
+    if (!program) {
+      program = {
+        ref: fileRef,
+        stream,
+        name: name(descriptor.get(PDFName.of('FontName'))) ?? fileRef.toString(),
+        descriptor,
+        keepGlyphNames: false,
+        namedBy: [{ dict: descriptor, key: 'FontName' }],
+        users: [],
+      };
+      programs.set(fileRef, program);
+    }
+    program.users.push({ font: object, cidFont });
+    program.namedBy.push({ dict: object, key: 'BaseFont' });
+    if (cidFont) program.namedBy.push({ dict: cidFont, key: 'BaseFont' });
+  });
+
+  return [...programs.values()].map(({ users, ...program }) => {
+    const format = programFormat(program.descriptor, program.stream);
+    if (isSubsetName(program.name)) return { ...program, reason: 'Already a subset' };
+    if (format !== 'sfnt' && format !== 'cff') return { ...program, reason: format };
+
+    let bytes: Uint8Array;
+    try {
+      bytes = decodePDFRawStream(program.stream).decode();
+    } catch (e) {
+      return { ...program, reason: `Font stream cannot be decoded: ${e instanceof Error ? e.message : e}` };
+    }
+
+    const glyphs = new Set<number>();
+    let keepGlyphNames = false;
+    for (const { font, cidFont } of users) {
+      if (usage.opaque.has(font)) return { ...program, reason: 'Used by form fields or the graphics state' };
+      const codes = usage.codes.get(font);
+      if (!codes) continue;
+      try {
+        if (cidFont) {
+          const encoding = name(font.get(PDFName.of('Encoding')));
+          if (encoding !== 'Identity-H' && encoding !== 'Identity-V') {
+            return { ...program, reason: `Encoding ${encoding ?? '(embedded CMap)'} is not supported` };
+          }
+          cidGlyphs(context, cidFont, bytes, format, codes).forEach((g) => glyphs.add(g));
+        } else if (name(font.get(PDFName.of('Subtype'))) === 'TrueType' && format === 'sfnt') {
+          keepGlyphNames = true;
+          simpleGlyphs(context, font, bytes, codes).forEach((g) => glyphs.add(g));
+        } else {
+          return { ...program, reason: 'Simple CFF fonts are not subset' };
+        }
+      } catch (e) {
+        return { ...program, reason: e instanceof Error ? e.message : String(e) };
+      }
+    }
+    if (glyphs.size === 0) return { ...program, reason: 'No text drawn with this font was found' };
+    return { ...program, format, glyphs, keepGlyphNames };
+  });
+};
+
+export interface SubsetPdfFont {
+  stream: PDFRawStream;
+  glyphsBefore: number;
+  glyphsAfter: number;
+  /** Six-letter subset tag for the font names */
+  tag: string;
+}
+
+/**
+ * Builds the subset font file stream for a program that `analyzePdfFonts`
+ * found subsettable. The original dictionary is kept apart from its filter.
+ */
+export const subsetPdfFont = (context: PDFContext, program: PdfFontProgram): SubsetPdfFont => {
+  const bytes = decodePDFRawStream(program.stream).decode();
+  const subset = subsetFontProgram(bytes, program.format!, program.glyphs!, { keepGlyphNames: program.keepGlyphNames });
+  const dict = program.stream.dict.clone(context);
+  ['Filter', 'DecodeParms', 'Length', 'Length1'].forEach((key) => dict.delete(PDFName.of(key)));
+  dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+  if (program.format === 'sfnt' && !dict.has(PDFName.of('Subtype'))) dict.set(PDFName.of('Length1'), context.obj(subset.bytes.length));
+
+  // Deterministic tag, so repeated runs produce identical files
+  let hash = 0x811c9dc5;
+  [...program.glyphs!].sort((a, b) => a - b).forEach((g) => {
+    hash = Math.imul(hash ^ g, 0x01000193) >>> 0;
+  });
+  const tag = Array.from({ length: 6 }, (_, i) => String.fromCharCode(65 + (Math.floor(hash / 26 ** i) % 26))).join('');
+
+  return {
+    stream: PDFRawStream.of(dict, deflateMax(subset.bytes)),
+    glyphsBefore: glyphCount(bytes, program.format!),
+    glyphsAfter: subset.glyphs,
+    tag,
+  };
+};
+
+/**
+ * Swaps in the subset program and prefixes the font names with the subset
+ * tag, as PDF requires for subset fonts. CIDSet and CharSet, which would now
+ * list glyphs that are gone, are dropped. Returns a function that undoes it all.
+ */
+export const applyPdfFontSubset = (context: PDFContext, program: PdfFontProgram, subset: SubsetPdfFont): (() => void) => {
+  const entries = [
+    ...program.namedBy,
+    { dict: program.descriptor, key: 'CIDSet' },
+    { dict: program.descriptor, key: 'CharSet' },
+  ].map(({ dict, key }) => ({ dict, key, value: dict.get(PDFName.of(key)) }));
+
+  entries.forEach(({ dict, key, value }) => {
+    if (key === 'CIDSet' || key === 'CharSet') {
+      dict.delete(PDFName.of(key));
+      return;
+    }
+    const current = name(value);
+    if (current && !isSubsetName(current)) dict.set(PDFName.of(key), PDFName.of(`${subset.tag}+${current}`));
+  });
+  context.assign(program.ref, subset.stream);
+  return () => {
+    entries.forEach(({ dict, key, value }) => {
+      if (value) dict.set(PDFName.of(key), value);
+    });
+    context.assign(program.ref, program.stream);
+  };
+};
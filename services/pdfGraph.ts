@@ -0,0 +1,67 @@
+import { PDFArray, PDFContext, PDFDict, PDFName, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+
+/**
+ * Visits every indirect object reachable from the trailer (catalog, info,
+ * page tree, forms, annotations, patterns, ...), each exactly once.
+ * Returns the set of reachable references.
+ */
+export const walkReachable = (
+  context: PDFContext,
+  visit?: (ref: PDFRef, object: PDFObject) => void
+): Set<PDFRef> => {
+  const reachable = new Set<PDFRef>();
+  const stack: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info, context.trailerInfo.Encrypt]
+    .filter((o): o is PDFObject => o !== undefined);
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current instanceof PDFRef) {
+      if (reachable.has(current)) continue;
+      reachable.add(current);
+      const target = context.lookup(current);
+      if (target === undefined) continue;
+      visit?.(current, target);
+      stack.push(target);
+    } else if (current instanceof PDFStream) {
+      stack.push(current.dict);
+    } else if (current instanceof PDFDict) {
+      for (const [, value] of current.entries()) stack.push(value);
+    } else if (current instanceof PDFArray) {
+      stack.push(...current.asArray());
+    }
+  }
+  return reachable;
+};
+
+export interface PdfImageRefs {
+  /** Image XObjects that are painted directly, deduplicated by reference */
+  images: PDFRef[];
+  /** Images only used as /SMask or /Mask of another image */
+  masks: number;
+}
+
+/**
+ * Collects every image XObject reachable from the document, wherever it is
+ * referenced: page resources, inherited resources, Form XObjects, annotation
+ * appearance streams, patterns or thumbnails. Soft masks and stencil masks of
+ * other images are excluded because they must keep their own format.
+ */
+export const collectImageRefs = (context: PDFContext): PdfImageRefs => {
+  const images = new Set<PDFRef>();
+  const masks = new Set<PDFRef>();
+
+  walkReachable(context, (ref, object) => {
+    if (!(object instanceof PDFStream)) return;
+    if (object.dict.get(PDFName.of('Subtype')) !== PDFName.of('Image')) return;
+    images.add(ref);
+    for (const key of ['SMask', 'Mask']) {
+      const mask = object.dict.get(PDFName.of(key));
+      if (mask instanceof PDFRef) masks.add(mask);
+    }
+  });
+
+  return {
+    images: [...images].filter((ref) => !masks.has(ref)),
+    masks: [...masks].filter((ref) => images.has(ref)).length,
+  };
+};
@@ -0,0 +1,680 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import { CompressedImage, decodeToPixels, encodePixels, resizePixels, RgbaImage, scaledSize } from './imageCodec';
+import { indexExactly, QuantizedImage } from './paletteQuantizer';
+import { deflateMax, filterScanlines, packSamples, paletteBitDepth } from './pngEncoder';
+import { searchQuality } from './qualityGuard';
+
+type ColorSpace =
+  | { kind: 'gray' }
+  | { kind: 'rgb' }
+  | { kind: 'cmyk' }
+  | { kind: 'lab'; whitePoint: number[]; range: number[] }
+  | { kind: 'indexed'; base: ColorSpace; hival: number; lookup: Uint8Array }
+  | { kind: 'unsupported'; name: string };
+
+export type DecodedPdfImage =
+  | {
+    status: 'decoded';
+    image: RgbaImage;
+    /** Unfiltered samples in the original color space, absent for DCT/JPX sources */
+    samples?: Uint8Array;
+    /** Photographic content that tolerates lossy re-encoding */
+    continuousTone: boolean;
+  }
+  | { status: 'skipped'; reason: string };
+
+/** Filters that produce a bitmap rather than a byte stream; only valid as the last filter */
+const IMAGE_CODECS = ['DCTDecode', 'JPXDecode', 'CCITTFaxDecode', 'JBIG2Decode'];
+
+/**
+ * Keys carried over unchanged from the original image dictionary
+ */
+const PRESERVED_KEYS = ['SMask', 'Mask', 'Intent', 'Interpolate', 'OC', 'StructParent', 'Metadata', 'Name'];
+
+const name = (obj: PDFObject | undefined) => (obj instanceof PDFName ? obj.decodeText() : undefined);
+
+const numberAt = (dict: PDFDict, key: string): number | undefined => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+const numbers = (array: PDFArray | undefined): number[] | undefined =>
+  array?.asArray().map((item) => (item instanceof PDFNumber ? item.asNumber() : 0));
+
+const asArray = (context: PDFContext, obj: PDFObject | undefined): PDFObject[] => {
+  const resolved = obj instanceof PDFRef ? context.lookup(obj) : obj;
+  if (resolved === undefined) return [];
+  return resolved instanceof PDFArray ? resolved.asArray().map((o) => (o instanceof PDFRef ? context.lookup(o)! : o)) : [resolved];
+};
+
+const bytesOf = (context: PDFContext, obj: PDFObject | undefined): Uint8Array | undefined => {
+  const resolved = obj instanceof PDFRef ? context.lookup(obj) : obj;
+  if (resolved instanceof PDFString || resolved instanceof PDFHexString) return resolved.asBytes();
+  if (resolved instanceof PDFRawStream) return decodePDFRawStream(resolved).decode();
+  return undefined;
+};
+
+const resolveColorSpace = (context: PDFContext, obj: PDFObject | undefined): ColorSpace => {
+  const resolved = obj instanceof PDFRef ? context.lookup(obj) : obj;
+  if (resolved instanceof PDFName) {
+    switch (resolved.decodeText()) {
+      case 'DeviceGray': case 'G': case 'CalGray': return { kind: 'gray' };
+      case 'DeviceRGB': case 'RGB': case 'CalRGB': return { kind: 'rgb' };
+      case 'DeviceCMYK': case 'CMYK': return { kind: 'cmyk' };
+      default: return { kind: 'unsupported', name: resolved.decodeText() };
+    }
+  }
+  if (!(resolved instanceof PDFArray) || resolved.size() === 0) {
+    return { kind: 'unsupported', name: 'missing' };
+  }
+
+  const family = name(resolved.lookup(0));
+  switch (family) {
+    case 'CalGray': return { kind: 'gray' };
+    case 'CalRGB': return { kind: 'rgb' };
+    case 'ICCBased': {
+      const profile = resolved.lookup(1);
+      const dict = profile instanceof PDFStream ? profile.dict : undefined;
+      const n = dict && numberAt(dict, 'N');
+      if (n === 1) return { kind: 'gray' };
+      if (n === 3) return { kind: 'rgb' };
+      if (n === 4) return { kind: 'cmyk' };
+      return dict ? resolveColorSpace(context, dict.get(PDFName.of('Alternate'))) : { kind: 'unsupported', name: 'ICCBased' };
+    }
+    case 'Lab': {
+      const params = resolved.lookup(1);
+      const dict = params instanceof PDFDict ? params : undefined;
+      return {
+        kind: 'lab',
+        whitePoint: numbers(dict?.lookupMaybe(PDFName.of('WhitePoint'), PDFArray)) ?? [0.9505, 1, 1.089],
+        range: numbers(dict?.lookupMaybe(PDFName.of('Range'), PDFArray)) ?? [-100, 100, -100, 100],
+      };
+    }
+    case 'Indexed': case 'I': {
+      const base = resolveColorSpace(context, resolved.get(1));
+      const hival = resolved.lookup(2);
+      const lookup = bytesOf(context, resolved.get(3));
+      if (base.kind === 'unsupported' || base.kind === 'indexed' || !(hival instanceof PDFNumber) || !lookup) {
+        return { kind: 'unsupported', name: 'Indexed' };
+      }
+      return { kind: 'indexed', base, hival: hival.asNumber(), lookup };
+    }
+    default:
+      return { kind: 'unsupported', name: family ?? 'unknown' };
+  }
+};
+
+const componentCount = (cs: ColorSpace): number => {
+  switch (cs.kind) {
+    case 'rgb': case 'lab': return 3;
+    case 'cmyk': return 4;
+    default: return 1;
+  }
+};
+
+const defaultDecode = (cs: ColorSpace, bpc: number): number[] => {
+  switch (cs.kind) {
+    case 'indexed': return [0, (1 << bpc) - 1];
+    case 'lab': return [0, 100, ...cs.range];
+    default: return Array.from({ length: componentCount(cs) }, () => [0, 1]).flat();
+  }
+};
+
+const clampByte = (v: number) => (v <= 0 ? 0 : v >= 255 ? 255 : Math.round(v));
+
+const labToRgb = (cs: Extract<ColorSpace, { kind: 'lab' }>, l: number, a: number, b: number, out: Uint8ClampedArray, o: number) => {
+  const finv = (t: number) => (t > 6 / 29 ? t * t * t : 3 * (6 / 29) ** 2 * (t - 4 / 29));
+  const fy = (l + 16) / 116;
+  const x = cs.whitePoint[0] * finv(fy + a / 500);
+  const y = cs.whitePoint[1] * finv(fy);
+  const z = cs.whitePoint[2] * finv(fy - b / 200);
+  const gamma = (c: number) => 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+  out[o] = clampByte(gamma(3.2406 * x - 1.5372 * y - 0.4986 * z));
+  out[o + 1] = clampByte(gamma(-0.9689 * x + 1.8758 * y + 0.0415 * z));
+  out[o + 2] = clampByte(gamma(0.0557 * x - 0.204 * y + 1.057 * z));
+};
+
+/**
+ * Writes one pixel of `cs` (components already mapped through /Decode) as RGB
+ */
+const toRgb = (cs: ColorSpace, c: number[], out: Uint8ClampedArray, o: number) => {
+  switch (cs.kind) {
+    case 'gray':
+      out[o] = out[o + 1] = out[o + 2] = clampByte(c[0] * 255);
+      break;
+    case 'rgb':
+      out[o] = clampByte(c[0] * 255);
+      out[o + 1] = clampByte(c[1] * 255);
+      out[o + 2] = clampByte(c[2] * 255);
+      break;
+    case 'cmyk': {
+      const k = 1 - c[3];
+      out[o] = clampByte(255 * (1 - c[0]) * k);
+      out[o + 1] = clampByte(255 * (1 - c[1]) * k);
+      out[o + 2] = clampByte(255 * (1 - c[2]) * k);
+      break;
+    }
+    case 'lab':
+      labToRgb(cs, c[0], c[1], c[2], out, o);
+      break;
+  }
+};
+
+/**
+ * Expands an Indexed lookup table to one RGB triple per palette entry
+ */
+const buildPalette = (cs: Extract<ColorSpace, { kind: 'indexed' }>): Uint8ClampedArray => {
+  const n = componentCount(cs.base);
+  const palette = new Uint8ClampedArray((cs.hival + 1) * 3);
+  const comps = new Array<number>(n);
+  for (let i = 0; i <= cs.hival; i++) {
+    for (let c = 0; c < n; c++) {
+      const byte = cs.lookup[i * n + c] ?? 0;
+      if (cs.base.kind === 'lab') {
+        comps[c] = c === 0 ? byte * 100 / 255 : cs.base.range[(c - 1) * 2] + byte * (cs.base.range[(c - 1) * 2 + 1] - cs.base.range[(c - 1) * 2]) / 255;
+      } else {
+        comps[c] = byte / 255;
+      }
+    }
+    toRgb(cs.base, comps, palette, i * 3);
+  }
+  return palette;
+};
+
+/**
+ * Undoes PNG (10-15) and TIFF (2) predictors declared in /DecodeParms
+ */
+const unpredict = (data: Uint8Array, params: PDFDict | undefined): Uint8Array => {
+  const predictor = params ? numberAt(params, 'Predictor') ?? 1 : 1;
+  if (predictor < 2) return data;
+
+  const colors = numberAt(params!, 'Colors') ?? 1;
+  const bpc = numberAt(params!, 'BitsPerComponent') ?? 8;
+  const columns = numberAt(params!, 'Columns') ?? 1;
+  const rowBytes = Math.ceil((columns * colors * bpc) / 8);
+  const bpp = Math.max(1, Math.ceil((colors * bpc) / 8));
+
+  if (predictor === 2) {
+    if (bpc !== 8) throw new Error(`TIFF predictor with ${bpc}-bit samples`);
+    const out = data.slice();
+    for (let row = 0; row + rowBytes <= out.length; row += rowBytes) {
+      for (let i = bpp; i < rowBytes; i++) out[row + i] = (out[row + i] + out[row + i - bpp]) & 0xff;
+    }
+    return out;
+  }
+
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const out = new Uint8Array(rows * rowBytes);
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * (rowBytes + 1)];
+    const src = r * (rowBytes + 1) + 1;
+    const dst = r * rowBytes;
+    const prev = dst - rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[src + i];
+      const left = i >= bpp ? out[dst + i - bpp] : 0;
+      const up = r > 0 ? out[prev + i] : 0;
+      const upLeft = r > 0 && i >= bpp ? out[prev + i - bpp] : 0;
+      let value: number;
+      switch (type) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default: value = raw;
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+/**
+ * Runs a single generic filter through pdf-lib's decoders, then undoes its predictor
+ */
+const applyFilter = (context: PDFContext, data: Uint8Array, filter: string, params: PDFDict | undefined) => {
+  const stream = PDFRawStream.of(context.obj({ Filter: filter }), data);
+  return unpredict(decodePDFRawStream(stream).decode(), params);
+};
+
+/**
+ * Converts raw samples to RGBA according to the color space, bit depth and /Decode array
+ */
+const samplesToRgba = (
+  samples: Uint8Array,
+  width: number,
+  height: number,
+  bpc: number,
+  cs: ColorSpace,
+  decode: number[]
+): RgbaImage => {
+  const comps = componentCount(cs);
+  const stride = Math.ceil((width * comps * bpc) / 8);
+  if (samples.length < stride * height) throw new Error('Image data is truncated');
+
+  const maxSample = 2 ** bpc - 1;
+  const read = (rowStart: number, index: number): number => {
+    if (bpc === 8) return samples[rowStart + index];
+    if (bpc === 16) return (samples[rowStart + index * 2] << 8) | samples[rowStart + index * 2 + 1];
+    const bit = index * bpc;
+    return (samples[rowStart + (bit >> 3)] >> (8 - bpc - (bit & 7))) & maxSample;
+  };
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const palette = cs.kind === 'indexed' ? buildPalette(cs) : undefined;
+  const values = new Array<number>(comps);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * stride;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < comps; c++) {
+        const sample = read(rowStart, x * comps + c);
+        values[c] = decode[c * 2] + (sample * (decode[c * 2 + 1] - decode[c * 2])) / maxSample;
+      }
+      if (palette) {
+        const index = Math.min(cs.kind === 'indexed' ? cs.hival : 0, Math.max(0, Math.round(values[0])));
+        data[o] = palette[index * 3];
+        data[o + 1] = palette[index * 3 + 1];
+        data[o + 2] = palette[index * 3 + 2];
+      } else {
+        toRgb(cs, values, data, o);
+      }
+      data[o + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Pixel size and filter chain of an image XObject as stored, for reporting
+ */
+export const describePdfImage = (context: PDFContext, stream: PDFRawStream) => {
+  const filters = asArray(context, stream.dict.get(PDFName.of('Filter'))).map((f) => name(f) ?? '?');
+  return {
+    width: numberAt(stream.dict, 'Width'),
+    height: numberAt(stream.dict, 'Height'),
+    codec: filters.length > 0 ? filters.join(' + ') : 'uncompressed',
+  };
+};
+
+/**
+ * Decodes an image XObject into RGBA according to /Filter, /DecodeParms,
+ * /BitsPerComponent, /ColorSpace and /Decode. Images that cannot be decoded
+ * faithfully are reported as skipped with a reason instead of throwing.
+ */
+export const decodePdfImage = async (context: PDFContext, stream: PDFRawStream): Promise<DecodedPdfImage> => {
+  const { dict } = stream;
+  const width = numberAt(dict, 'Width') ?? 0;
+  const height = numberAt(dict, 'Height') ?? 0;
+  if (width <= 0 || height <= 0) return { status: 'skipped', reason: 'invalid dimensions' };
+  if (dict.lookupMaybe(PDFName.of('ImageMask'), PDFBool)?.asBoolean()) {
+    return { status: 'skipped', reason: 'stencil mask' };
+  }
+
+  const filters = asArray(context, dict.get(PDFName.of('Filter'))).map((f) => name(f) ?? '');
+  const params = asArray(context, dict.get(PDFName.of('DecodeParms')));
+  const codecIndex = filters.findIndex((f) => IMAGE_CODECS.includes(f));
+  if (codecIndex !== -1 && codecIndex !== filters.length - 1) {
+    return { status: 'skipped', reason: `${filters[codecIndex]} is not the last filter` };
+  }
+
+  let data = stream.getContents();
+  const generic = codecIndex === -1 ? filters : filters.slice(0, codecIndex);
+  try {
+    generic.forEach((filter, i) => {
+      const p = params[i];
+      data = applyFilter(context, data, filter, p instanceof PDFDict ? p : undefined);
+    });
+  } catch (e) {
+    return { status: 'skipped', reason: `cannot decode filter chain (${filters.join(', ')}): ${e}` };
+  }
+
+  const codec = codecIndex === -1 ? undefined : filters[codecIndex];
+  if (codec === 'CCITTFaxDecode' || codec === 'JBIG2Decode') {
+    return { status: 'skipped', reason: `${codec} bilevel image is already compact` };
+  }
+  if (codec === 'DCTDecode' || codec === 'JPXDecode') {
+    if (codec === 'DCTDecode' && dict.has(PDFName.of('Decode'))) {
+      return { status: 'skipped', reason: 'DCT image with custom /Decode array' };
+    }
+    try {
+      const mime = codec === 'DCTDecode' ? 'image/jpeg' : 'image/jp2';
+      const image = await decodeToPixels(new Blob([data], { type: mime }));
+      return { status: 'decoded', image, continuousTone: true };
+    } catch {
+      return { status: 'skipped', reason: `${codec} is not decodable by this browser` };
+    }
+  }
+
+  const cs = resolveColorSpace(context, dict.get(PDFName.of('ColorSpace')));
+  if (cs.kind === 'unsupported') return { status: 'skipped', reason: `unsupported color space ${cs.name}` };
+
+  const bpc = numberAt(dict, 'BitsPerComponent') ?? 8;
+  if (![1, 2, 4, 8, 16].includes(bpc)) return { status: 'skipped', reason: `unsupported bit depth ${bpc}` };
+
+  const decode = numbers(dict.lookupMaybe(PDFName.of('Decode'), PDFArray)) ?? defaultDecode(cs, bpc);
+  try {
+    const image = samplesToRgba(data, width, height, bpc, cs, decode);
+    return { status: 'decoded', image, samples: data, continuousTone: bpc >= 8 && cs.kind !== 'indexed' };
+  } catch (e) {
+    return { status: 'skipped', reason: String(e) };
+  }
+};
+
+/**
+ * Copies the keys that must survive re-encoding onto a fresh image dictionary
+ */
+const buildImageDict = (source: PDFDict, fields: Record<string, PDFObject | string | number>) => {
+  const dict: Record<string, PDFObject | string | number> = { Type: 'XObject', Subtype: 'Image', ...fields };
+  for (const key of PRESERVED_KEYS) {
+    const value = source.get(PDFName.of(key));
+    if (value !== undefined) dict[key] = value;
+  }
+  return dict;
+};
+
+/**
+ * Color space to declare for decoded RGB data (a canvas-encoded JPEG or an exact palette):
+ * RGB-family spaces are kept so ICC profiles survive, everything else becomes DeviceRGB
+ */
+const jpegColorSpace = (context: PDFContext, original: PDFObject | undefined): PDFObject | string => {
+  if (original && resolveColorSpace(context, original).kind === 'rgb') return original;
+  return 'DeviceRGB';
+};
+
+/** JPEG start-of-image marker */
+const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+/**
+ * Wraps encoder output as a raw DCTDecode stream. The JPEG bytes are written
+ * unmodified: no extra Flate layer, and nothing but JPEG is accepted, since
+ * PDF has no filter for WebP or PNG data.
+ */
+const embedJpeg = (
+  context: PDFContext,
+  bytes: Uint8Array,
+  dict: Record<string, PDFObject | string | number>
+): PDFRawStream => {
+  if (!isJpeg(bytes)) throw new Error('Encoder did not produce JPEG data');
+  return context.stream(bytes, { ...dict, BitsPerComponent: 8, Filter: 'DCTDecode' });
+};
+
+/**
+ * Flate stream of raw image samples at the highest level. 8- and 16-bit samples
+ * go through per-row PNG predictors; sub-byte samples rarely gain from them.
+ */
+const flateImageStream = (
+  context: PDFContext,
+  samples: Uint8Array,
+  { width, height, colors, bpc }: { width: number; height: number; colors: number; bpc: number },
+  dict: Record<string, PDFObject | string | number>
+): PDFRawStream => {
+  const rowBytes = Math.ceil((width * colors * bpc) / 8);
+  const rows = samples.subarray(0, rowBytes * height);
+  if (bpc < 8) return context.stream(deflateMax(rows), { ...dict, Filter: 'FlateDecode' });
+  return context.stream(deflateMax(filterScanlines(rows, rowBytes, (colors * bpc) / 8, true)), {
+    ...dict,
+    Filter: 'FlateDecode',
+    DecodeParms: { Predictor: 15, Colors: colors, BitsPerComponent: bpc, Columns: width },
+  });
+};
+
+/**
+ * Extracts the alpha channel as a DeviceGray soft mask, or nothing when the image is opaque
+ */
+const buildSoftMask = (context: PDFContext, image: RgbaImage): PDFRawStream | undefined => {
+  const alpha = new Uint8Array(image.width * image.height);
+  let opaque = true;
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = image.data[i * 4 + 3];
+    if (alpha[i] !== 255) opaque = false;
+  }
+  if (opaque) return undefined;
+  return flateImageStream(context, alpha, { width: image.width, height: image.height, colors: 1, bpc: 8 }, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: image.width,
+    Height: image.height,
+    ColorSpace: 'DeviceGray',
+    BitsPerComponent: 8,
+  });
+};
+
+/**
+ * Serializes the replacement with pdf-lib's writer, parses it back and decodes
+ * it again, so a stream the viewer could not read never replaces the original
+ */
+const verifyRoundTrip = async (
+  context: PDFContext,
+  stream: PDFRawStream,
+  width: number,
+  height: number
+): Promise<string | undefined> => {
+  const buffer = new Uint8Array(stream.sizeInBytes());
+  stream.copyBytesInto(buffer, 0);
+  const parsed = PDFObjectParser.forBytes(buffer, context).parseObject();
+  if (!(parsed instanceof PDFRawStream)) return 'replacement did not parse back as a stream';
+  if (parsed.getContentsSize() !== stream.getContentsSize()) return 'replacement stream length changed';
+
+  const decoded = await decodePdfImage(context, parsed);
+  if (decoded.status === 'skipped') return `replacement does not decode: ${decoded.reason}`;
+  if (decoded.image.width !== width || decoded.image.height !== height) {
+    return `replacement decodes to ${decoded.image.width}x${decoded.image.height}, expected ${width}x${height}`;
+  }
+  return undefined;
+};
+
+export type ReencodedPdfImage =
+  | {
+    status: 'encoded';
+    stream: PDFRawStream;
+    codec: string;
+    /** New soft mask carrying alpha the JPEG cannot hold; not yet registered */
+    softMask?: PDFRawStream;
+    /** Quality and SSIM the quality guard settled on */
+    quality?: number;
+    ssim?: number;
+  }
+  /** Re-encoded, but no quality passed the quality guard */
+  | { status: 'kept'; reason: string }
+  | { status: 'skipped'; reason: string };
+
+export interface ReencodeOptions {
+  /** Upper bound on width × height of lossy re-encodes */
+  maxPixels?: number;
+  /** See `OptimizationOptions.ssimThreshold` */
+  ssimThreshold?: number;
+}
+
+/** Exact-palette `/Indexed` replacement for the pixels `indexed` was built from */
+const encodeIndexed = async (
+  context: PDFContext,
+  dict: PDFDict,
+  indexed: QuantizedImage
+): Promise<ReencodedPdfImage> => {
+  const { width, height } = indexed;
+  const colors = indexed.palette.length / 4;
+  const lookup = Array.from({ length: colors * 3 }, (_, i) => indexed.palette[Math.floor(i / 3) * 4 + (i % 3)]);
+  const colorSpace = context.obj([
+    PDFName.of('Indexed'),
+    jpegColorSpace(context, dict.get(PDFName.of('ColorSpace'))),
+    colors - 1,
+    PDFHexString.of(lookup.map((b) => b.toString(16).padStart(2, '0')).join('')),
+  ]);
+  const bpc = paletteBitDepth(colors);
+  const newStream = flateImageStream(
+    context,
+    packSamples(indexed.indices, width, height, bpc),
+    { width, height, colors: 1, bpc },
+    buildImageDict(dict, { Width: width, Height: height, ColorSpace: colorSpace, BitsPerComponent: bpc })
+  );
+  const failure = await verifyRoundTrip(context, newStream, width, height);
+  if (failure) return { status: 'skipped', reason: failure };
+  return { status: 'encoded', stream: newStream, codec: 'FlateDecode' };
+};
+
+/** Baseline JPEG replacement, with the alpha it cannot hold moved to a new soft mask */
+const encodeJpeg = async (
+  context: PDFContext,
+  dict: PDFDict,
+  image: RgbaImage,
+  quality: number,
+  { maxPixels, ssimThreshold = 0 }: ReencodeOptions
+): Promise<ReencodedPdfImage> => {
+  const encode = (q: number) => encodePixels(image, q, { targetMime: 'image/jpeg', maxPixels });
+  let encoded: CompressedImage;
+  let guard: { quality: number; ssim: number } | undefined;
+  if (ssimThreshold > 0) {
+    const guarded = await searchQuality(encode, image, quality, ssimThreshold);
+    if (!guarded) return { status: 'kept', reason: `no quality up to ${quality} reaches SSIM ${ssimThreshold}` };
+    encoded = guarded.encoded;
+    guard = { quality: guarded.quality, ssim: guarded.ssim };
+  } else {
+    encoded = await encode(quality);
+  }
+  if (encoded.mime !== 'image/jpeg') {
+    return { status: 'skipped', reason: `encoder produced ${encoded.mime}, not JPEG` };
+  }
+  const fields = buildImageDict(dict, {
+    Width: encoded.width,
+    Height: encoded.height,
+    ColorSpace: jpegColorSpace(context, dict.get(PDFName.of('ColorSpace'))),
+  });
+  // JPX can carry its own alpha (/SMaskInData); an explicit /SMask always wins
+  const softMask = dict.has(PDFName.of('SMask')) ? undefined : buildSoftMask(context, image);
+
+  const newStream = embedJpeg(context, new Uint8Array(await encoded.blob.arrayBuffer()), fields);
+  const failure = await verifyRoundTrip(context, newStream, encoded.width, encoded.height);
+  if (failure) return { status: 'skipped', reason: failure };
+  return { status: 'encoded', stream: newStream, codec: 'DCTDecode', softMask, ...guard };
+};
+
+/**
+ * Decodes an image XObject and builds its smallest faithful replacement:
+ * raw images with at most 256 colors get an exact palette (gray ones only when
+ * it beats the JPEG), other continuous-tone images become baseline JPEG, and
+ * low bit-depth and indexed images are losslessly re-deflated in their
+ * original color space.
+ */
+export const reencodePdfImage = async (
+  context: PDFContext,
+  stream: PDFRawStream,
+  quality: number,
+  { maxPixels, ssimThreshold = 0 }: ReencodeOptions = {}
+): Promise<ReencodedPdfImage> => {
+  const decoded = await decodePdfImage(context, stream);
+  if (decoded.status === 'skipped') return decoded;
+
+  const { dict } = stream;
+  // Color-key masks are exact sample ranges and would not survive lossy encoding
+  const hasColorKeyMask = dict.lookup(PDFName.of('Mask')) instanceof PDFArray;
+
+  const lossy = decoded.continuousTone && !hasColorKeyMask;
+
+  // Screenshots and diagrams stored as raw samples: an exact palette is lossless and far smaller than JPEG
+  let indexed: ReencodedPdfImage | undefined;
+  if (lossy && decoded.samples) {
+    const size = scaledSize(decoded.image.width, decoded.image.height, { maxPixels });
+    // Resampling blends colors, so the palette is built at the final size
+    const scaled = size.width === decoded.image.width && size.height === decoded.image.height
+      ? decoded.image
+      : await resizePixels(decoded.image, size.width, size.height);
+    const palette = indexExactly(scaled);
+    if (palette) indexed = await encodeIndexed(context, dict, palette);
+  }
+  // Every 8-bit gray image fits a palette, so there it has to beat the JPEG as well
+  const singleChannel = componentCount(resolveColorSpace(context, dict.get(PDFName.of('ColorSpace')))) === 1;
+  if (indexed && !singleChannel) return indexed;
+
+  if (lossy) {
+    const jpeg = await encodeJpeg(context, dict, decoded.image, quality, { maxPixels, ssimThreshold });
+    if (indexed?.status !== 'encoded') return jpeg;
+    return jpeg.status === 'encoded' && replacementSize(jpeg) < replacementSize(indexed) ? jpeg : indexed;
+  }
+
+  if (!decoded.samples) return { status: 'skipped', reason: 'no raw samples to recompress' };
+  const width = numberAt(dict, 'Width')!;
+  const height = numberAt(dict, 'Height')!;
+  const fields: Record<string, PDFObject | string | number> = {
+    Width: width,
+    Height: height,
+    BitsPerComponent: numberAt(dict, 'BitsPerComponent') ?? 8,
+    ColorSpace: dict.get(PDFName.of('ColorSpace'))!,
+  };
+  const decode = dict.get(PDFName.of('Decode'));
+  if (decode) fields.Decode = decode;
+
+  const cs = resolveColorSpace(context, dict.get(PDFName.of('ColorSpace')));
+  const newStream = flateImageStream(
+    context,
+    decoded.samples,
+    { width, height, colors: componentCount(cs), bpc: fields.BitsPerComponent as number },
+    buildImageDict(dict, fields)
+  );
+  const failure = await verifyRoundTrip(context, newStream, width, height);
+  if (failure) return { status: 'skipped', reason: failure };
+  return { status: 'encoded', stream: newStream, codec: 'FlateDecode' };
+};
+
+/** Encoded size of a replacement including any soft mask it brings along */
+export const replacementSize = (reencoded: Extract<ReencodedPdfImage, { status: 'encoded' }>): number =>
+  reencoded.stream.getContentsSize() + (reencoded.softMask?.getContentsSize() ?? 0);
+
+/**
+ * Swaps the object at `ref` for the replacement, registering its soft mask
+ * first. Returns the soft mask's reference so the swap can be undone.
+ */
+export const replacePdfImage = (
+  context: PDFContext,
+  ref: PDFRef,
+  reencoded: Extract<ReencodedPdfImage, { status: 'encoded' }>
+): PDFRef | undefined => {
+  let softMaskRef: PDFRef | undefined;
+  if (reencoded.softMask) {
+    softMaskRef = context.register(reencoded.softMask);
+    reencoded.stream.dict.set(PDFName.of('SMask'), softMaskRef);
+  }
+  context.assign(ref, reencoded.stream);
+  return softMaskRef;
+};
+
+/** Largest preview handed to the UI; enough to zoom in without holding full scans */
+const PREVIEW_MAX_PIXELS = 4_000_000;
+
+/**
+ * Renders an image XObject as something an <img> can show: baseline JPEG
+ * streams as they are, everything else decoded and re-encoded as PNG
+ */
+export const previewPdfImage = async (context: PDFContext, stream: PDFRawStream): Promise<Blob | undefined> => {
+  const { codec } = describePdfImage(context, stream);
+  if (codec === 'DCTDecode' && !stream.dict.has(PDFName.of('Decode'))) {
+    return new Blob([stream.getContents()], { type: 'image/jpeg' });
+  }
+  const decoded = await decodePdfImage(context, stream);
+  if (decoded.status === 'skipped') return undefined;
+  const encoded = await encodePixels(decoded.image, 100, { targetMime: 'image/png', maxPixels: PREVIEW_MAX_PIXELS });
+  return encoded.blob;
+};
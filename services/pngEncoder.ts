@@ -0,0 +1,238 @@
+/**
+ * PNG encoder for images that must stay lossless: picks the smallest color
+ * type that holds the pixels exactly, chooses a filter per scanline and
+ * deflates at the highest level. The scanline filters double as the PNG
+ * predictors of PDF Flate streams.
+ */
+import pako from 'pako';
+import { CompressedImage, CompressOptions, resizePixels, RgbaImage, scaledSize } from './imageCodec';
+import { indexExactly, QuantizedImage, quantizeImage } from './paletteQuantizer';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** PNG color types */
+const GRAY = 0;
+const RGB = 2;
+const INDEXED = 3;
+const GRAY_ALPHA = 4;
+const RGBA = 6;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array, crc = 0xffffffff) => {
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+};
+
+/**
+ * zlib stream at the highest compression level
+ */
+export const deflateMax = (data: Uint8Array): Uint8Array => pako.deflate(data, { level: 9, memLevel: 9 });
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+};
+
+/**
+ * Prefixes every scanline with a PNG filter type and filters it. With
+ * `adaptive`, each row gets the filter with the smallest sum of absolute
+ * residuals (the libpng heuristic); otherwise rows are left unfiltered, which
+ * compresses palette and sub-byte images best.
+ */
+export const filterScanlines = (data: Uint8Array, rowBytes: number, bytesPerPixel: number, adaptive: boolean): Uint8Array => {
+  const rows = data.length / rowBytes;
+  const out = new Uint8Array(rows * (rowBytes + 1));
+  const candidates = Array.from({ length: 5 }, () => new Uint8Array(rowBytes));
+
+  for (let r = 0; r < rows; r++) {
+    const row = r * rowBytes;
+    const target = r * (rowBytes + 1);
+    if (!adaptive) {
+      out.set(data.subarray(row, row + rowBytes), target + 1);
+      continue;
+    }
+
+    let best = 0;
+    let bestSum = Infinity;
+    for (let type = 0; type < 5; type++) {
+      const filtered = candidates[type];
+      let sum = 0;
+      for (let i = 0; i < rowBytes; i++) {
+        const raw = data[row + i];
+        const left = i >= bytesPerPixel ? data[row + i - bytesPerPixel] : 0;
+        const up = r > 0 ? data[row - rowBytes + i] : 0;
+        const upLeft = r > 0 && i >= bytesPerPixel ? data[row - rowBytes + i - bytesPerPixel] : 0;
+        const predicted = type === 1 ? left : type === 2 ? up : type === 3 ? (left + up) >> 1 : type === 4 ? paeth(left, up, upLeft) : 0;
+        const value = (raw - predicted) & 0xff;
+        filtered[i] = value;
+        sum += value < 128 ? value : 256 - value;
+      }
+      if (sum < bestSum) {
+        best = type;
+        bestSum = sum;
+      }
+    }
+    out[target] = best;
+    out.set(candidates[best], target + 1);
+  }
+  return out;
+};
+
+/** Smallest PNG bit depth that can index `colors` palette entries */
+export const paletteBitDepth = (colors: number) => (colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8);
+
+/**
+ * Packs one 8-bit value per pixel into rows of `bitDepth` bits per pixel
+ */
+export const packSamples = (values: Uint8Array, width: number, height: number, bitDepth: number): Uint8Array => {
+  if (bitDepth === 8) return values;
+  const rowBytes = Math.ceil((width * bitDepth) / 8);
+  const out = new Uint8Array(rowBytes * height);
+  const perByte = 8 / bitDepth;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const shift = 8 - bitDepth * ((x % perByte) + 1);
+      out[y * rowBytes + Math.floor(x / perByte)] |= values[y * width + x] << shift;
+    }
+  }
+  return out;
+};
+
+const chunk = (type: string, body: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + body.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(body, 8);
+  view.setUint32(8 + body.length, (crc32(out.subarray(4, 8 + body.length)) ^ 0xffffffff) >>> 0);
+  return out;
+};
+
+const writePng = (
+  width: number,
+  height: number,
+  bitDepth: number,
+  colorType: number,
+  scanlines: Uint8Array,
+  channels: number,
+  extra: Uint8Array[] = []
+): Uint8Array => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([bitDepth, colorType, 0, 0, 0], 8);
+
+  const rowBytes = Math.ceil((width * channels * bitDepth) / 8);
+  const adaptive = colorType !== INDEXED && bitDepth >= 8;
+  const filtered = filterScanlines(scanlines, rowBytes, Math.max(1, (channels * bitDepth) / 8), adaptive);
+
+  const chunks = [chunk('IHDR', header), ...extra, chunk('IDAT', deflateMax(filtered)), chunk('IEND', new Uint8Array(0))];
+  const out = new Uint8Array(SIGNATURE.length + chunks.reduce((sum, c) => sum + c.length, 0));
+  out.set(SIGNATURE);
+  let offset = SIGNATURE.length;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+};
+
+/**
+ * Palette PNG; a tRNS chunk is only written when some entry is not opaque
+ */
+export const encodeIndexedPng = ({ width, height, palette, indices }: QuantizedImage): Uint8Array => {
+  const colors = palette.length / 4;
+  const plte = new Uint8Array(colors * 3);
+  const alpha = new Uint8Array(colors);
+  for (let i = 0; i < colors; i++) {
+    plte.set(palette.subarray(i * 4, i * 4 + 3), i * 3);
+    alpha[i] = palette[i * 4 + 3];
+  }
+  // tRNS may stop after the last non-opaque entry
+  let alphaLength = colors;
+  while (alphaLength > 0 && alpha[alphaLength - 1] === 255) alphaLength--;
+
+  const bitDepth = paletteBitDepth(colors);
+  const extra = [chunk('PLTE', plte)];
+  if (alphaLength > 0) extra.push(chunk('tRNS', alpha.subarray(0, alphaLength)));
+  return writePng(width, height, bitDepth, INDEXED, packSamples(indices, width, height, bitDepth), 1, extra);
+};
+
+/**
+ * Lossless PNG with the smallest color type that holds every pixel exactly:
+ * grayscale, palette, RGB, or the alpha variants when transparency is used
+ */
+export const encodePng = (image: RgbaImage): Uint8Array => {
+  const { width, height, data } = image;
+  let gray = true;
+  let opaque = true;
+  for (let i = 0; i < data.length && (gray || opaque); i += 4) {
+    if (data[i] !== data[i + 1] || data[i] !== data[i + 2]) gray = false;
+    if (data[i + 3] !== 255) opaque = false;
+  }
+
+  const pixels = width * height;
+  if (gray && opaque) {
+    const samples = new Uint8Array(pixels);
+    for (let p = 0; p < pixels; p++) samples[p] = data[p * 4];
+    return writePng(width, height, 8, GRAY, samples, 1);
+  }
+
+  const indexed = indexExactly(image);
+  if (indexed) return encodeIndexedPng(indexed);
+
+  const channels = gray ? 2 : opaque ? 3 : 4;
+  const samples = new Uint8Array(pixels * channels);
+  for (let p = 0; p < pixels; p++) {
+    if (gray) {
+      samples[p * 2] = data[p * 4];
+      samples[p * 2 + 1] = data[p * 4 + 3];
+    } else if (opaque) {
+      samples.set(data.subarray(p * 4, p * 4 + 3), p * 3);
+    } else {
+      samples.set(data.subarray(p * 4, p * 4 + 4), p * 4);
+    }
+  }
+  return writePng(width, height, 8, gray ? GRAY_ALPHA : opaque ? RGB : RGBA, samples, channels);
+};
+
+/**
+ * Scales `image` like `compressImage` and encodes it as PNG: losslessly, or
+ * palette-quantized when `paletteQuality` is given and a palette reaches it.
+ * `quality` is set when quantization was used.
+ */
+export const compressPng = async (
+  image: RgbaImage,
+  limits: CompressOptions,
+  paletteQuality?: number
+): Promise<{ compressed: CompressedImage; quality?: number }> => {
+  const size = scaledSize(image.width, image.height, limits);
+  // Resampling blends colors, so any palette is built at the final size
+  const scaled = await resizePixels(image, size.width, size.height);
+  const quantized = paletteQuality === undefined ? undefined : quantizeImage(scaled, paletteQuality);
+  const bytes = quantized ? encodeIndexedPng(quantized) : encodePng(scaled);
+  return {
+    compressed: {
+      blob: new Blob([bytes], { type: 'image/png' }),
+      mime: 'image/png',
+      width: scaled.width,
+      height: scaled.height,
+      originalWidth: image.width,
+      originalHeight: image.height,
+    },
+    quality: quantized ? paletteQuality : undefined,
+  };
+};
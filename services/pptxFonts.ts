@@ -0,0 +1,87 @@
+import JSZip from 'jszip';
+import { patchTags, rewriteXml } from './packageRewriter';
+import { dirName, findElements, getAttr, relsPathOf, removeElements, resolvePartPath } from './xmlUtils';
+
+/** One embedded font file of a PPTX/SHOW deck */
+export interface EmbeddedFontPart {
+  path: string;
+  typeface: string;
+  /** `regular`, `bold`, `italic` or `boldItalic` */
+  style: string;
+  bytes: number;
+}
+
+const FONT_STYLES = ['regular', 'bold', 'italic', 'boldItalic'];
+const FONT_RELATIONSHIP = /\/relationships\/font$/;
+
+/** The presentation part, found through the package's officeDocument relationship */
+const presentationPart = async (zip: JSZip): Promise<string | undefined> => {
+  if (!zip.files['_rels/.rels']) return undefined;
+  const xml = await zip.files['_rels/.rels'].async('string');
+  const rel = findElements(xml, 'Relationship').find((el) => /\/officeDocument$/.test(el.attrs.Type ?? ''));
+  const part = rel?.attrs.Target ? resolvePartPath('', rel.attrs.Target) : undefined;
+  return part && zip.files[part] && zip.files[relsPathOf(part)] ? part : undefined;
+};
+
+/**
+ * Fonts listed in the presentation's `embeddedFontLst`, with the size of
+ * their `.fntdata` parts. Empty for packages that are not presentations.
+ */
+export const listEmbeddedFonts = async (zip: JSZip): Promise<EmbeddedFontPart[]> => {
+  const part = await presentationPart(zip);
+  if (!part) return [];
+  const relsXml = await zip.files[relsPathOf(part)].async('string');
+  const targets = new Map(
+    findElements(relsXml, 'Relationship')
+      .filter((el) => FONT_RELATIONSHIP.test(el.attrs.Type ?? '') && el.attrs.Target)
+      .map((el) => [el.attrs.Id, resolvePartPath(dirName(part), el.attrs.Target)])
+  );
+
+  const xml = await zip.files[part].async('string');
+  const fonts: EmbeddedFontPart[] = [];
+  for (const entry of findElements(xml, 'embeddedFont')) {
+    const inner = xml.slice(entry.start, entry.end);
+    const typeface = findElements(inner, 'font')[0]?.attrs.typeface ?? '';
+    for (const style of FONT_STYLES) {
+      const id = findElements(inner, style).map((el) => getAttr(el.attrs, 'id'))[0];
+      const path = id ? targets.get(id) : undefined;
+      if (!path || !zip.files[path]) continue;
+      fonts.push({ path, typeface, style, bytes: (await zip.files[path].async('uint8array')).length });
+    }
+  }
+  return fonts;
+};
+
+/**
+ * Deletes every embedded font: the font parts, their relationships and
+ * content-type overrides, the `embeddedFontLst`, and the flags that make
+ * PowerPoint embed fonts again on the next save. Slides then render with
+ * whatever fonts the viewer has installed.
+ */
+export const removeEmbeddedFonts = async (zip: JSZip, fonts: EmbeddedFontPart[]): Promise<void> => {
+  const part = await presentationPart(zip);
+  if (!part || fonts.length === 0) return;
+  const removed = new Set(fonts.map((font) => font.path));
+
+  await rewriteXml(zip, part, (xml) => {
+    const list = findElements(xml, 'embeddedFontLst')[0];
+    const trimmed = removeElements(xml, list ? [list] : []);
+    return patchTags(trimmed, findElements(trimmed, 'presentation').slice(0, 1).map((el) => ({
+      ...el,
+      newTag: el.openTag.replace(/\s(embedTrueTypeFonts|saveSubsetFonts)\s*=\s*("[^"]*"|'[^']*')/g, ''),
+    })));
+  });
+
+  await rewriteXml(zip, relsPathOf(part), (xml) => removeElements(
+    xml,
+    findElements(xml, 'Relationship').filter((el) => FONT_RELATIONSHIP.test(el.attrs.Type ?? ''))
+  ));
+
+  if (zip.files['[Content_Types].xml']) {
+    await rewriteXml(zip, '[Content_Types].xml', (xml) => removeElements(
+      xml,
+      findElements(xml, 'Override').filter((el) => removed.has((el.attrs.PartName ?? '').replace(/^\//, '')))
+    ));
+  }
+  removed.forEach((path) => zip.remove(path));
+};
@@ -0,0 +1,247 @@
+import JSZip from 'jszip';
+import { rewriteXml } from './packageRewriter';
+import { MediaKind, mediaKindOf, probeDuration } from './mediaProbe';
+import {
+  dirName,
+  findElements,
+  getAttr,
+  relsPathOf,
+  relsSource,
+  removeElements,
+  resolvePartPath,
+  XmlElement
+} from './xmlUtils';
+
+/** A video or audio file embedded in a presentation */
+export interface EmbeddedMediaPart {
+  path: string;
+  kind: MediaKind;
+  bytes: number;
+  /** Seconds, when the container declares it */
+  duration?: number;
+  /** Slides, layouts or masters that play it */
+  usedBy: string[];
+  /**
+   * Played as a transition, click or animation sound (`snd`, `sndTgt`), which
+   * the schema only allows as embedded WAV
+   */
+  soundEffect?: boolean;
+}
+
+/** `video` and `audio` from the OOXML spec, and PowerPoint 2010's own `media` relationship */
+const MEDIA_RELATIONSHIP = /\/relationships\/(video|audio|media)$/;
+/** Elements that make a picture a media player */
+const PLAYER_LINKS = ['videoFile', 'audioFile', 'quickTimeFile', 'media'];
+/** Elements that play a sound effect; their target must stay WAV */
+const SOUND_EFFECTS = ['snd', 'sndTgt'];
+
+const relsFiles = (zip: JSZip) => Object.keys(zip.files).filter((p) => /(^|\/)_rels\/[^/]*\.rels$/.test(p));
+
+/** Embedded media relationships of every part, as part -> (relationship id -> media path) */
+const mediaRelationships = async (zip: JSZip) => {
+  const byPart = new Map<string, Map<string, string>>();
+  for (const relsPath of relsFiles(zip)) {
+    const source = relsSource(relsPath);
+    if (!source || !zip.files[source]) continue;
+    const xml = await zip.files[relsPath].async('string');
+    const ids = new Map<string, string>();
+    for (const rel of findElements(xml, 'Relationship')) {
+      if (!MEDIA_RELATIONSHIP.test(rel.attrs.Type ?? '') || rel.attrs.TargetMode === 'External' || !rel.attrs.Target) continue;
+      const path = resolvePartPath(dirName(source), rel.attrs.Target);
+      if (zip.files[path]) ids.set(rel.attrs.Id, path);
+    }
+    if (ids.size > 0) byPart.set(source, ids);
+  }
+  return byPart;
+};
+
+/**
+ * Every embedded video and audio file with its size and duration. Linked
+ * media (TargetMode="External") is not part of the package and is skipped.
+ */
+export const listEmbeddedMedia = async (zip: JSZip): Promise<EmbeddedMediaPart[]> => {
+  const usedBy = new Map<string, Set<string>>();
+  const kinds = new Map<string, MediaKind>();
+  const soundEffects = new Set<string>();
+  for (const [part, ids] of await mediaRelationships(zip)) {
+    const xml = await zip.files[part].async('string');
+    for (const path of ids.values()) {
+      if (!usedBy.has(path)) usedBy.set(path, new Set());
+      usedBy.get(path)!.add(part);
+    }
+    // The element that plays it is more reliable than the extension
+    for (const el of findElements(xml, 'videoFile')) {
+      const path = ids.get(getAttr(el.attrs, 'link') ?? '');
+      if (path) kinds.set(path, 'video');
+    }
+    for (const el of SOUND_EFFECTS.flatMap((name) => findElements(xml, name))) {
+      const path = ids.get(getAttr(el.attrs, 'embed') ?? '');
+      if (path) soundEffects.add(path);
+    }
+  }
+
+  const media: EmbeddedMediaPart[] = [];
+  for (const path of Object.keys(zip.files).filter((p) => usedBy.has(p))) {
+    const bytes = await zip.files[path].async('uint8array');
+    media.push({
+      path,
+      kind: kinds.get(path) ?? mediaKindOf(path) ?? 'audio',
+      bytes: bytes.length,
+      duration: probeDuration(path, bytes),
+      usedBy: [...usedBy.get(path)!],
+      soundEffect: soundEffects.has(path) || undefined,
+    });
+  }
+  return media;
+};
+
+const linkedIds = (xml: string, names: string[]) =>
+  names.flatMap((name) => findElements(xml, name))
+    .flatMap((el) => [getAttr(el.attrs, 'link'), getAttr(el.attrs, 'embed')])
+    .filter((id): id is string => !!id);
+
+/** Shifts elements found in a substring back to offsets in the whole document */
+const within = (xml: string, outer: XmlElement, name: string) =>
+  findElements(xml.slice(outer.start, outer.end), name).map((el) => ({ ...el, start: el.start + outer.start, end: el.end + outer.start }));
+
+/** Smallest element among `candidates` that contains `el` */
+const innermost = (el: XmlElement, candidates: XmlElement[]) =>
+  candidates
+    .filter((c) => c.start <= el.start && el.end <= c.end && c !== el)
+    .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+
+const isEmpty = (xml: string, el: XmlElement) =>
+  el.openTag.endsWith('/>') || xml.slice(el.start + el.openTag.length, xml.lastIndexOf('<', el.end - 1)).trim() === '';
+
+/** Drops outer elements' nested duplicates so every element is cut once */
+const outermost = (elements: XmlElement[]) =>
+  elements.filter((el, i) => !elements.some((other, j) => j !== i && other.start <= el.start && el.end <= other.end
+    && (other.start !== el.start || other.end !== el.end || j < i)));
+
+/**
+ * Removes the animation nodes that target the given shapes or sounds. Time
+ * nodes left without children are removed in turn; a timing tree that ends up
+ * with nothing to run is removed whole.
+ */
+const pruneTiming = (xml: string, shapeIds: Set<string>, soundIds: Set<string>) => {
+  const timing = findElements(xml, 'timing')[0];
+  if (!timing) return xml;
+  const targets = [
+    ...within(xml, timing, 'spTgt').filter((el) => shapeIds.has(el.attrs.spid)),
+    ...within(xml, timing, 'sndTgt').filter((el) => soundIds.has(getAttr(el.attrs, 'embed') ?? '')),
+  ];
+  const builds = ['bldP', 'bldDgm', 'bldOleChart', 'bldGraphic']
+    .flatMap((name) => within(xml, timing, name))
+    .filter((el) => shapeIds.has(el.attrs.spid));
+  if (targets.length === 0 && builds.length === 0) return xml;
+
+  const containers = ['par', 'video', 'audio'].flatMap((name) => within(xml, timing, name));
+  const nodes = targets.map((el) => innermost(el, containers));
+  if (nodes.some((node) => !node)) return removeElements(xml, [timing]);
+  let updated = removeElements(xml, outermost([...nodes, ...builds]));
+
+  for (;;) {
+    const current = findElements(updated, 'timing')[0];
+    const empty = within(updated, current, 'childTnLst').find((el) => isEmpty(updated, el));
+    if (!empty) {
+      const list = within(updated, current, 'bldLst')[0];
+      const tree = within(updated, current, 'tnLst')[0];
+      if (!tree || isEmpty(updated, tree)) return removeElements(updated, [current]);
+      return list && isEmpty(updated, list) ? removeElements(updated, [list]) : updated;
+    }
+    const node = innermost(empty, ['par', 'seq'].flatMap((name) => within(updated, current, name)));
+    updated = removeElements(updated, [node ?? current]);
+    if (!node) return updated;
+  }
+};
+
+/**
+ * Rewrites one part so it no longer plays the given relationships: videos
+ * become still pictures showing their poster frame, audio icons and sound
+ * actions are removed, and so are the animations that started them.
+ */
+const stripPart = (xml: string, mediaIds: Set<string>) => {
+  const shapeIds = new Set<string>();
+  const cuts: XmlElement[] = [];
+  const stills: { el: XmlElement; xml: string }[] = [];
+
+  for (const pic of findElements(xml, 'pic')) {
+    const inner = xml.slice(pic.start, pic.end);
+    if (!linkedIds(inner, PLAYER_LINKS).some((id) => mediaIds.has(id))) continue;
+    const shapeId = findElements(inner, 'cNvPr')[0]?.attrs.id;
+    if (shapeId) shapeIds.add(shapeId);
+    const isVideo = findElements(inner, 'videoFile').length > 0 || findElements(inner, 'quickTimeFile').length > 0;
+    if (!isVideo || findElements(inner, 'blip').length === 0) {
+      cuts.push(pic);
+      continue;
+    }
+    // The picture's own blip is the poster frame, so dropping the media links leaves a still image
+    const links = ['videoFile', 'audioFile', 'quickTimeFile'].flatMap((name) => findElements(inner, name));
+    const exts = findElements(inner, 'ext').filter((ext) => findElements(inner.slice(ext.start, ext.end), 'media').length > 0);
+    const clicks = findElements(inner, 'hlinkClick').filter((el) => /^ppaction:\/\/media/.test(el.attrs.action ?? ''));
+    const sounds = findElements(inner, 'snd').filter((el) => mediaIds.has(getAttr(el.attrs, 'embed') ?? ''));
+    let still = removeElements(inner, outermost([...links, ...exts, ...clicks, ...sounds]));
+    const emptyLists = findElements(still, 'extLst').filter((el) => isEmpty(still, el));
+    still = removeElements(still, emptyLists);
+    stills.push({ el: pic, xml: still });
+  }
+
+  // Transition sounds sit in a sound action; click sounds directly in the hyperlink
+  for (const snd of findElements(xml, 'snd').filter((el) => mediaIds.has(getAttr(el.attrs, 'embed') ?? ''))) {
+    cuts.push(innermost(snd, findElements(xml, 'sndAc')) ?? snd);
+  }
+
+  const edits = outermost([...cuts, ...stills.map(({ el }) => el)]);
+  const updated = edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((acc, el) => acc.slice(0, el.start) + (stills.find((still) => still.el === el)?.xml ?? '') + acc.slice(el.end), xml);
+  return pruneTiming(updated, shapeIds, mediaIds);
+};
+
+/** Relationship ids still written somewhere in the part */
+const referencedIds = (xml: string) =>
+  new Set([...xml.matchAll(/\s[\w.-]+:(?:id|embed|link|pict)\s*=\s*"([^"]*)"/g)].map((match) => match[1]));
+
+/**
+ * Takes the given media out of the presentation: every part that plays them
+ * is rewritten by `stripPart`, their relationships and content-type overrides
+ * are dropped, and the files are deleted. A file that is still referenced
+ * afterwards (from markup this does not understand) stays in the package.
+ * Returns the paths that were removed.
+ */
+export const stripEmbeddedMedia = async (zip: JSZip, paths: Set<string>): Promise<Set<string>> => {
+  if (paths.size === 0) return new Set();
+  const stillUsed = new Set<string>();
+
+  for (const [part, ids] of await mediaRelationships(zip)) {
+    const mediaIds = new Set([...ids].filter(([, path]) => paths.has(path)).map(([id]) => id));
+    if (mediaIds.size === 0) continue;
+    const original = await zip.files[part].async('string');
+    const updated = stripPart(original, mediaIds);
+    if (updated !== original) zip.file(part, updated);
+
+    // Pictures that were cut may have been the last users of their icon image too
+    const used = referencedIds(updated);
+    const before = referencedIds(original);
+    await rewriteXml(zip, relsPathOf(part), (xml) => removeElements(
+      xml,
+      findElements(xml, 'Relationship').filter((rel) => {
+        const gone = before.has(rel.attrs.Id) && !used.has(rel.attrs.Id);
+        if (!gone && mediaIds.has(rel.attrs.Id)) stillUsed.add(ids.get(rel.attrs.Id)!);
+        return gone;
+      })
+    ));
+  }
+
+  // Another part may link the same file without playing any of the removed ones
+  for (const [, ids] of await mediaRelationships(zip)) ids.forEach((path) => stillUsed.add(path));
+  const removed = new Set([...paths].filter((path) => !stillUsed.has(path) && zip.files[path]));
+  if (zip.files['[Content_Types].xml']) {
+    await rewriteXml(zip, '[Content_Types].xml', (xml) => removeElements(
+      xml,
+      findElements(xml, 'Override').filter((el) => removed.has((el.attrs.PartName ?? '').replace(/^\//, '')))
+    ));
+  }
+  removed.forEach((path) => zip.remove(path));
+  return removed;
+};
@@ -0,0 +1,376 @@
+/**
+ * Privacy scrub: takes out who wrote and edited a document and where and with
+ * what its photos were taken, without changing anything the document shows.
+ * Images are edited at the byte level, never re-encoded.
+ */
+import JSZip from 'jszip';
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString
+} from 'pdf-lib';
+import { PdfCleanupOptions, PrivacyEntry } from '../types';
+import { mimeFromPath, PackageFlavor, packageFlavor, rewriteXml } from './packageRewriter';
+import { walkReachable } from './pdfGraph';
+import { decodeXmlEntities, findElements, getAttr, removeElements, XmlElement } from './xmlUtils';
+
+/** A metadata block taken out of one image */
+type RemovedMetadata = Omit<PrivacyEntry, 'location'>;
+
+/** Longest value kept in a report entry; the rest is cut off */
+const MAX_VALUE_LENGTH = 120;
+
+const shortText = (text: string | undefined): string | undefined => {
+  const trimmed = text?.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return undefined;
+  return trimmed.length > MAX_VALUE_LENGTH ? `${trimmed.slice(0, MAX_VALUE_LENGTH)}…` : trimmed;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const startsWith = (bytes: Uint8Array, offset: number, signature: string) =>
+  [...signature].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes.subarray(0, MAX_VALUE_LENGTH * 2));
+
+interface ExifSummary {
+  orientation?: number;
+  /** Artist, camera make and model */
+  details?: string;
+  hasGps: boolean;
+  /** Decimal latitude and longitude, when both are recorded */
+  position?: string;
+}
+
+/**
+ * Reads the few EXIF tags a report needs from a TIFF structure: orientation,
+ * artist and camera in IFD0, and the coordinates in the GPS IFD
+ */
+const readExif = (tiff: Uint8Array): ExifSummary => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = view.getUint16(0) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+  /** Offset of each entry of the IFD at `offset`, by tag */
+  const ifd = (offset: number) => {
+    const entries = new Map<number, number>();
+    for (let i = 0, count = u16(offset); i < count; i++) entries.set(u16(offset + 2 + i * 12), offset + 2 + i * 12);
+    return entries;
+  };
+  const ascii = (entry: number | undefined) => {
+    if (entry === undefined) return undefined;
+    const count = u32(entry + 4);
+    const start = count <= 4 ? entry + 8 : u32(entry + 8);
+    return shortText(latin1(tiff.subarray(start, start + count)).replace(/\0+$/, ''));
+  };
+  /** Degrees, minutes and seconds as a signed decimal */
+  const coordinate = (value: number | undefined, ref: number | undefined) => {
+    if (value === undefined) return undefined;
+    const start = u32(value + 8);
+    const [d, m, s] = [0, 1, 2].map((i) => u32(start + i * 8) / u32(start + i * 8 + 4));
+    const degrees = (d + m / 60 + s / 3600) * (['S', 'W'].includes(ascii(ref) ?? '') ? -1 : 1);
+    return Number.isFinite(degrees) ? degrees.toFixed(5) : undefined;
+  };
+
+  const ifd0 = ifd(u32(4));
+  const orientation = ifd0.has(0x0112) ? u16(ifd0.get(0x0112)! + 8) : undefined;
+  const camera = [ascii(ifd0.get(0x010f)), ascii(ifd0.get(0x0110))].filter(Boolean).join(' ');
+  const details = [ascii(ifd0.get(0x013b)), camera].filter(Boolean).join(' · ') || undefined;
+  if (!ifd0.has(0x8825)) return { orientation, details, hasGps: false };
+
+  const gps = ifd(u32(ifd0.get(0x8825)! + 8));
+  const latitude = coordinate(gps.get(2), gps.get(1));
+  const longitude = coordinate(gps.get(4), gps.get(3));
+  return { orientation, details, hasGps: true, position: latitude && longitude ? `${latitude}, ${longitude}` : undefined };
+};
+
+/** Report entries for an EXIF block; a damaged block is still reported, without details */
+const exifEntries = (tiff: Uint8Array): { removed: RemovedMetadata[]; orientation?: number } => {
+  try {
+    const { orientation, details, hasGps, position } = readExif(tiff);
+    const removed: RemovedMetadata[] = [{ field: 'EXIF', value: details }];
+    if (hasGps) removed.push({ field: 'GPS', value: position });
+    return { removed, orientation };
+  } catch {
+    return { removed: [{ field: 'EXIF' }] };
+  }
+};
+
+/**
+ * APP1 segment with a big-endian EXIF block holding nothing but the
+ * orientation tag, so a rotated photo keeps displaying upright
+ */
+const orientationSegment = (orientation: number) => new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22,
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+]);
+
+/** Name of the metadata an APPn or COM segment holds, or undefined for segments that decode the image */
+const jpegMetadataKind = (bytes: Uint8Array, marker: number, body: number): string | undefined => {
+  if (marker === 0xe1 && startsWith(bytes, body, 'Exif\0\0')) return 'EXIF';
+  if (marker === 0xe1 && startsWith(bytes, body, 'http://ns.adobe.com/')) return 'XMP';
+  if (marker === 0xed && startsWith(bytes, body, 'Photoshop 3.0\0')) return 'IPTC';
+  if (marker === 0xfe) return 'Comment';
+  return undefined;
+};
+
+/**
+ * Drops EXIF, XMP, Photoshop/IPTC and comment segments from the header of a
+ * JPEG. JFIF, ICC profiles and Adobe color transforms stay, as does
+ * everything from the start of scan on.
+ */
+const stripJpeg = (bytes: Uint8Array): { bytes: Uint8Array; removed: RemovedMetadata[] } => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return { bytes, removed: [] };
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed: RemovedMetadata[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) break;
+
+    const kind = jpegMetadataKind(bytes, marker, offset + 4);
+    if (kind === 'EXIF') {
+      const exif = exifEntries(bytes.subarray(offset + 10, end));
+      removed.push(...exif.removed);
+      if (exif.orientation && exif.orientation > 1 && exif.orientation <= 8) kept.push(orientationSegment(exif.orientation));
+    } else if (kind === 'Comment') {
+      removed.push({ field: kind, value: shortText(latin1(bytes.subarray(offset + 4, end))) });
+    } else if (kind) {
+      removed.push({ field: kind });
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  if (removed.length === 0) return { bytes, removed };
+  kept.push(bytes.subarray(offset));
+  return { bytes: concat(kept), removed };
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+/** Ancillary chunks that describe the file rather than the pixels */
+const PNG_METADATA_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME'];
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+/** Report entries for one PNG metadata chunk */
+const pngChunkEntries = (type: string, data: Uint8Array): RemovedMetadata[] => {
+  if (type === 'eXIf') return exifEntries(data).removed;
+  if (type === 'tIME') return [{ field: 'Timestamp' }];
+  const separator = data.indexOf(0);
+  const keyword = latin1(data.subarray(0, separator === -1 ? data.length : separator));
+  if (keyword === XMP_KEYWORD) return [{ field: 'XMP' }];
+  // Only tEXt is stored as plain Latin-1; compressed and international text is reported by keyword
+  const text = type === 'tEXt' && separator !== -1 ? latin1(data.subarray(separator + 1)) : '';
+  return [{ field: 'Text', value: shortText(text ? `${keyword}: ${text}` : keyword) }];
+};
+
+/** Drops text, EXIF and timestamp chunks from a PNG; color, gamma and resolution chunks stay */
+const stripPng = (bytes: Uint8Array): { bytes: Uint8Array; removed: RemovedMetadata[] } => {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return { bytes, removed: [] };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  const removed: RemovedMetadata[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (end > bytes.length) break;
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    if (PNG_METADATA_CHUNKS.includes(type)) removed.push(...pngChunkEntries(type, bytes.subarray(offset + 8, end - 4)));
+    else kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  if (removed.length === 0) return { bytes, removed };
+  kept.push(bytes.subarray(offset));
+  return { bytes: concat(kept), removed };
+};
+
+const IMAGE_STRIPPERS: Record<string, (bytes: Uint8Array) => { bytes: Uint8Array; removed: RemovedMetadata[] }> = {
+  'image/jpeg': stripJpeg,
+  'image/png': stripPng,
+};
+
+/**
+ * Strips every package image written as JPEG or PNG, in place. Images this
+ * optimizer re-encoded carry no metadata and come out unchanged.
+ */
+const scrubPackageImages = async (zip: JSZip): Promise<PrivacyEntry[]> => {
+  const entries: PrivacyEntry[] = [];
+  for (const path of Object.keys(zip.files)) {
+    const strip = IMAGE_STRIPPERS[mimeFromPath(path)];
+    if (!strip || zip.files[path].dir) continue;
+    const { bytes, removed } = strip(await zip.files[path].async('uint8array'));
+    if (removed.length === 0) continue;
+    zip.file(path, bytes);
+    entries.push(...removed.map((entry) => ({ location: path, ...entry })));
+  }
+  return entries;
+};
+
+/** Text between an element's tags; empty for `<x/>` */
+const innerXml = (xml: string, el: XmlElement) =>
+  el.openTag.endsWith('/>') ? '' : xml.slice(el.start + el.openTag.length, xml.lastIndexOf('<', el.end - 1));
+
+const elementText = (xml: string, el: XmlElement) => decodeXmlEntities(innerXml(xml, el).replace(/<[^>]*>/g, ' '));
+
+/**
+ * Removes the elements with the given local names from one part. Every one of
+ * them is optional in its schema, so the part stays valid without them.
+ */
+const removeFields = async (zip: JSZip, path: string, names: string[]): Promise<PrivacyEntry[]> => {
+  if (!zip.files[path]) return [];
+  const entries: PrivacyEntry[] = [];
+  await rewriteXml(zip, path, (xml) => {
+    const elements = names.flatMap((name) => findElements(xml, name));
+    elements.forEach((el) => entries.push({ location: path, field: el.name, value: shortText(elementText(xml, el)) }));
+    return removeElements(xml, elements);
+  });
+  return entries;
+};
+
+/** Author, last editor, printing and editing time in the document properties, and the company they work for */
+const scrubOoxml = async (zip: JSZip) => [
+  ...await removeFields(zip, 'docProps/core.xml', ['creator', 'lastModifiedBy', 'lastPrinted', 'revision']),
+  ...await removeFields(zip, 'docProps/app.xml', ['Company', 'Manager', 'TotalTime']),
+];
+
+/** Author, last editor and editing history in `meta.xml` */
+const scrubOdf = (zip: JSZip) =>
+  removeFields(zip, 'meta.xml', ['initial-creator', 'creator', 'printed-by', 'editing-cycles', 'editing-duration']);
+
+/** `opf:meta` entries naming the author and the last editor */
+const HWPX_PEOPLE = ['creator', 'lastsaveby'];
+
+/**
+ * Empties the author and last editor in `content.hpf`. The elements stay:
+ * Hancom Office writes them into every document and expects to find them.
+ */
+const scrubHwpx = async (zip: JSZip): Promise<PrivacyEntry[]> => {
+  const path = Object.keys(zip.files).find((p) => /(^|\/)content\.hpf$/i.test(p));
+  if (!path) return [];
+  const entries: PrivacyEntry[] = [];
+  await rewriteXml(zip, path, (xml) => {
+    const people = findElements(xml, 'meta').filter((el) =>
+      HWPX_PEOPLE.includes(getAttr(el.attrs, 'name') ?? '') && elementText(xml, el).trim() !== '');
+    return people
+      .sort((a, b) => b.start - a.start)
+      .reduce((acc, el) => {
+        entries.unshift({ location: path, field: getAttr(el.attrs, 'name')!, value: shortText(elementText(xml, el)) });
+        const close = xml.lastIndexOf('<', el.end - 1);
+        return acc.slice(0, el.start + el.openTag.length) + acc.slice(close);
+      }, xml);
+  });
+  return entries;
+};
+
+const DOCUMENT_SCRUBBERS: Record<PackageFlavor, (zip: JSZip) => Promise<PrivacyEntry[]>> = {
+  ooxml: scrubOoxml,
+  odf: scrubOdf,
+  hwpx: scrubHwpx,
+};
+
+/**
+ * Scrubs a ZIP-based document in place: the people and editing history in its
+ * document properties, then the metadata of every image
+ */
+export const scrubPackage = async (zip: JSZip): Promise<PrivacyEntry[]> => [
+  ...await DOCUMENT_SCRUBBERS[packageFlavor(zip)](zip),
+  ...await scrubPackageImages(zip),
+];
+
+/**
+ * Cleanup passes a scrubbed PDF is saved with: `strip` drops every XMP packet,
+ * and `unusedObjects` deletes the document information this scrub cuts off
+ * along with older copies of it left behind by incremental updates
+ */
+export const scrubbedPdfCleanup = (options: PdfCleanupOptions): PdfCleanupOptions =>
+  ({ ...options, unusedObjects: true, metadata: 'strip' });
+
+/** Only the cleanup passes the scrub depends on, for scrubbing a document without optimizing it */
+export const SCRUB_ONLY_PDF_CLEANUP: PdfCleanupOptions = scrubbedPdfCleanup({
+  unusedObjects: false,
+  thumbnails: false,
+  privateData: false,
+  metadata: 'keep',
+  dedupe: false,
+  recompress: false,
+});
+
+const pdfText = (value: PDFObject) =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : value.toString();
+
+/** True for a stream whose only filter is DCTDecode, i.e. whose contents are a JPEG file */
+const isPlainJpeg = (stream: PDFRawStream) => {
+  const filter = stream.dict.get(PDFName.of('Filter'));
+  const filters = filter instanceof PDFArray ? filter.asArray() : [filter];
+  return filters.length === 1 && filters[0] === PDFName.of('DCTDecode');
+};
+
+export interface PdfScrub {
+  entries: PrivacyEntry[];
+  /** Puts the document information and the original image streams back */
+  undo: () => void;
+}
+
+/**
+ * Detaches the document information dictionary, lists the XMP packets and
+ * strips EXIF and XMP from the JPEGs among `images`. The packets themselves
+ * are removed by the cleanup passes of `scrubbedPdfCleanup`, which must run
+ * afterwards.
+ */
+export const scrubPdf = (context: PDFContext, images: PDFRef[]): PdfScrub => {
+  const entries: PrivacyEntry[] = [];
+  const undo: (() => void)[] = [];
+
+  const infoRef = context.trailerInfo.Info;
+  const info = infoRef && context.lookup(infoRef);
+  if (info instanceof PDFDict) {
+    info.entries().forEach(([key, value]) => entries.push({ location: 'Info', field: key.toString(), value: shortText(pdfText(value)) }));
+  }
+  if (infoRef) {
+    context.trailerInfo.Info = undefined;
+    undo.push(() => (context.trailerInfo.Info = infoRef));
+  }
+
+  walkReachable(context, (ref, object) => {
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+    if (dict?.has(PDFName.of('Metadata'))) entries.push({ location: ref.toString(), field: 'XMP' });
+  });
+
+  for (const ref of images) {
+    const stream = context.lookup(ref);
+    if (!(stream instanceof PDFRawStream) || !isPlainJpeg(stream)) continue;
+    const { bytes, removed } = stripJpeg(stream.getContents());
+    if (removed.length === 0) continue;
+    context.assign(ref, PDFRawStream.of(stream.dict.clone(context), bytes));
+    undo.push(() => context.assign(ref, stream));
+    entries.push(...removed.map((entry) => ({ location: ref.toString(), ...entry })));
+  }
+
+  return { entries, undo: () => undo.splice(0).reverse().forEach((step) => step()) };
+};
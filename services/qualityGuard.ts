@@ -0,0 +1,125 @@
+/**
+ * Perceptual quality guard: picks, per image, the lowest encoder quality whose
+ * output still looks like the original according to SSIM.
+ */
+import { CompressedImage, decodeToPixels, resizePixels, RgbaImage } from './imageCodec';
+
+/** SSIM is computed at most at this size; artifacts that vanish below it are invisible on screen anyway */
+const COMPARE_MAX_PIXELS = 1_000_000;
+
+const WINDOW = 8;
+const STRIDE = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/** Lowest quality the search tries; matches the quality slider */
+const MIN_QUALITY = 10;
+
+/**
+ * Luma of each pixel, composited over white the same way JPEG encoding flattens alpha
+ */
+const luma = ({ width, height, data }: RgbaImage): Float32Array => {
+  const out = new Float32Array(width * height);
+  for (let i = 0, o = 0; o < out.length; i += 4, o++) {
+    const alpha = data[i + 3] / 255;
+    const white = 255 * (1 - alpha);
+    out[o] = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * alpha + white;
+  }
+  return out;
+};
+
+/**
+ * SSIM of one rectangular window
+ */
+const windowSsim = (x: Float32Array, y: Float32Array, stride: number, left: number, top: number, w: number, h: number) => {
+  const n = w * h;
+  let sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+  for (let row = top; row < top + h; row++) {
+    for (let i = row * stride + left, end = i + w; i < end; i++) {
+      sumX += x[i];
+      sumY += y[i];
+      sumXX += x[i] * x[i];
+      sumYY += y[i] * y[i];
+      sumXY += x[i] * y[i];
+    }
+  }
+  const meanX = sumX / n;
+  const meanY = sumY / n;
+  const varX = sumXX / n - meanX * meanX;
+  const varY = sumYY / n - meanY * meanY;
+  const cov = sumXY / n - meanX * meanY;
+  return ((2 * meanX * meanY + C1) * (2 * cov + C2)) / ((meanX * meanX + meanY * meanY + C1) * (varX + varY + C2));
+};
+
+/**
+ * Mean SSIM of two equally sized images over 8×8 luma windows, between -1 and 1
+ */
+export const computeSsim = (a: RgbaImage, b: RgbaImage): number => {
+  if (a.width !== b.width || a.height !== b.height) throw new Error('SSIM needs images of equal size');
+  const { width, height } = a;
+  const x = luma(a);
+  const y = luma(b);
+  // Images smaller than one window are compared as a whole
+  if (width < WINDOW || height < WINDOW) return windowSsim(x, y, width, 0, 0, width, height);
+
+  let total = 0;
+  let windows = 0;
+  for (let top = 0; top + WINDOW <= height; top += STRIDE) {
+    for (let left = 0; left + WINDOW <= width; left += STRIDE) {
+      total += windowSsim(x, y, width, left, top, WINDOW, WINDOW);
+      windows++;
+    }
+  }
+  return total / windows;
+};
+
+const compareSize = (width: number, height: number) => {
+  const scale = Math.min(1, Math.sqrt(COMPARE_MAX_PIXELS / (width * height)));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+export interface GuardedEncoding {
+  encoded: CompressedImage;
+  quality: number;
+  ssim: number;
+}
+
+/**
+ * Binary-searches the lowest quality up to `maxQuality` whose output reaches
+ * `threshold` SSIM against `original`. Downsampling is intentional, so the
+ * original is scaled to the output size before comparing. Returns undefined
+ * when even `maxQuality` falls short.
+ */
+export const searchQuality = async (
+  encode: (quality: number) => Promise<CompressedImage>,
+  original: RgbaImage,
+  maxQuality: number,
+  threshold: number
+): Promise<GuardedEncoding | undefined> => {
+  let reference: RgbaImage | undefined;
+
+  const attempt = async (quality: number): Promise<GuardedEncoding> => {
+    const encoded = await encode(quality);
+    const size = compareSize(encoded.width, encoded.height);
+    reference ??= await resizePixels(original, size.width, size.height);
+    const decoded = await decodeToPixels(encoded.blob, size);
+    return { encoded, quality, ssim: computeSsim(reference, decoded) };
+  };
+
+  let best = await attempt(maxQuality);
+  if (best.ssim < threshold) return undefined;
+
+  let low = MIN_QUALITY;
+  let high = maxQuality - 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const candidate = await attempt(mid);
+    if (candidate.ssim >= threshold) {
+      best = candidate;
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return best;
+};
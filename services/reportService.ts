@@ -0,0 +1,86 @@
+import { AssetReport, OptimizationResult } from '../types';
+
+export interface ReportRow extends AssetReport {
+  /** Queue item the asset came from; tells apart rows of the same file queued twice */
+  itemId?: string;
+  /** Relative path of the document the asset belongs to */
+  file: string;
+  /** Bytes saved by this asset; 0 when it was not replaced */
+  saved: number;
+}
+
+/**
+ * What a report reads from a queue item. Headless runs pass results whose
+ * bytes were already written out and dropped.
+ */
+export interface ReportItem {
+  /** Queue item id; headless runs have none */
+  id?: string;
+  relativePath: string;
+  result: Omit<OptimizationResult, 'blob' | 'extractedMedia'> | null;
+  /** Why the document failed when there is no result */
+  error?: string | null;
+}
+
+const CSV_COLUMNS: (keyof ReportRow)[] = [
+  'file', 'id', 'status', 'codecBefore', 'codecAfter', 'bytesBefore', 'bytesAfter', 'saved',
+  'originalWidth', 'originalHeight', 'width', 'height', 'quality', 'ssim', 'reason',
+];
+
+/**
+ * Flattens the per-asset reports of all finished items into one list
+ */
+export const collectReportRows = (items: ReportItem[]): ReportRow[] =>
+  items.flatMap((item) => (item.result?.assets ?? []).map((asset) => ({
+    ...asset,
+    itemId: item.id,
+    file: item.relativePath,
+    saved: asset.bytesBefore - asset.bytesAfter,
+  })));
+
+const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a header row. Starts with a BOM so Excel reads Korean file names as UTF-8.
+ */
+export const reportToCsv = (rows: ReportRow[]): Blob => {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => csvField(row[column])).join(',')),
+  ];
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+/**
+ * Full report per document: sizes, target size outcome, assets, fonts, media,
+ * what the privacy scrub removed and the optimizer log. Failed documents are
+ * listed with their error.
+ */
+export const reportToJson = (items: ReportItem[]): Blob => {
+  const documents = items.map(({ relativePath, result, error }) => result
+    ? {
+      file: relativePath,
+      originalSize: result.originalSize,
+      compressedSize: result.compressedSize,
+      reductionPercentage: Number(result.reductionPercentage.toFixed(2)),
+      imageStats: result.imageStats,
+      targetSearch: result.targetSearch,
+      verification: result.verification,
+      mediaCleanup: result.mediaCleanup,
+      fonts: result.fonts,
+      media: result.media,
+      pdfCleanup: result.pdfCleanup,
+      privacy: result.privacy,
+      assets: result.assets,
+      logs: result.optimizationLogs,
+    }
+    : { file: relativePath, error: error ?? '알 수 없는 오류' });
+  return new Blob(
+    [JSON.stringify({ generatedAt: new Date().toISOString(), documents }, null, 2)],
+    { type: 'application/json' }
+  );
+};
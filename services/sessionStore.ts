@@ -0,0 +1,33 @@
+import { DocumentSession } from './optimizerService';
+
+/**
+ * Sessions hold whole parsed documents, so only the most recently optimized
+ * ones are kept; older ones are dropped and have to be optimized again
+ */
+const MAX_SESSIONS = 4;
+
+export const SESSION_EXPIRED_MESSAGE = '문서가 더 이상 메모리에 없습니다. 파일을 다시 최적화해주세요.';
+
+const sessions = new Map<string, DocumentSession>();
+let nextId = 0;
+
+export const registerSession = (session: DocumentSession): string => {
+  const id = `${Date.now()}-${nextId++}`;
+  sessions.set(id, session);
+  while (sessions.size > MAX_SESSIONS) {
+    sessions.delete(sessions.keys().next().value!);
+  }
+  return id;
+};
+
+export const getSession = (id: string): DocumentSession => {
+  const session = sessions.get(id);
+  if (!session) {
+    throw new Error(SESSION_EXPIRED_MESSAGE);
+  }
+  return session;
+};
+
+export const releaseSession = (id: string) => {
+  sessions.delete(id);
+};
@@ -0,0 +1,111 @@
+import { OptimizationOptions, OptimizationResult, TargetSearchReport } from '../types';
+
+type Optimizer = (
+  options: OptimizationOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+) => Promise<OptimizationResult>;
+
+/** Lowest quality the search will go to; below this JPEG artifacts dominate */
+const MIN_QUALITY = 10;
+
+/**
+ * Per-image pixel caps tried in order. Each step only touches images above the
+ * cap, so the largest photos give up resolution before anything else does.
+ */
+const MEGAPIXEL_LADDER = [8, 4, 2, 1, 0.5];
+
+/** Upper bound on passes: initial, floor at the user's cap, each ladder step, binary search over 11..100 */
+const MAX_ATTEMPTS = 2 + MEGAPIXEL_LADDER.length + 7;
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+/**
+ * Runs `optimize` until its output fits `options.targetBytes`.
+ *
+ * Runs the regular optimizer at the user's settings first. If that is too big,
+ * it looks for the mildest per-image pixel cap that can fit at minimum quality,
+ * then binary-searches the highest quality that still fits under that cap.
+ * When even the smallest settings do not fit, the smallest result is returned
+ * with an explanation.
+ */
+export const optimizeToTargetSize = async (
+  options: OptimizationOptions,
+  optimize: Optimizer,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizationResult> => {
+  const { targetBytes } = options;
+  let attempts = 0;
+
+  const attempt = async (quality: number, maxMegapixels: number) => {
+    const base = (attempts / MAX_ATTEMPTS) * 100;
+    attempts++;
+    const result = await optimize(
+      { ...options, quality, maxMegapixels, targetBytes: 0 },
+      (p) => onProgress(Math.min(99, Math.round(base + p / MAX_ATTEMPTS))),
+      signal
+    );
+    return { result, quality, maxMegapixels, fits: result.compressedSize <= targetBytes };
+  };
+
+  const finish = (
+    best: Awaited<ReturnType<typeof attempt>>,
+    message: string
+  ): OptimizationResult => {
+    onProgress(100);
+    const targetSearch: TargetSearchReport = {
+      targetBytes,
+      reached: best.fits,
+      quality: best.quality,
+      maxMegapixels: best.maxMegapixels,
+      attempts,
+      message,
+    };
+    return {
+      ...best.result,
+      optimizationLogs: [...best.result.optimizationLogs, `Target size search: ${message}`],
+      targetSearch,
+    };
+  };
+
+  const initial = await attempt(options.quality, options.maxMegapixels);
+  if (initial.fits) {
+    return finish(initial, `현재 설정(품질 ${options.quality})으로 목표 ${formatMB(targetBytes)} 이내입니다.`);
+  }
+
+  // Mildest cap at which the file can fit at all
+  const ladder = MEGAPIXEL_LADDER.filter((mp) => options.maxMegapixels === 0 || mp < options.maxMegapixels);
+  let floor = await attempt(MIN_QUALITY, options.maxMegapixels);
+  for (const mp of ladder) {
+    if (floor.fits) break;
+    floor = await attempt(MIN_QUALITY, mp);
+  }
+
+  if (!floor.fits) {
+    const smallest = floor.result.compressedSize < initial.result.compressedSize ? floor : initial;
+    return finish(
+      smallest,
+      `최저 설정(품질 ${MIN_QUALITY}, 이미지당 ${floor.maxMegapixels || '무제한 '}MP)으로도 ${formatMB(smallest.result.compressedSize)}입니다. ` +
+      '이미지 외의 본문·글꼴·미디어 데이터가 목표 용량보다 크거나 이미지를 더 줄일 수 없어 목표에 도달할 수 없습니다.'
+    );
+  }
+
+  // Highest quality that still fits under the chosen cap
+  let best = floor;
+  let low = MIN_QUALITY + 1;
+  let high = options.quality;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const candidate = await attempt(mid, floor.maxMegapixels);
+    if (candidate.fits) {
+      best = candidate;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const capText = best.maxMegapixels ? `, 이미지당 최대 ${best.maxMegapixels}MP` : '';
+  return finish(best, `품질 ${best.quality}${capText}로 ${formatMB(best.result.compressedSize)} (목표 ${formatMB(targetBytes)})`);
+};
@@ -0,0 +1,234 @@
+import { AssetPreview, OptimizationOptions, OptimizationResult } from '../types';
+import { optimizeFile, previewAsset, reoptimizeSession } from './batchService';
+import { defaultConcurrency, limitConcurrency } from './concurrency';
+import { releaseSession, SESSION_EXPIRED_MESSAGE } from './sessionStore';
+
+export type WorkerRequest =
+  | { type: 'optimize'; id: number; file: File; options: OptimizationOptions }
+  | { type: 'reoptimize'; id: number; sessionId: string; options: OptimizationOptions }
+  | { type: 'preview'; id: number; sessionId: string; assetId: string }
+  | { type: 'cancel'; id: number }
+  | { type: 'release'; sessionId: string };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result: Omit<OptimizationResult, 'blob'>; buffer: ArrayBuffer; mime: string }
+  | { id: number; type: 'preview'; preview: AssetPreview }
+  | { id: number; type: 'error'; message: string };
+
+type CallRequest = Extract<WorkerRequest, { type: 'optimize' | 'reoptimize' | 'preview' }>;
+
+interface Call {
+  request: CallRequest;
+  onProgress?: (progress: number) => void;
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  worker?: Worker;
+  /** Aborted by the caller; stays registered until the worker acknowledges with `done` or `error` */
+  cancelled?: boolean;
+}
+
+export interface WorkerPool {
+  run: (
+    file: File,
+    options: OptimizationOptions,
+    onProgress: (progress: number) => void,
+    signal?: AbortSignal
+  ) => Promise<OptimizationResult>;
+  /** Re-runs a finished document, e.g. with new per-asset overrides */
+  rerun: (
+    sessionId: string,
+    options: OptimizationOptions,
+    onProgress: (progress: number) => void,
+    signal?: AbortSignal
+  ) => Promise<OptimizationResult>;
+  preview: (sessionId: string, assetId: string) => Promise<AssetPreview>;
+  /** Frees the parsed document behind a result */
+  release: (sessionId: string) => void;
+  terminate: () => void;
+}
+
+/**
+ * Documents are held fully in memory while they are optimized, and every
+ * document already encodes its images in parallel, so only a few run at once
+ */
+const MAX_PARALLEL_DOCUMENTS = 4;
+/** Documents optimized at once when there are no workers: each one blocks the UI thread while it runs */
+const MAX_MAIN_THREAD_DOCUMENTS = 1;
+
+export const supportsWorkers = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const toResult = (response: WorkerResponse): OptimizationResult => {
+  if (response.type !== 'done') throw new Error(`Unexpected worker response: ${response.type}`);
+  return { ...response.result, blob: new Blob([response.buffer], { type: response.mime }) };
+};
+
+/**
+ * Runs optimizations in a pool of Web Workers so the UI thread stays responsive.
+ * Result bytes come back as transferred buffers. Browsers without
+ * OffscreenCanvas get the same interface running on the main thread, one
+ * document at a time.
+ *
+ * A finished document stays parsed in the worker that optimized it, so re-runs
+ * and previews are routed to that worker. Aborting a signal drops a queued
+ * document, or tells the worker to stop and rejects right away; the worker
+ * takes no other document until it has acknowledged the cancel.
+ */
+export const createWorkerPool = (size = Math.min(defaultConcurrency(), MAX_PARALLEL_DOCUMENTS)): WorkerPool => {
+  if (!supportsWorkers()) {
+    return {
+      run: limitConcurrency(MAX_MAIN_THREAD_DOCUMENTS, optimizeFile, (_file, _options, _onProgress, signal) => signal),
+      rerun: reoptimizeSession,
+      preview: previewAsset,
+      release: releaseSession,
+      terminate: () => {},
+    };
+  }
+
+  const queue: Call[] = [];
+  const workers: Worker[] = [];
+  /** Document optimization per worker; re-runs and previews do not take a slot */
+  const running = new Map<Worker, Call>();
+  const calls = new Map<number, Call>();
+  const owners = new Map<string, Worker>();
+  let nextId = 0;
+
+  const send = (call: Call, worker: Worker) => {
+    call.worker = worker;
+    calls.set(call.request.id, call);
+    worker.postMessage(call.request);
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      const worker = workers.find((w) => !running.has(w)) ?? (workers.length < size ? spawn() : undefined);
+      if (!worker) return;
+      const call = queue.shift()!;
+      running.set(worker, call);
+      send(call, worker);
+    }
+  };
+
+  const settle = (call: Call) => {
+    calls.delete(call.request.id);
+    if (call.worker && running.get(call.worker) === call) {
+      running.delete(call.worker);
+      dispatch();
+    }
+  };
+
+  const spawn = (): Worker => {
+    const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+    workers.push(worker);
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      const call = calls.get(message.id);
+      if (!call) return;
+
+      if (message.type === 'progress') {
+        if (!call.cancelled) call.onProgress?.(message.progress);
+        return;
+      }
+      settle(call);
+      if (call.cancelled) {
+        // A new document finished before the cancel reached it; nobody will ask for its session.
+        // A re-run answers with the session the earlier result still uses, so that one stays.
+        if (call.request.type === 'optimize' && message.type === 'done' && message.result.sessionId) {
+          const release: WorkerRequest = { type: 'release', sessionId: message.result.sessionId };
+          worker.postMessage(release);
+        }
+        return;
+      }
+      if (message.type === 'error') {
+        call.reject(new Error(message.message));
+        return;
+      }
+      if (message.type === 'done' && message.result.sessionId) owners.set(message.result.sessionId, worker);
+      call.resolve(message);
+    };
+    worker.onerror = (event) => {
+      // A crashed worker takes its parsed documents with it
+      worker.terminate();
+      workers.splice(workers.indexOf(worker), 1);
+      running.delete(worker);
+      owners.forEach((owner, sessionId) => {
+        if (owner === worker) owners.delete(sessionId);
+      });
+      calls.forEach((call) => {
+        if (call.worker !== worker) return;
+        calls.delete(call.request.id);
+        call.reject(new Error(event.message || 'Worker failed'));
+      });
+      dispatch();
+    };
+    return worker;
+  };
+
+  /** Queues a document, or posts straight to `worker` when the call belongs to its session */
+  const submit = (
+    request: CallRequest,
+    worker?: Worker,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ) => new Promise<WorkerResponse>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const call: Call = { request, onProgress, resolve, reject };
+    if (signal) {
+      const onAbort = () => {
+        const queued = queue.indexOf(call);
+        if (queued !== -1) {
+          queue.splice(queued, 1);
+        } else if (calls.has(request.id)) {
+          // The worker keeps its slot until it answers, since the job may still be running
+          const cancel: WorkerRequest = { type: 'cancel', id: request.id };
+          call.cancelled = true;
+          call.worker!.postMessage(cancel);
+        }
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      call.resolve = (response) => { signal.removeEventListener('abort', onAbort); resolve(response); };
+      call.reject = (error) => { signal.removeEventListener('abort', onAbort); reject(error); };
+    }
+    if (worker) {
+      send(call, worker);
+    } else {
+      queue.push(call);
+      dispatch();
+    }
+  });
+
+  const ownerOf = (sessionId: string): Worker => {
+    const worker = owners.get(sessionId);
+    if (!worker) throw new Error(SESSION_EXPIRED_MESSAGE);
+    return worker;
+  };
+
+  return {
+    run: async (file, options, onProgress, signal) =>
+      toResult(await submit({ type: 'optimize', id: nextId++, file, options }, undefined, onProgress, signal)),
+    rerun: async (sessionId, options, onProgress, signal) =>
+      toResult(await submit({ type: 'reoptimize', id: nextId++, sessionId, options }, ownerOf(sessionId), onProgress, signal)),
+    preview: async (sessionId, assetId) => {
+      const response = await submit({ type: 'preview', id: nextId++, sessionId, assetId }, ownerOf(sessionId));
+      return response.type === 'preview' ? response.preview : {};
+    },
+    release: (sessionId) => {
+      const release: WorkerRequest = { type: 'release', sessionId };
+      owners.get(sessionId)?.postMessage(release);
+      owners.delete(sessionId);
+    },
+    terminate: () => {
+      workers.splice(0).forEach((worker) => worker.terminate());
+      const pending = [...queue.splice(0), ...calls.values()];
+      calls.clear();
+      running.clear();
+      owners.clear();
+      pending.forEach((call) => call.reject(new Error('Worker pool terminated')));
+    },
+  };
+};
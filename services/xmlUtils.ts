@@ -0,0 +1,244 @@
+/**
+ * Minimal string-based XML helpers.
+ *
+ * Package parts are scanned and patched in place rather than round-tripped
+ * through a DOM serializer, so untouched markup (namespace declarations,
+ * whitespace, attribute order) stays byte-identical for Hancom Office.
+ */
+
+export interface XmlElement {
+  /** Qualified name as written in the document, e.g. `hp:pic` */
+  name: string;
+  /** Index of the opening `<` */
+  start: number;
+  /** Index just past the closing tag (or past `/>` for empty elements) */
+  end: number;
+  /** Raw opening tag including `<` and `>` */
+  openTag: string;
+  attrs: Record<string, string>;
+}
+
+const ATTR_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export const decodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+
+export const encodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const parseAttributes = (openTag: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const body = openTag.replace(/^<[^\s/>]+/, '');
+  for (const match of body.matchAll(ATTR_PATTERN)) {
+    attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+};
+
+/** Strips the namespace prefix from a qualified attribute or element name */
+export const localName = (qName: string): string => qName.slice(qName.indexOf(':') + 1);
+
+/**
+ * Looks up an attribute by local name, ignoring whatever prefix the producer used
+ */
+export const getAttr = (attrs: Record<string, string>, name: string): string | undefined => {
+  if (name in attrs) return attrs[name];
+  const key = Object.keys(attrs).find((k) => localName(k) === name);
+  return key === undefined ? undefined : attrs[key];
+};
+
+/**
+ * Finds every element with the given local name (any namespace prefix),
+ * pairing nested open/close tags so `end` always points past the matching close.
+ */
+export const findElements = (xml: string, name: string): XmlElement[] => {
+  const token = new RegExp(`<(/?)((?:[\\w.-]+:)?${name})(?=[\\s/>])[^>]*?(/?)>`, 'g');
+  const results: XmlElement[] = [];
+  const stack: XmlElement[] = [];
+
+  for (const match of xml.matchAll(token)) {
+    const [raw, closing, qName, selfClosing] = match;
+    const index = match.index ?? 0;
+
+    if (closing) {
+      const open = stack.pop();
+      if (open) open.end = index + raw.length;
+      continue;
+    }
+
+    const element: XmlElement = {
+      name: qName,
+      start: index,
+      end: index + raw.length,
+      openTag: raw,
+      attrs: parseAttributes(raw),
+    };
+    results.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return results;
+};
+
+/** Returns the first element with the given local name inside [from, to) */
+export const findFirstWithin = (
+  xml: string,
+  name: string,
+  from: number,
+  to: number
+): XmlElement | undefined => findElements(xml.slice(from, to), name)
+  .map((el) => ({ ...el, start: el.start + from, end: el.end + from }))[0];
+
+/**
+ * Returns a copy of `openTag` with the attribute set (added if missing)
+ */
+export const setAttr = (openTag: string, name: string, value: string): string => {
+  const encoded = encodeXmlEntities(value);
+  const pattern = new RegExp(`(\\s${name.replace(/[.:]/g, '\\$&')}\\s*=\\s*)(?:"[^"]*"|'[^']*')`);
+  if (pattern.test(openTag)) {
+    return openTag.replace(pattern, `$1"${encoded}"`);
+  }
+  return openTag.replace(/\s*(\/?)>$/, ` ${name}="${encoded}"$1>`);
+};
+
+/**
+ * Resolves a relationship/href target against the folder of the part that references it
+ */
+export const resolvePartPath = (baseDir: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = baseDir ? baseDir.split('/') : [];
+  for (const part of target.split('/')) {
+    if (part === '..') segments.pop();
+    else if (part !== '.' && part !== '') segments.push(part);
+  }
+  return segments.join('/');
+};
+
+export const dirName = (path: string): string => {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+};
+
+/** `a/_rels/b.xml.rels` describes `a/b.xml`; the root `_rels/.rels` describes the package itself */
+export const relsSource = (relsPath: string): string => {
+  const name = relsPath.split('/').pop()!.replace(/\.rels$/, '');
+  const dir = dirName(dirName(relsPath));
+  return name && dir ? `${dir}/${name}` : name;
+};
+
+/** Inverse of `relsSource`: the relationship part that describes `part` */
+export const relsPathOf = (part: string): string => {
+  const dir = dirName(part);
+  return `${dir ? `${dir}/` : ''}_rels/${part.split('/').pop()}.rels`;
+};
+
+/** Innermost element from `candidates` that contains the given offset */
+export const enclosing = (candidates: XmlElement[], offset: number): XmlElement | undefined =>
+  candidates
+    .filter((el) => el.start <= offset && offset < el.end)
+    .sort((a, b) => b.start - a.start)[0];
+
+/** Elements from `elements` nested inside `container` */
+export const within = (elements: XmlElement[], container: XmlElement): XmlElement[] =>
+  elements.filter((el) => el.start > container.start && el.end <= container.end);
+
+/** Cuts whole elements out of the document, back to front so offsets stay valid */
+export const removeElements = (xml: string, elements: XmlElement[]): string =>
+  [...elements]
+    .sort((a, b) => b.start - a.start)
+    .reduce((acc, el) => acc.slice(0, el.start) + acc.slice(el.end), xml);
+
+/**
+ * Inverse of `resolvePartPath`: the target to write in a part in `baseDir` so it resolves to `path`
+ */
+export const relativePartPath = (baseDir: string, path: string): string => {
+  const from = baseDir ? baseDir.split('/') : [];
+  const to = path.split('/');
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+};
+
+const START_TAG = /<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>/y;
+const END_TAG = /<\/([^\s/>]+)\s*>/y;
+const TAG_ATTR = /([^\s=/>]+)\s*=\s*(?:"([^"<]*)"|'([^'<]*)')/g;
+/** An `&` that does not start one of the predefined entities or a character reference */
+const BAD_AMPERSAND = /&(?!(?:lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);)/;
+
+/**
+ * Checks that `xml` is a well-formed document: one root element, matching
+ * start and end tags, quoted and unique attributes, and no stray `<` or `&`.
+ * Returns the first problem with its offset, or undefined. DTD-declared
+ * entities are not supported, as no package format uses them.
+ */
+export const xmlSyntaxError = (xml: string): string | undefined => {
+  const stack: string[] = [];
+  let roots = 0;
+  let i = 0;
+
+  const skipTo = (terminator: string, what: string) => {
+    const end = xml.indexOf(terminator, i);
+    if (end === -1) return `Unterminated ${what} at offset ${i}`;
+    i = end + terminator.length;
+    return undefined;
+  };
+
+  while (i < xml.length) {
+    const lt = xml.indexOf('<', i);
+    const text = xml.slice(i, lt === -1 ? xml.length : lt);
+    if (stack.length === 0 && text.trim() !== '') {
+      return `Text outside the root element at offset ${i}`;
+    }
+    if (BAD_AMPERSAND.test(text)) return `Unescaped & at offset ${i + text.search(BAD_AMPERSAND)}`;
+    if (lt === -1) break;
+    i = lt;
+
+    let error: string | undefined;
+    if (xml.startsWith('<!--', i)) {
+      error = skipTo('-->', 'comment');
+    } else if (xml.startsWith('<![CDATA[', i)) {
+      error = stack.length === 0 ? `CDATA outside the root element at offset ${i}` : skipTo(']]>', 'CDATA section');
+    } else if (xml.startsWith('<?', i)) {
+      error = skipTo('?>', 'processing instruction');
+    } else if (xml.startsWith('<!DOCTYPE', i)) {
+      error = roots > 0 ? `DOCTYPE after the root element at offset ${i}` : skipTo('>', 'DOCTYPE');
+    } else if (xml.startsWith('</', i)) {
+      END_TAG.lastIndex = i;
+      const match = END_TAG.exec(xml);
+      if (!match) return `Malformed end tag at offset ${i}`;
+      const open = stack.pop();
+      if (open !== match[1]) {
+        return open ? `</${match[1]}> at offset ${i} does not close <${open}>` : `Unmatched </${match[1]}> at offset ${i}`;
+      }
+      i = END_TAG.lastIndex;
+    } else {
+      START_TAG.lastIndex = i;
+      const match = START_TAG.exec(xml);
+      if (!match) return `Malformed tag at offset ${i}`;
+      if (stack.length === 0 && roots++ > 0) return `Second root element <${match[1]}> at offset ${i}`;
+      const names = new Set<string>();
+      for (const [, attr, double, single] of match[2].matchAll(TAG_ATTR)) {
+        if (names.has(attr)) return `Duplicate attribute ${attr} at offset ${i}`;
+        names.add(attr);
+        if (BAD_AMPERSAND.test(double ?? single)) return `Unescaped & in attribute ${attr} at offset ${i}`;
+      }
+      if (!match[3]) stack.push(match[1]);
+      i = START_TAG.lastIndex;
+    }
+    if (error) return error;
+  }
+
+  if (stack.length > 0) return `<${stack[stack.length - 1]}> is never closed`;
+  return roots === 0 ? 'No root element' : undefined;
+};
@@ -0,0 +1,170 @@
+import JSZip from 'jszip';
+import { abortable } from './abort';
+
+/**
+ * Formats that carry their own compression; deflating them again only costs time
+ */
+const PRECOMPRESSED_PATH = /\.(jpe?g|png|gif|webp|jp2|mp4|m4v|m4a|mov|wmv|wma|mp3|avi|zip|fntdata|odttf)$/i;
+
+/** JSZip's magic for the STORE method */
+const STORE_MAGIC = '\x00\x00';
+/** Compression methods by JSZip's magic */
+const METHODS: Record<string, 'STORE' | 'DEFLATE'> = { [STORE_MAGIC]: 'STORE', '\x08\x00': 'DEFLATE' };
+
+/**
+ * The parts of JSZip's private `_data` this module relies on. On a loaded
+ * entry it is the still-compressed payload as the central directory described
+ * it; entries added or replaced since hold plain data, where both are missing.
+ */
+interface LoadedPayload {
+  compression?: { magic?: string };
+  uncompressedSize?: number;
+}
+
+/** The only place that reaches into JSZip's private entry state */
+const loadedPayload = (entry: JSZip.JSZipObject): LoadedPayload | undefined =>
+  (entry as JSZip.JSZipObject & { _data?: LoadedPayload })._data;
+
+/** `JSZip.file` as it also accepts a loaded payload, which its public typings leave out */
+type FileFromPayload = (this: JSZip, path: string, data: LoadedPayload, options: JSZip.JSZipFileOptions) => JSZip;
+
+/**
+ * Adds a loaded entry with its compressed bytes as they are. JSZip's `file()`
+ * takes its own CompressedObject as data, and `ZipObject._compressWorker`
+ * streams it without inflating when the requested method has the same magic.
+ * Returns false when the entry has no payload under a method JSZip writes.
+ */
+const copyLoadedPayload = (out: JSZip, path: string, entry: JSZip.JSZipObject, options: JSZip.JSZipFileOptions): boolean => {
+  const payload = loadedPayload(entry);
+  const method = payload && METHODS[payload.compression?.magic ?? ''];
+  if (!method) return false;
+  (out.file as FileFromPayload).call(out, path, payload, { ...options, compression: method });
+  return true;
+};
+
+/** Size of a loaded entry without inflating it; undefined for entries added or replaced since */
+export const loadedEntrySize = (entry: JSZip.JSZipObject): number | undefined => loadedPayload(entry)?.uncompressedSize;
+
+interface EntryInfo {
+  date: Date;
+  stored: boolean;
+  dir: boolean;
+  comment?: string;
+  unixPermissions?: number | string | null;
+  dosPermissions?: number | null;
+  /** Does not inflate, so it is copied with its original compressed bytes */
+  unreadable?: boolean;
+}
+
+/**
+ * Entry order and per-entry metadata of the package as it was loaded
+ */
+export interface ContainerLayout {
+  order: string[];
+  entries: Map<string, EntryInfo>;
+}
+
+/**
+ * Records the original order, timestamps and compression method of every
+ * entry. Must be called right after `JSZip.loadAsync`, before any entry changes.
+ */
+export const captureLayout = (zip: JSZip): ContainerLayout => {
+  const entries = new Map<string, EntryInfo>();
+  zip.forEach((path, entry) => {
+    entries.set(path, {
+      date: entry.date,
+      stored: loadedPayload(entry)?.compression?.magic === STORE_MAGIC,
+      dir: entry.dir,
+      comment: entry.comment,
+      unixPermissions: entry.unixPermissions,
+      dosPermissions: entry.dosPermissions,
+    });
+  });
+  return { order: [...entries.keys()], entries };
+};
+
+/** Records that an entry failed to inflate, so writing the package copies it instead of recompressing it */
+export const markUnreadable = (layout: ContainerLayout, path: string) => {
+  const info = layout.entries.get(path);
+  if (info) info.unreadable = true;
+};
+
+/**
+ * Copies the entry table of `zip` into a new JSZip. Entry objects are shared:
+ * JSZip replaces entries instead of mutating them, so edits to the copy leave
+ * the source untouched.
+ */
+export const cloneContainer = (zip: JSZip): JSZip => {
+  const copy = new JSZip();
+  Object.assign(copy.files, zip.files);
+  return copy;
+};
+
+/**
+ * Writes the package as an OCF/OPC-friendly container:
+ * - `mimetype` (HWPX/ODF) is the first entry and STORED
+ * - entries keep their original order; renamed entries keep their slot
+ * - media that is already compressed, or was STORED originally, stays STORED
+ * - original timestamps are kept, also for replaced entries
+ *
+ * `renames` maps original paths to the paths they were renamed to. Aborting
+ * `signal` pauses compression and rejects right away.
+ */
+export const writeContainer = async (
+  zip: JSZip,
+  layout: ContainerLayout,
+  renames: Map<string, string> = new Map(),
+  onUpdate?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const out = new JSZip();
+  const written = new Set<string>();
+
+  const add = (path: string, info?: EntryInfo) => {
+    const entry = zip.files[path];
+    if (!entry || written.has(path)) return;
+    written.add(path);
+
+    if (entry.dir) {
+      if (info) out.file(path, null, { dir: true, date: info.date });
+      return;
+    }
+
+    const options = {
+      binary: true,
+      createFolders: false,
+      date: info?.date ?? entry.date,
+      comment: info?.comment,
+      unixPermissions: info?.unixPermissions ?? undefined,
+      dosPermissions: info?.dosPermissions ?? undefined,
+    };
+    if (info?.unreadable && copyLoadedPayload(out, path, entry, options)) return;
+
+    const store = path === 'mimetype' || PRECOMPRESSED_PATH.test(path) || (info?.stored ?? false);
+    out.file(path, entry.async('uint8array'), {
+      ...options,
+      compression: store ? 'STORE' : 'DEFLATE',
+      compressionOptions: store ? null : { level: 9 },
+    });
+  };
+
+  add('mimetype', layout.entries.get('mimetype'));
+  for (const path of layout.order) {
+    add(renames.get(path) ?? path, layout.entries.get(path));
+  }
+  // Entries created during optimization; folders JSZip invented implicitly are dropped
+  zip.forEach((path, entry) => {
+    if (!entry.dir) add(path);
+  });
+
+  signal?.throwIfAborted();
+  // The internal stream is what `generateAsync` drives; holding on to it lets an abort pause it
+  const stream = out.generateInternalStream({ type: 'blob', platform: 'DOS' });
+  const onAbort = () => stream.pause();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await abortable(stream.accumulate(onUpdate ? (meta) => onUpdate(meta.percent) : undefined), signal);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
@@ -1,9 +1,12 @@
 
+/** Document formats known to the format registry; PPTX also covers Hancom SHOW, ODF covers ODT and ODP */
 export enum FileType {
   HWPX = 'HWPX',
   PDF = 'PDF',
   PPTX = 'PPTX',
-  SHOW = 'SHOW'
+  DOCX = 'DOCX',
+  XLSX = 'XLSX',
+  ODF = 'ODF'
 }
 
 export interface OptimizationResult {
@@ -13,13 +16,294 @@ export interface OptimizationResult {
   reductionPercentage: number;
   blob: Blob;
   optimizationLogs: string[];
+  /** Images discovered in the document versus images actually replaced */
+  imageStats: { found: number; optimized: number };
+  /** Present when the file was optimized in target size mode */
+  targetSearch?: TargetSearchReport;
+  /** Unused and duplicate media found in a ZIP-based document, unless cleanup is off */
+  mediaCleanup?: MediaCleanupReport;
+  /** Embedded fonts found in the document, when it has any */
+  fonts?: FontReport[];
+  /** Video and audio embedded in a presentation, when it has any */
+  media?: MediaReport[];
+  /** ZIP of the media taken out of the document by the `extract` policy */
+  extractedMedia?: Blob;
+  /** Bytes each PDF cleanup pass removed, for the passes that were on */
+  pdfCleanup?: PdfCleanupReport[];
+  /** One entry per image found, in document order */
+  assets: AssetReport[];
+  /** Outcome of reading the output back before it was returned */
+  verification?: VerificationReport;
+  /** Everything the privacy scrub took out, when it ran */
+  privacy?: PrivacyEntry[];
+  /** Settings this result was produced with, including per-asset overrides */
+  options: OptimizationOptions;
+  /** Handle to the still-parsed document, for re-running single assets */
+  sessionId?: string;
 }
 
-export interface FileState {
-  file: File | null;
-  type: FileType;
+/**
+ * - optimized: replaced by a smaller encoding
+ * - kept: re-encoded, but the result was not smaller or failed the quality guard
+ * - skipped: deliberately left alone (settings or an unsupported encoding)
+ * - error: processing failed; the original is kept
+ */
+export type AssetStatus = 'optimized' | 'kept' | 'skipped' | 'error';
+
+export interface AssetReport {
+  /** Path inside the package, or the object reference (e.g. "12 0 R") in a PDF */
+  id: string;
+  status: AssetStatus;
+  /** MIME type or PDF filter of the original and, when replaced, of the new encoding */
+  codecBefore: string;
+  codecAfter?: string;
+  bytesBefore: number;
+  /** Equal to `bytesBefore` unless the asset was replaced */
+  bytesAfter: number;
+  originalWidth?: number;
+  originalHeight?: number;
+  width?: number;
+  height?: number;
+  /** Encoder quality used for the new encoding */
+  quality?: number;
+  /** SSIM of the new encoding against the original, when the quality guard ran */
+  ssim?: number;
+  /** Why the asset was skipped or kept, or the error message */
+  reason?: string;
+}
+
+export interface OptimizationOptions {
+  /** Encoder quality, 10-100 */
+  quality: number;
+  /** How images that may carry transparency are encoded */
+  transparency: TransparencyPolicy;
+  /** Palette quantization quality, 10-100, for the `quantize` policy */
+  paletteQuality: number;
+  /** Downsample images to this resolution at their on-page size; 0 keeps original pixels */
+  maxDpi: number;
+  /** Cap on pixels per image in megapixels, so only the largest images shrink; 0 for no cap */
+  maxMegapixels: number;
+  /** Search quality and downscale settings until the output fits this many bytes; 0 disables */
+  targetBytes: number;
+  /**
+   * Per-image perceptual guard: the lowest quality up to `quality` whose output
+   * reaches this SSIM is used, or the original is kept; 0 disables
+   */
+  ssimThreshold: number;
+  /** What to do with media no part references and byte-identical copies (ZIP-based documents) */
+  mediaCleanup: MediaCleanupMode;
+  /** Whether EMF/WMF pictures are converted to bitmaps or left as they are (ZIP-based documents) */
+  metafiles: MetafilePolicy;
+  /**
+   * Cut the parts a crop hides out of pictures in PPTX/SHOW, DOCX, XLSX and
+   * HWPX; the crop can no longer be undone in the editor afterwards
+   */
+  trimCrops: boolean;
+  /** Delete the fonts embedded in a PPTX/SHOW deck */
+  removeEmbeddedFonts: boolean;
+  /** Reduce fully embedded TrueType/OpenType fonts in a PDF to the glyphs drawn */
+  subsetFonts: boolean;
+  /** What happens to video and audio embedded in a PPTX/SHOW deck */
+  embeddedMedia: EmbeddedMediaPolicy;
+  /** Structural cleanup passes run on a PDF before it is saved */
+  pdfCleanup: PdfCleanupOptions;
+  /**
+   * Remove author and editor names, editing history and image EXIF/XMP/GPS;
+   * a scrubbed PDF also loses its document information and all XMP
+   */
+  privacyScrub: boolean;
+  /** Per-asset exceptions, keyed by `AssetReport.id` */
+  overrides?: Record<string, AssetOverride>;
+}
+
+/** Settings only some formats use; quality, transparency, target size and SSIM apply to all of them */
+export type FormatOption = Extract<
+  keyof OptimizationOptions,
+  'maxDpi' | 'mediaCleanup' | 'metafiles' | 'trimCrops' | 'removeEmbeddedFonts' | 'subsetFonts' | 'embeddedMedia' | 'pdfCleanup'
+>;
+
+export interface AssetOverride {
+  /** Keep the original encoding */
+  exclude?: boolean;
+  /** Quality to use instead of `OptimizationOptions.quality` */
+  quality?: number;
+}
+
+/** Renderable original and new encoding of one asset; missing when the browser cannot show it */
+export interface AssetPreview {
+  before?: Blob;
+  after?: Blob;
+}
+
+/**
+ * Handling of PNG/GIF assets, decided per image from its alpha channel:
+ * - auto: fully opaque images become JPEG, transparent ones are re-encoded as PNG
+ * - quantize: like auto, but transparent ones are reduced to a 256-color palette
+ * - lossless: every PNG/GIF stays PNG and is only re-encoded losslessly
+ * - skip: PNG/GIF assets, and PDF images with a soft mask, are left untouched
+ *
+ * PDF images keep transparency in a separate soft mask, so every policy but
+ * `skip` treats them alike.
+ */
+export type TransparencyPolicy = 'auto' | 'quantize' | 'lossless' | 'skip';
+
+/**
+ * - off: leave every package entry in place
+ * - dryRun: only list what would be removed
+ * - remove: delete unused media and merge duplicates into one entry
+ */
+export type MediaCleanupMode = 'off' | 'dryRun' | 'remove';
+
+/**
+ * - keep: EMF/WMF entries stay untouched and are only reported with their size
+ * - rasterize: metafiles that merely wrap one bitmap are replaced by that
+ *   bitmap as PNG/JPEG; metafiles with vector drawing are kept
+ */
+export type MetafilePolicy = 'keep' | 'rasterize';
+
+/**
+ * - subset: reduced to the glyphs the document uses
+ * - removed: deleted from the package
+ * - kept: left as embedded; `reason` says why
+ * - error: subsetting failed; the original is kept
+ */
+export type FontStatus = 'subset' | 'removed' | 'kept' | 'error';
+
+export interface FontReport {
+  /** Path inside the package, or the font file's object reference in a PDF */
+  id: string;
+  /** Typeface and style, or the PDF BaseFont */
+  name: string;
+  status: FontStatus;
+  bytesBefore: number;
+  bytesAfter: number;
+  /** Glyphs in the font program and glyphs with outlines left after subsetting */
+  glyphsBefore?: number;
+  glyphsAfter?: number;
+  reason?: string;
+}
+
+/**
+ * - keep: media stay embedded and are only reported
+ * - compressAudio: uncompressed WAV audio is re-encoded as AAC where the
+ *   browser supports it through WebCodecs; video is kept
+ * - strip: video and audio are removed; a video leaves its poster frame as a still picture
+ * - extract: like strip, with the removed files offered as a separate download
+ */
+export type EmbeddedMediaPolicy = 'keep' | 'compressAudio' | 'strip' | 'extract';
+
+/**
+ * - kept: still embedded as it was; `reason` says why when it was meant to change
+ * - compressed: re-encoded at a lower bitrate
+ * - removed: taken out of the document
+ * - extracted: taken out and included in `OptimizationResult.extractedMedia`
+ * - error: processing failed; the original is kept
+ */
+export type MediaStatus = 'kept' | 'compressed' | 'removed' | 'extracted' | 'error';
+
+export interface MediaReport {
+  /** Path inside the package */
+  id: string;
+  kind: 'video' | 'audio';
+  status: MediaStatus;
+  bytesBefore: number;
+  bytesAfter: number;
+  /** Seconds, when the container declares it */
+  duration?: number;
+  /** Slides, layouts or masters that play it */
+  usedBy: string[];
+  reason?: string;
+}
+
+export interface PdfCleanupOptions {
+  /** Delete objects nothing in the document refers to, e.g. leftovers of incremental updates */
+  unusedObjects: boolean;
+  /** Drop page thumbnail images (/Thumb); viewers render their own */
+  thumbnails: boolean;
+  /** Drop application private data (/PieceInfo), such as Illustrator's editing copy */
+  privateData: boolean;
+  /**
+   * XMP metadata: `minimize` keeps the document's packet without padding,
+   * history and thumbnails and drops XMP attached to pages and images;
+   * `strip` drops all of it
+   */
+  metadata: 'keep' | 'minimize' | 'strip';
+  /** Point references to byte-identical streams at a single copy */
+  dedupe: boolean;
+  /** Flate-compress streams stored uncompressed */
+  recompress: boolean;
+}
+
+export type PdfCleanupPass = 'unusedObjects' | 'thumbnails' | 'privateData' | 'metadata' | 'dedupe' | 'recompress';
+
+export interface PdfCleanupReport {
+  pass: PdfCleanupPass;
+  /** Objects removed or rewritten */
+  objects: number;
+  /** Estimated from the uncompressed size of the objects before the PDF is saved */
+  bytesSaved: number;
+}
+
+export interface MediaCleanupEntry {
+  path: string;
+  bytes: number;
+  /** `unused`: nothing references it; `duplicate`: same bytes as `duplicateOf` */
+  reason: 'unused' | 'duplicate';
+  duplicateOf?: string;
+}
+
+export interface MediaCleanupReport {
+  /** False for a dry run: the entries are still in the document */
+  applied: boolean;
+  entries: MediaCleanupEntry[];
+}
+
+/**
+ * - passed: the output opens and matches the original's structure
+ * - assetsRestored: some replaced assets failed and their originals were put back
+ * - originalKept: the output failed in a way no single asset explains, so the
+ *   original file is returned unchanged
+ * - scrubbedOriginal: as `originalKept`, but a privacy scrub was asked for, so
+ *   the original is returned with only the scrub applied
+ */
+export type VerificationStatus = 'passed' | 'assetsRestored' | 'originalKept' | 'scrubbedOriginal';
+
+export interface VerificationReport {
+  status: VerificationStatus;
+  /** Problems found in the output, including those fixed by falling back */
+  issues: string[];
+}
+
+/** One piece of identifying information the privacy scrub took out */
+export interface PrivacyEntry {
+  /** Package path or PDF object reference it was found in; `Info` for the PDF document information */
+  location: string;
+  /** Element, dictionary key or image metadata block, e.g. `dc:creator`, `/Author`, `GPS` */
+  field: string;
+  /** The removed text or coordinates, shortened for display */
+  value?: string;
+}
+
+export interface TargetSearchReport {
+  targetBytes: number;
+  reached: boolean;
+  /** Settings of the returned result */
   quality: number;
-  isProcessing: boolean;
+  maxMegapixels: number;
+  /** Number of full optimization passes that were run */
+  attempts: number;
+  message: string;
+}
+
+export type QueueItemStatus = 'pending' | 'processing' | 'done' | 'error';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  /** Path inside the dropped/selected folder, used to rebuild the structure in the ZIP download */
+  relativePath: string;
+  status: QueueItemStatus;
+  progress: number;
   result: OptimizationResult | null;
   error: string | null;
 }
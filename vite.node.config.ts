@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite';
+
+/**
+ * Builds the headless library and the `hwpxdiet` CLI for Node. Dependencies
+ * stay external and are resolved from node_modules at run time.
+ */
+export default defineConfig({
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist/node',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: { index: 'node/index.ts', cli: 'node/cli.ts' },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        banner: (chunk) => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+});